@@ -1,625 +1,112 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import Soundfont from "soundfont-player";
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { parseChordPro } from "./chordpro";
+import { samplesFromFiles } from "./samples";
+import { encodeWav, type WavBitDepth } from "./wav";
+import {
+  analyzeSequence, buildSequenceFromProgression, CHORD_QUALITIES, chordEntry, chordName, CHROMA, degreeChords,
+  degreeOfChord, easiestVoicing, getChordDisplaySymbol, HARMONIC_KINDS, hzToMidi, itemInKey, MAJOR_KEYS,
+  mapSymbolToDictKey, MAX_CAPO, midiNoteName, midiToHz, MINOR_KEYS, NOTE_NAMES, openStrings, parseChordSymbol,
+  parseForAnalysis, parseKeyId, parseRomanProgression, PROGRESSIONS, progressionText, QUALITY_IDS, spellPc, suggestCapo,
+  toIndex, transposeChordKey, transposeKeyId, TUNING_IDS, TUNING_MIDI, TUNINGS, voicingAt, withBass, withQuality,
+  withRoot, type Barre, type CapoSuggestion, type ChordQualityId, type Fingering, type HarmonicKind,
+  type ProgressionDegree, type Shape, type Substitution, type TuningId, type TuningState,
+} from "./theory";
+import {
+  BASS_DEGREES, BASS_PATTERNS, BASS_STEPS, bassFitsMeter, beatIn16, beatStarts16, DRUM_PATTERNS, GROOVES, itemAtBeat,
+  METER_IDS, meterOf, METERS, PATTERN_RESOLUTIONS, PATTERNS, patternSize, PICK_ROLE_IDS, PICK_ROLES, sequenceTimeline,
+  STEP_NAMES, STEP_TYPES, SWING_GRIDS, type BassDegree, type BassPattern, type BassStep, type DrumPattern,
+  type DrumRows, type Groove, type MeterId, type Pattern, type PatternResolution, type PickRole, type Step,
+  type SwingGrid,
+} from "./rhythm";
+import {
+  BPM_MAX, BPM_MIN, clampBpm, DEFAULT_MIXER, DEFAULT_PLUCK, deleteCachedPack, DRUM_VOICE_IDS, DRUM_VOICES,
+  forgetSamplePack, INSTRUMENTS, putCachedPack, synthClick, useAudioEngine, useDrumSampler, useReferenceTone, useSF,
+  useTapTempo, useTransport, type AudioEngine, type BusName, type BusSettings, type DrumSampleName,
+  type InstrumentName, type MixerSettings, type PluckModel, type TempoRamp,
+} from "./audio";
+import {
+  CHORDPRO_RESOLVER, CUSTOM_PREFIX, decodeSongHash, DEFAULT_STEP_VELOCITY, downloadBlob, DRUM_CELL_LEVELS,
+  editableBassPattern, editableDrumPattern, editablePattern, encodeSongHash, fileBaseName, loadCustomBassPatterns,
+  loadCustomDrumPatterns, loadCustomPatterns, loadCustomProgressions, loadLibrary, makeSection, newId, parseSongDoc,
+  playOrder, progressionDegrees, resamplePattern, SECTION_NAMES, SONG_DOC_FORMAT, SONG_DOC_VERSION, songToChordPro,
+  storeCustomBassPatterns, storeCustomDrumPatterns, storeCustomPatterns, storeCustomProgressions, storeLibrary,
+  type ArrangementEntry, type CustomDrumPattern, type CustomProgression, type LibraryEntry, type SeqItem, type Song,
+  type SongDoc, type SongSection,
+} from "./song";
+import {
+  nextItemInOrder, playBackingStep, renderBackingAudio, renderMidi, STEM_BUSES, voicingFor, type AudioRenderOptions,
+  type BackingSettings, type BackingSink,
+} from "./backing";
 
 /**
  * Toque Comigo — Acordes + Ritmos + Fretboard (dedos/pestana) + Sequência (dinâmica) + Afinadores
  * - Sequenciador linear com comprimento dinâmico, destaque do compasso atual e opção de loop
- * - Fretboard com números dos dedos e pestana (sem capotraste)
+ * - Modo música: seções (Intro, Verso, Refrão...) com padrões próprios, arranjo com repetições
+ * - Editor de batidas em grade (colcheias, semicolcheias, tercinas): abafada, tapa, só bordões/primas, fantasma e velocidade por passo
+ * - Dedilhados por papel de corda (polegar no baixo da forma, i-m-a nas agudas): Travis, bossa, p-i-m-a, com editor
+ * - Bateria em grade com velocidade por peça (tons, aro, palmas, condução, prato, ganzá, cowbell), variações A/B e viradas automáticas
+ * - Grooves brasileiros (samba, pagode, baião, forró, xote, MPB): batida, percussão sintetizada (surdo, pandeiro, tamborim, zabumba, triângulo, agogô) e baixo juntos, com swing em semicolcheias
+ * - Linhas de baixo por grau do acorde (terça e sétima pela qualidade, aproximação cromática do próximo acorde), com editor
+ * - Fretboard com números dos dedos e pestana; afinações alternativas e capotraste; transposição da música e capo sugerido pelas formas mais fáceis
+ * - Braço inteiro com escalas (maior, menor, pentatônicas, blues, modos) e arpejos, posições CAGED e o acorde que está tocando em destaque
+ * - Gerador de voicings para qualquer cifra e afinação, somado ao dicionário curado
+ * - Cifras estendidas (sus, add9, 6, 9, 11, 13, m7(b5), +, °7...) e com barra, com o baixo indicado no baixo
+ * - Tonalidades maiores e menores, com as cifras grafadas pela armadura (Bb, Eb, F#m...)
+ * - Progressões em graus romanos (I vi ii V7, bVII, V7/V) com presets do usuário; a troca de tom re-harmoniza a música
+ * - Análise harmônica da sequência: tom provável, função de cada acorde (secundária, empréstimo) e substituições
  * - Afinador de referência + afinador cromático (microfone)
+ * - Um único AudioContext com mixer por faixa (violão, baixo, bateria, click) e reverb compartilhado
+ * - Amostras em cache no IndexedDB (nylon embutido, baixadas uma vez ou do usuário: SF2, JSON, MP3) e voz sintetizada de reserva
+ * - Violão modelado (Karplus-Strong): uma voz por corda, palheta, amortecimento, palm mute e corpo
+ * - Biblioteca local de músicas, exportação/importação em JSON versionado e link compartilhável (#song=)
+ * - Importação/exportação de folhas ChordPro ({title}, {key}, [Am]letra, {start_of_chorus})
+ * - Exportação do acompanhamento em MIDI (violão, baixo e bateria GM) e WAV 16/24-bit com stems, sem tocar em tempo real
  */
 
-/** ===== Tipos ===== */
-type Step = "D" | "U" | "-";
-type Pattern = { id: string; label: string; steps: Step[]; accents?: number[] };
-// shape: 6ª -> 1ª corda (E A D G B E). 'x' = abafada, 0 = solta, número = casa absoluta
-type ShapeVal = number | "x";
-type Shape = [ShapeVal, ShapeVal, ShapeVal, ShapeVal, ShapeVal, ShapeVal];
-// dedos: 1=index,2=médio,3=anelar,4=mínimo (0/undefined = livre)
-type Fingering = [number | undefined, number | undefined, number | undefined, number | undefined, number | undefined, number | undefined];
-// pestana (barra)
-type Barre = { finger: 1 | 2 | 3 | 4; fret: number; from: number; to: number };
-
-type Voicing = { label: string; shape: Shape; fingers?: Fingering; barre?: Barre };
-type ChordEntry = { name: string; variants: Voicing[] };
-
-type InstrumentName =
-  | "acoustic_guitar_steel"
-  | "acoustic_guitar_nylon"
-  | "electric_guitar_clean"
-  | "electric_guitar_jazz"
-  | "electric_guitar_muted"
-  | "overdriven_guitar"
-  | "distortion_guitar"
-  | "acoustic_grand_piano";
-
-/** ===== Afinação padrão EADGBE em MIDI (6ª->1ª) ===== */
-const TUNING_MIDI = [40, 45, 50, 55, 59, 64] as const; // E2 A2 D3 G3 B3 E4
-const NOTE_NAMES = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
-const midiToHz = (m: number) => 440 * Math.pow(2, (m - 69) / 12);
-const hzToMidi = (hz: number) => 69 + 12 * Math.log2(hz / 440);
-
-/** ===== Ritmos ===== */
-type DrumHit = "k" | "s" | "h" | "o" | "-";
-type DrumPattern = { kick: DrumHit[]; snare: DrumHit[]; hihat: DrumHit[]; label: string };
-
-const PATTERNS: Pattern[] = [
-  { id: "down8", label: "D D D D D D D D", steps: ["D","D","D","D","D","D","D","D"], accents: [0,4] },
-  { id: "folk1", label: "D - D U - U D U (Folk)", steps: ["D","-","D","U","-","U","D","U"], accents: [0,2,6] },
-  { id: "pop1",  label: "D - U U - U - U (Pop)",  steps: ["D","-","U","U","-","U","-","U"], accents: [0,2,5] },
-  { id: "rock1", label: "D D U - U D U - (Rock)", steps: ["D","D","U","-","U","D","U","-"], accents:[0,1,5] },
-  { id: "reggae",label: "- U - U - U - U (Reggae)",steps: ["-","U","-","U","-","U","-","U"], accents: [1,3,5,7] },
-  { id: "bossa", label: "D - D U - U - U (Bossa)", steps: ["D","-","D","U","-","U","-","U"], accents: [0,2,5] },
-];
-
-const DRUM_PATTERNS: Record<string, DrumPattern> = {
-  rock: {
-    label: "Rock Básico",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  pop: {
-    label: "Pop",
-    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  funk: {
-    label: "Funk",
-    kick:  ["k","-","k","-","-","-","k","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","s","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","o","h","h","h","h","h","h","h","o","h","h","h"]
-  },
-  disco: {
-    label: "Disco",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  reggae: {
-    label: "Reggae",
-    kick:  ["-","-","-","-","k","-","-","-","-","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","-","-","-","-","s","-","-","-","-","-","-","-"],
-    hihat: ["-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h"]
-  },
-  ballad: {
-    label: "Balada",
-    kick:  ["k","-","-","-","-","-","-","-","k","-","-","-","-","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","-","h","-","-","h","-","h","-","-","h","-","-","h","-"]
-  },
-  jazz: {
-    label: "Jazz Swing",
-    kick:  ["k","-","-","k","-","-","k","-","-","k","-","-","k","-","-","-"],
-    snare: ["-","-","s","-","-","s","-","-","s","-","-","s","-","-","s","-"],
-    hihat: ["h","-","h","h","-","h","h","-","h","h","-","h","h","-","h","h"]
-  },
-  blues: {
-    label: "Blues Shuffle",
-    kick:  ["k","-","-","-","-","-","k","-","k","-","-","-","-","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","h","-","h","h","-","h","h","-","h","h","-","h","h"]
-  },
-  latin: {
-    label: "Latin/Samba",
-    kick:  ["k","-","k","-","k","-","-","-","k","-","k","-","k","-","-","-"],
-    snare: ["-","-","-","s","-","-","s","-","-","-","-","s","-","-","s","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  country: {
-    label: "Country",
-    kick:  ["k","-","-","-","k","k","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","-","h","-","-","h","-","h","-","-","h","-","-","h","-"]
-  },
-  rock2: {
-    label: "Rock Pesado",
-    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  punk: {
-    label: "Punk Rock",
-    kick:  ["k","k","k","k","k","k","k","k","k","k","k","k","k","k","k","k"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  metal: {
-    label: "Metal",
-    kick:  ["k","-","k","k","-","-","k","k","k","-","k","k","-","-","k","k"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  hiphop: {
-    label: "Hip Hop",
-    kick:  ["k","-","-","-","-","-","k","-","k","-","-","-","-","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","h","-","h","h","-","h","-","h","h","-","h","h","-"]
-  },
-  trap: {
-    label: "Trap",
-    kick:  ["k","-","-","-","k","-","-","k","-","-","k","-","-","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  dnb: {
-    label: "Drum & Bass",
-    kick:  ["k","-","-","-","-","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","s","-","-","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  house: {
-    label: "House",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  techno: {
-    label: "Techno",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  edm: {
-    label: "EDM",
-    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["o","h","o","h","o","h","o","h","o","h","o","h","o","h","o","h"]
-  },
-  dubstep: {
-    label: "Dubstep",
-    kick:  ["k","-","-","-","-","-","-","-","k","-","-","k","-","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  afrobeat: {
-    label: "Afrobeat",
-    kick:  ["k","-","-","k","-","-","k","-","k","-","-","k","-","-","k","-"],
-    snare: ["-","-","s","-","-","s","-","-","-","-","s","-","-","s","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  rumba: {
-    label: "Rumba",
-    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","k","-"],
-    snare: ["-","-","-","s","-","-","-","-","-","-","-","s","-","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  calypso: {
-    label: "Calypso",
-    kick:  ["k","-","-","k","-","-","-","-","k","-","-","k","-","-","-","-"],
-    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  ska: {
-    label: "Ska",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","s","-","s","-","s","-","s","-","s","-","s","-","s","-","s"],
-    hihat: ["-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h"]
-  },
-  gospel: {
-    label: "Gospel",
-    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","s","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","h","-","h","h","-","h","-","h","h","-","h","h","-"]
-  },
-  rnb: {
-    label: "R&B",
-    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","-","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  soul: {
-    label: "Soul",
-    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","k"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  motown: {
-    label: "Motown",
-    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","k","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  },
-  waltz: {
-    label: "Valsa 3/4",
-    kick:  ["k","-","-","-","-","-","-","-","-","k","-","-","-","-","-","-"],
-    snare: ["-","-","-","s","-","-","s","-","-","-","-","-","s","-","-","s"],
-    hihat: ["h","-","-","h","-","-","h","-","-","h","-","-","h","-","-","h"]
-  },
-  march: {
-    label: "Marcha",
-    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
-    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
-    hihat: ["-","-","-","-","-","-","-","-","-","-","-","-","-","-","-","-"]
-  },
-  tango: {
-    label: "Tango",
-    kick:  ["k","-","k","-","-","-","-","-","k","-","k","-","-","-","-","-"],
-    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  bolero: {
-    label: "Bolero",
-    kick:  ["k","-","-","-","-","-","k","-","-","-","k","-","-","-","-","-"],
-    snare: ["-","-","s","-","-","-","-","-","s","-","-","-","-","-","s","-"],
-    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
-  },
-  flamenco: {
-    label: "Flamenco",
-    kick:  ["k","-","-","k","-","k","-","-","k","-","-","k","-","k","-","-"],
-    snare: ["-","s","-","-","s","-","s","-","-","s","-","-","s","-","s","-"],
-    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
-  }
-};
-
-/** ===== Dicionário de acordes ===== */
-const X = "x" as const;
-const CHORDS: Record<string, ChordEntry> = {
-  C: { name: "C (Dó maior)", variants: [
-    { label: "Aberto x32010", shape: [X,3,2,0,1,0], fingers: [undefined,3,2,0,1,0] },
-    { label: "C/G 332010",    shape: [3,3,2,0,1,0], fingers: [3,2,1,0,1,0] },
-    { label: "Cadd9 x32033",  shape: [X,3,2,0,3,3], fingers: [undefined,3,2,0,3,4] },
-    { label: "A-shape x35553",shape: [X,3,5,5,5,3], fingers: [undefined,1,3,4,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
-    { label: "E-shape 8-10-10-9-8-8", shape: [8,10,10,9,8,8], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:8, from:0, to:5 } },
-  ]},
-  Cmaj7: { name: "Cmaj7 (Dó maior com sétima)", variants: [
-    { label: "Aberto x32000", shape: [X,3,2,0,0,0], fingers: [undefined,3,2,0,0,0] },
-    { label: "x35453", shape: [X,3,5,4,5,3], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
-  ]},
-  C7: { name: "C7 (Dó com sétima dominante)", variants: [
-    { label: "Aberto x32310", shape: [X,3,2,3,1,0], fingers: [undefined,3,2,4,1,0] },
-    { label: "x35353", shape: [X,3,5,3,5,3], fingers: [undefined,1,3,1,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
-  ]},
-  Cm: { name: "Cm (Dó menor)", variants: [
-    { label: "Barra x35543", shape: [X,3,5,5,4,3], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:3, from:1, to:5 } },
-    { label: "Cm7 8-10-8-8-8-8", shape: [8,10,8,8,8,8], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:8, from:0, to:5 } },
-  ]},
-  Cm7: { name: "Cm7 (Dó menor com sétima)", variants: [
-    { label: "Barra x35343", shape: [X,3,5,3,4,3], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:3, from:1, to:5 } },
-  ]},
-  Cdim: { name: "Cdim (Dó diminuto)", variants: [
-    { label: "xx1212", shape: [X,X,1,2,1,2], fingers: [undefined,undefined,1,3,2,4] },
-    { label: "x34242", shape: [X,3,4,2,4,2], fingers: [undefined,3,4,1,4,1] },
-  ]},
-  D: { name: "D (Ré maior)", variants: [
-    { label: "Aberto xx0232", shape: [X,X,0,2,3,2], fingers: [undefined,undefined,0,1,3,2] },
-    { label: "D/F# 2x0232",   shape: [2,X,0,2,3,2], fingers: [2,undefined,0,1,3,2] },
-    { label: "A-shape x57775",shape: [X,5,7,7,7,5], fingers: [undefined,1,3,4,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
-  ]},
-  Dmaj7: { name: "Dmaj7 (Ré maior com sétima)", variants: [
-    { label: "Aberto xx0222", shape: [X,X,0,2,2,2], fingers: [undefined,undefined,0,1,1,1] },
-    { label: "x57675", shape: [X,5,7,6,7,5], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
-  ]},
-  D7: { name: "D7 (Ré com sétima dominante)", variants: [
-    { label: "Aberto xx0212", shape: [X,X,0,2,1,2], fingers: [undefined,undefined,0,2,1,3] },
-    { label: "x57575", shape: [X,5,7,5,7,5], fingers: [undefined,1,3,1,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
-  ]},
-  Dm: { name: "Dm (Ré menor)", variants: [
-    { label: "Aberto xx0231", shape: [X,X,0,2,3,1], fingers: [undefined,undefined,0,2,3,1] },
-    { label: "A-shape x57765", shape: [X,5,7,7,6,5], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:5, from:1, to:5 } },
-  ]},
-  Dm7: { name: "Dm7 (Ré menor com sétima)", variants: [
-    { label: "Aberto xx0211", shape: [X,X,0,2,1,1], fingers: [undefined,undefined,0,2,1,1] },
-    { label: "x57565", shape: [X,5,7,5,6,5], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:5, from:1, to:5 } },
-  ]},
-  Ddim: { name: "Ddim (Ré diminuto)", variants: [
-    { label: "xx0101", shape: [X,X,0,1,0,1], fingers: [undefined,undefined,0,1,0,2] },
-    { label: "x56464", shape: [X,5,6,4,6,4], fingers: [undefined,2,3,1,4,1] },
-  ]},
-  E: { name: "E (Mi maior)", variants: [
-    { label: "Aberto 022100", shape: [0,2,2,1,0,0], fingers: [0,2,3,1,0,0] },
-    { label: "E/G# 4-2-2-1-0-0", shape: [4,2,2,1,0,0], fingers: [3,2,3,1,0,0] },
-    { label: "E-shape 12-14-14-13-12-12", shape: [12,14,14,13,12,12], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:12, from:0, to:5 } },
-  ]},
-  Emaj7: { name: "Emaj7 (Mi maior com sétima)", variants: [
-    { label: "Aberto 021100", shape: [0,2,1,1,0,0], fingers: [0,2,1,1,0,0] },
-    { label: "xx2444", shape: [X,X,2,4,4,4], fingers: [undefined,undefined,1,3,3,3] },
-  ]},
-  E7: { name: "E7 (Mi com sétima dominante)", variants: [
-    { label: "Aberto 020100", shape: [0,2,0,1,0,0], fingers: [0,2,0,1,0,0] },
-    { label: "xx2434", shape: [X,X,2,4,3,4], fingers: [undefined,undefined,1,3,2,4] },
-  ]},
-  Em: { name: "Em (Mi menor)", variants: [
-    { label: "Aberto 022000", shape: [0,2,2,0,0,0], fingers: [0,2,3,0,0,0] },
-    { label: "A-shape x79987", shape: [X,7,9,9,8,7], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:7, from:1, to:5 } },
-  ]},
-  Em7: { name: "Em7 (Mi menor com sétima)", variants: [
-    { label: "Aberto 020000", shape: [0,2,0,0,0,0], fingers: [0,2,0,0,0,0] },
-    { label: "022030", shape: [0,2,2,0,3,0], fingers: [0,2,3,0,4,0] },
-  ]},
-  Edim: { name: "Edim (Mi diminuto)", variants: [
-    { label: "xx2323", shape: [X,X,2,3,2,3], fingers: [undefined,undefined,1,3,2,4] },
-    { label: "x78686", shape: [X,7,8,6,8,6], fingers: [undefined,2,3,1,4,1] },
-  ]},
-  F: { name: "F (Fá maior)", variants: [
-    { label: "E-shape 133211", shape: [1,3,3,2,1,1], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
-    { label: "Fmaj7 xx3210",  shape: [X,X,3,2,1,0], fingers: [undefined,undefined,3,2,1,0] },
-  ]},
-  Fmaj7: { name: "Fmaj7 (Fá maior com sétima)", variants: [
-    { label: "Aberto xx3210", shape: [X,X,3,2,1,0], fingers: [undefined,undefined,3,2,1,0] },
-    { label: "1-3-2-2-1-1", shape: [1,3,2,2,1,1], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
-  ]},
-  F7: { name: "F7 (Fá com sétima dominante)", variants: [
-    { label: "131211", shape: [1,3,1,2,1,1], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
-    { label: "xx3545", shape: [X,X,3,5,4,5], fingers: [undefined,undefined,1,3,2,4] },
-  ]},
-  Fm: { name: "Fm (Fá menor)", variants: [
-    { label: "E-shape 133111", shape: [1,3,3,1,1,1], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
-  ]},
-  Fm7: { name: "Fm7 (Fá menor com sétima)", variants: [
-    { label: "131111", shape: [1,3,1,1,1,1], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
-  ]},
-  Fdim: { name: "Fdim (Fá diminuto)", variants: [
-    { label: "xx3434", shape: [X,X,3,4,3,4], fingers: [undefined,undefined,1,3,2,4] },
-    { label: "1-2-3-1-3-1", shape: [1,2,3,1,3,1], fingers: [1,2,3,1,4,1] },
-  ]},
-  G: { name: "G (Sol maior)", variants: [
-    { label: "Aberto 320003", shape: [3,2,0,0,0,3], fingers: [3,2,0,0,0,4] },
-    { label: "E-shape 355433", shape: [3,5,5,4,3,3], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
-  ]},
-  Gmaj7: { name: "Gmaj7 (Sol maior com sétima)", variants: [
-    { label: "Aberto 320002", shape: [3,2,0,0,0,2], fingers: [3,2,0,0,0,1] },
-    { label: "3-5-4-4-3-3", shape: [3,5,4,4,3,3], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
-  ]},
-  G7: { name: "G7 (Sol com sétima dominante)", variants: [
-    { label: "Aberto 320001", shape: [3,2,0,0,0,1], fingers: [3,2,0,0,0,1] },
-    { label: "353433", shape: [3,5,3,4,3,3], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
-  ]},
-  Gm: { name: "Gm (Sol menor)", variants: [
-    { label: "Barra 355333", shape: [3,5,5,3,3,3], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
-  ]},
-  Gm7: { name: "Gm7 (Sol menor com sétima)", variants: [
-    { label: "353333", shape: [3,5,3,3,3,3], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
-  ]},
-  Gdim: { name: "Gdim (Sol diminuto)", variants: [
-    { label: "xx5656", shape: [X,X,5,6,5,6], fingers: [undefined,undefined,1,3,2,4] },
-    { label: "3-4-5-3-5-3", shape: [3,4,5,3,5,3], fingers: [1,2,3,1,4,1] },
-  ]},
-  A: { name: "A (Lá maior)", variants: [
-    { label: "Aberto x02220", shape: [X,0,2,2,2,0], fingers: [undefined,0,1,2,3,0] },
-    { label: "E-shape 577655", shape: [5,7,7,6,5,5], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
-  ]},
-  Amaj7: { name: "Amaj7 (Lá maior com sétima)", variants: [
-    { label: "Aberto x02120", shape: [X,0,2,1,2,0], fingers: [undefined,0,2,1,3,0] },
-    { label: "5-7-6-6-5-5", shape: [5,7,6,6,5,5], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
-  ]},
-  A7: { name: "A7 (Lá com sétima dominante)", variants: [
-    { label: "Aberto x02020", shape: [X,0,2,0,2,0], fingers: [undefined,0,2,0,3,0] },
-    { label: "575655", shape: [5,7,5,6,5,5], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
-  ]},
-  Am: { name: "Am (Lá menor)", variants: [
-    { label: "Aberto x02210", shape: [X,0,2,2,1,0], fingers: [undefined,0,2,3,1,0] },
-    { label: "E-shape 577555", shape: [5,7,7,5,5,5], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
-  ]},
-  Am7: { name: "Am7 (Lá menor com sétima)", variants: [
-    { label: "Aberto x02010", shape: [X,0,2,0,1,0], fingers: [undefined,0,2,0,1,0] },
-    { label: "575555", shape: [5,7,5,5,5,5], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
-  ]},
-  Adim: { name: "Adim (Lá diminuto)", variants: [
-    { label: "x01212", shape: [X,0,1,2,1,2], fingers: [undefined,0,1,3,2,4] },
-    { label: "xx7878", shape: [X,X,7,8,7,8], fingers: [undefined,undefined,1,3,2,4] },
-  ]},
-  B: { name: "B (Si maior)", variants: [
-    { label: "x24442", shape: [X,2,4,4,4,2], fingers: [undefined,1,3,3,3,1], barre: { finger:1, fret:2, from:1, to:5 } },
-    { label: "799877", shape: [7,9,9,8,7,7], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
-  ]},
-  Bmaj7: { name: "Bmaj7 (Si maior com sétima)", variants: [
-    { label: "x24342", shape: [X,2,4,3,4,2], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:2, from:1, to:5 } },
-  ]},
-  B7: { name: "B7 (Si com sétima dominante)", variants: [
-    { label: "x21202", shape: [X,2,1,2,0,2], fingers: [undefined,2,1,3,0,4] },
-    { label: "797877", shape: [7,9,7,8,7,7], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
-  ]},
-  Bm: { name: "Bm (Si menor)", variants: [
-    { label: "x24432 (barra)", shape: [X,2,4,4,3,2], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:2, from:1, to:5 } },
-    { label: "799777", shape: [7,9,9,7,7,7], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
-  ]},
-  Bm7: { name: "Bm7 (Si menor com sétima)", variants: [
-    { label: "x24232", shape: [X,2,4,2,3,2], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:2, from:1, to:5 } },
-    { label: "x20202", shape: [X,2,0,2,0,2], fingers: [undefined,2,0,3,0,4] },
-  ]},
-  Bdim: { name: "Bdim (Si diminuto)", variants: [
-    { label: "x23434", shape: [X,2,3,4,3,4], fingers: [undefined,1,2,4,2,4] },
-    { label: "xx9-10-9-10", shape: [X,X,9,10,9,10], fingers: [undefined,undefined,1,3,2,4] },
-  ]},
-};
-const CHORD_KEYS = Object.keys(CHORDS);
-
-/** ===== Instrumentos ===== */
-
-/** ===== Drum Sampler (Synthetic) ===== */
-function useDrumSampler() {
-  const ctxRef = useRef<AudioContext | null>(null);
-
-  const ensure = async () => {
-    if (!ctxRef.current) {
-      const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-      ctxRef.current = new AudioCtx({ latencyHint: "interactive" });
-    }
-    if (ctxRef.current.state !== "running") await ctxRef.current.resume();
-  };
-
-  const playSample = async (sampleName: string, when = 0, gain = 0.8) => {
-    await ensure();
-    if (!ctxRef.current) return;
-
-    const ctx = ctxRef.current;
-    const now = ctx.currentTime + Math.max(0, when);
-
-    if (sampleName === "kick") {
-      const osc = ctx.createOscillator();
-      const gainNode = ctx.createGain();
-      osc.frequency.setValueAtTime(150, now);
-      osc.frequency.exponentialRampToValueAtTime(0.01, now + 0.5);
-      gainNode.gain.setValueAtTime(gain, now);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.5);
-      osc.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      osc.start(now);
-      osc.stop(now + 0.5);
-    } else if (sampleName === "snare") {
-      const noise = ctx.createBufferSource();
-      const buffer = ctx.createBuffer(1, ctx.sampleRate * 0.2, ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
-      noise.buffer = buffer;
-      const gainNode = ctx.createGain();
-      const filter = ctx.createBiquadFilter();
-      filter.type = "highpass";
-      filter.frequency.value = 1000;
-      gainNode.gain.setValueAtTime(gain * 0.7, now);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
-      noise.connect(filter);
-      filter.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      noise.start(now);
-      noise.stop(now + 0.2);
-    } else if (sampleName === "hihat") {
-      const noise = ctx.createBufferSource();
-      const buffer = ctx.createBuffer(1, ctx.sampleRate * 0.05, ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
-      noise.buffer = buffer;
-      const gainNode = ctx.createGain();
-      const filter = ctx.createBiquadFilter();
-      filter.type = "highpass";
-      filter.frequency.value = 7000;
-      gainNode.gain.setValueAtTime(gain * 0.4, now);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.05);
-      noise.connect(filter);
-      filter.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      noise.start(now);
-      noise.stop(now + 0.05);
-    } else if (sampleName === "openhat") {
-      const noise = ctx.createBufferSource();
-      const buffer = ctx.createBuffer(1, ctx.sampleRate * 0.3, ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
-      noise.buffer = buffer;
-      const gainNode = ctx.createGain();
-      const filter = ctx.createBiquadFilter();
-      filter.type = "highpass";
-      filter.frequency.value = 7000;
-      gainNode.gain.setValueAtTime(gain * 0.4, now);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
-      noise.connect(filter);
-      filter.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      noise.start(now);
-      noise.stop(now + 0.3);
-    }
-  };
 
-  return { playSample, ensure, ctxRef };
-}
 
-/** ===== SoundFont Player ===== */
-type SFInstrument = Awaited<ReturnType<typeof Soundfont.instrument>>;
-function useSF(instrumentName: InstrumentName, reverbMix: number, instrumentVolume: number) {
-  const ctxRef = useRef<AudioContext | null>(null);
-  const instRef = useRef<SFInstrument | null>(null);
-  const loadingRef = useRef(false);
-  const currentInstrumentRef = useRef<InstrumentName | null>(null);
-  const reverbNodeRef = useRef<ConvolverNode | null>(null);
-  const dryGainRef = useRef<GainNode | null>(null);
-  const wetGainRef = useRef<GainNode | null>(null);
-  const masterGainRef = useRef<GainNode | null>(null);
-
-  const ensure = async () => {
-    if (!ctxRef.current) {
-      const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-      ctxRef.current = new AudioCtx({ latencyHint: "interactive" });
-
-      const ctx = ctxRef.current;
-      const sampleRate = ctx.sampleRate;
-      const length = sampleRate * 2;
-      const impulse = ctx.createBuffer(2, length, sampleRate);
-      const left = impulse.getChannelData(0);
-      const right = impulse.getChannelData(1);
-
-      for (let i = 0; i < length; i++) {
-        const decay = Math.pow(1 - i / length, 2);
-        left[i] = (Math.random() * 2 - 1) * decay;
-        right[i] = (Math.random() * 2 - 1) * decay;
-      }
-
-      const convolver = ctx.createConvolver();
-      convolver.buffer = impulse;
-      reverbNodeRef.current = convolver;
-
-      dryGainRef.current = ctx.createGain();
-      wetGainRef.current = ctx.createGain();
-      masterGainRef.current = ctx.createGain();
-
-      dryGainRef.current.gain.value = 1 - reverbMix;
-      wetGainRef.current.gain.value = reverbMix;
-      masterGainRef.current.gain.value = 1.2;
-
-      dryGainRef.current.connect(masterGainRef.current);
-      wetGainRef.current.connect(convolver);
-      convolver.connect(masterGainRef.current);
-      masterGainRef.current.connect(ctx.destination);
-    }
-    if (ctxRef.current.state !== "running") await ctxRef.current.resume();
-    if (currentInstrumentRef.current !== instrumentName) {
-      instRef.current = null;
-      currentInstrumentRef.current = instrumentName;
-    }
-    if (!instRef.current && !loadingRef.current) {
-      loadingRef.current = true;
-      try {
-        instRef.current = await Soundfont.instrument(ctxRef.current, instrumentName, {
-          gain: 1.0,
-          soundfont: 'MusyngKite',
-          destination: dryGainRef.current!
-        });
-        if (wetGainRef.current) {
-          instRef.current.connect(wetGainRef.current as never);
-        }
-      } catch (e) {
-        console.error('Failed to load instrument:', e);
-      }
-      loadingRef.current = false;
-    }
-  };
-
-  const updateReverbMix = (mix: number) => {
-    if (dryGainRef.current && wetGainRef.current) {
-      dryGainRef.current.gain.value = 1 - mix;
-      wetGainRef.current.gain.value = mix;
-    }
-  };
-
-  const playMidi = async (midi: number, when = 0, dur = 0.25, vel = 0.9) => {
-    await ensure();
-    if (!ctxRef.current || !instRef.current) return;
-    const now = ctxRef.current.currentTime;
-    instRef.current.play(midi.toString(), now + Math.max(0, when), { gain: vel * instrumentVolume, duration: dur });
-  };
-
-  // Afinador por tom de referência (seno contínuo)
-  const sineHold = useRef<OscillatorNode | null>(null);
-  const startSine = async (hz: number) => {
-    await ensure();
-    stopSine();
-    const ctx = ctxRef.current!;
-    const osc = ctx.createOscillator();
-    const g = ctx.createGain();
-    g.gain.value = 0.5;
-    osc.type = "sine";
-    osc.frequency.value = hz;
-    osc.connect(g); g.connect(ctx.destination);
-    osc.start();
-    sineHold.current = osc;
-  };
-  const stopSine = () => { sineHold.current?.stop(); sineHold.current = null; };
-
-  return { playMidi, ensure, startSine, stopSine, ctxRef, updateReverbMix };
+/** ===== Canal do mixer (volume, pan, send, mute/solo) ===== */
+function ChannelStrip({ label, color, max, step, settings, onChange, children }: {
+  label: string; color: string; max: number; step: number;
+  settings: BusSettings; onChange: (patch: Partial<BusSettings>) => void; children?: ReactNode;
+}) {
+  const toggle = (on: boolean, bg: string) => ({ background: on ? bg : '#0d0d0d', color: on ? '#000' : '#aaa', border: `1px solid ${on ? bg : '#555'}`, fontSize: '11px', fontWeight: 700, padding: '4px 10px' });
+  return (
+    <div className="flex flex-col items-center">
+      <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:`2px solid ${color}`}}>
+        {label}
+      </label>
+      <div className="mb-3 text-center">
+        <span className="text-4xl font-mono font-bold" style={{color}}>{Math.round(settings.gain * 100)}</span>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max={max}
+        step={step}
+        value={settings.gain}
+        onChange={e=>onChange({ gain: parseFloat(e.target.value) })}
+        className="w-full"
+        style={{accentColor:color, height:'6px'}}
+      />
+      <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center text-xs mt-3 w-full" style={{color:'#777'}}>
+        <span>PAN</span>
+        <input type="range" min="-1" max="1" step="0.05" value={settings.pan} onChange={e=>onChange({ pan: parseFloat(e.target.value) })} onDoubleClick={()=>onChange({ pan: 0 })} style={{accentColor:color}} />
+        <span>REV</span>
+        <input type="range" min="0" max="1" step="0.05" value={settings.send} onChange={e=>onChange({ send: parseFloat(e.target.value) })} style={{accentColor:color}} />
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button onClick={()=>onChange({ mute: !settings.mute })} style={toggle(settings.mute, '#f59e0b')}>M</button>
+        <button onClick={()=>onChange({ solo: !settings.solo })} style={toggle(settings.solo, '#22c55e')}>S</button>
+      </div>
+      {children}
+    </div>
+  );
 }
 
 /** ===== Fretboard vertical (dedos + pestana) ===== */
-function Fretboard({ shape, fingers, barre }: { shape: Shape; fingers?: Fingering; barre?: Barre }) {
+// capo: desenhado sobre o nut (as casas da forma contam a partir dele); tuning: nomes das cordas soltas
+function Fretboard({ shape, fingers, barre, capo = 0, tuning }: { shape: Shape; fingers?: Fingering; barre?: Barre; capo?: number; tuning?: readonly number[] }) {
   const { startFret, endFret, showNut } = useMemo(() => {
     const frets = shape.filter((v): v is number => typeof v === "number").map(f => f);
     const min = Math.min(...frets, 0);
@@ -698,21 +185,105 @@ function Fretboard({ shape, fingers, barre }: { shape: Shape; fingers?: Fingerin
         {!(showNut) && (
           <text x={-4} y={4} fill="#737373" fontSize={6}>{startFret}fr</text>
         )}
+        {capo > 0 && showNut && (
+          <g>
+            <rect x={-3} y={-2} width={innerW + 6} height={4} rx={2} fill="#78350f" />
+            <text x={innerW / 2} y={1.3} textAnchor="middle" fill="#fff" fontSize={3.6}>CAPO {capo}</text>
+          </g>
+        )}
+        {tuning && tuning.map((m, s) => (
+          <text key={`t-${s}`} x={s * stringW} y={innerH + 7} textAnchor="middle" fill="#737373" fontSize={5}>{NOTE_NAMES[((m + capo) % 12 + 12) % 12]}</text>
+        ))}
       </g>
     </svg>
   );
 }
 
+/** ===== Braço inteiro: escalas, arpejos e posições CAGED =====
+ * Casas absolutas (0 = cordas soltas) e notas como soam na afinação; com capo, o que fica abaixo
+ * dele não aparece. As posições CAGED são janelas de casas contadas a partir da fundamental maior
+ * na 6ª corda (no menor, a do relativo), na ordem em que sobem o braço: E, D, C, A, G.
+ */
+const NECK_FRETS = 15;
+type ScaleId = "major" | "minor" | "major-penta" | "minor-penta" | "blues" | "dorian" | "phrygian" | "lydian" | "mixolydian" | "locrian" | "harmonic-minor";
+const SCALES: Record<ScaleId, { name: string; intervals: number[] }> = {
+  "major":          { name: "Maior",               intervals: [0,2,4,5,7,9,11] },
+  "minor":          { name: "Menor natural",       intervals: [0,2,3,5,7,8,10] },
+  "major-penta":    { name: "Pentatônica maior",   intervals: [0,2,4,7,9] },
+  "minor-penta":    { name: "Pentatônica menor",   intervals: [0,3,5,7,10] },
+  "blues":          { name: "Blues",               intervals: [0,3,5,6,7,10] },
+  "dorian":         { name: "Dórico",              intervals: [0,2,3,5,7,9,10] },
+  "phrygian":       { name: "Frígio",              intervals: [0,1,3,5,7,8,10] },
+  "lydian":         { name: "Lídio",               intervals: [0,2,4,6,7,9,11] },
+  "mixolydian":     { name: "Mixolídio",           intervals: [0,2,4,5,7,9,10] },
+  "locrian":        { name: "Lócrio",              intervals: [0,1,3,5,6,8,10] },
+  "harmonic-minor": { name: "Menor harmônica",     intervals: [0,2,3,5,7,8,11] },
+};
+type CagedShape = "E" | "D" | "C" | "A" | "G";
+const CAGED: Record<CagedShape, [number, number]> = { E: [-1, 2], D: [2, 5], C: [4, 7], A: [6, 9], G: [8, 12] };
+// fundamental de referência do CAGED: com terça menor (e sem a maior), a do relativo maior
+const cagedRefPc = (rootPc: number, intervals: number[]) => intervals.includes(3) && !intervals.includes(4) ? rootPc + 3 : rootPc;
+
+function FullNeck({ tuning, capo = 0, rootPc, pcs, highlight = [], position, refPc, spell }: {
+  tuning: readonly number[]; capo?: number; rootPc: number; pcs: number[]; highlight?: number[];
+  position?: CagedShape | null; refPc: number; spell: (pc: number) => string;
+}) {
+  const fretW = 26, stringH = 14, left = 22, top = 12;
+  const width = left + NECK_FRETS * fretW + 8, height = top * 2 + stringH * 5 + 10;
+  const refFret = ((refPc - tuning[0]) % 12 + 12) % 12;
+  const inPosition = (fret: number) => {
+    if (!position) return true;
+    const [lo, hi] = CAGED[position];
+    return ((fret - refFret - lo) % 12 + 12) % 12 <= hi - lo;
+  };
+  // cordas agudas em cima, como na tablatura
+  const stringY = (s: number) => top + (5 - s) * stringH;
+  const noteX = (fret: number) => fret === 0 ? left - 11 : left + (fret - 0.5) * fretW;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" style={{minWidth: 560}}>
+      <rect x={left} y={top - 4} width={NECK_FRETS * fretW} height={stringH * 5 + 8} rx={3} fill="#3b2a1a" />
+      {[3,5,7,9,15].map(f => <circle key={f} cx={left + (f - 0.5) * fretW} cy={top + stringH * 2.5} r={3} fill="#a3a3a3" opacity={0.5} />)}
+      <circle cx={left + 11.5 * fretW} cy={top + stringH * 1.5} r={3} fill="#a3a3a3" opacity={0.5} />
+      <circle cx={left + 11.5 * fretW} cy={top + stringH * 3.5} r={3} fill="#a3a3a3" opacity={0.5} />
+      {Array.from({ length: NECK_FRETS + 1 }, (_, f) => (
+        <g key={f}>
+          <line x1={left + f * fretW} y1={top - 4} x2={left + f * fretW} y2={top + stringH * 5 + 4} stroke={f === 0 ? "#e5e5e5" : "#9ca3af"} strokeWidth={f === 0 ? 3 : 1} />
+          {f > 0 && <text x={left + (f - 0.5) * fretW} y={height - 2} textAnchor="middle" fill="#737373" fontSize={7}>{f}</text>}
+        </g>
+      ))}
+      {tuning.map((_, s) => <line key={s} x1={left} y1={stringY(s)} x2={left + NECK_FRETS * fretW} y2={stringY(s)} stroke="#d4d4d4" strokeWidth={0.6 + (5 - s) * 0.25} />)}
+      {capo > 0 && <rect x={left + (capo - 0.5) * fretW - 3} y={top - 6} width={6} height={stringH * 5 + 12} rx={3} fill="#78350f" />}
+      {tuning.flatMap((open, s) => Array.from({ length: NECK_FRETS + 1 }, (_, fret) => {
+        const pc = (open + fret) % 12;
+        if (!pcs.includes(pc) || (capo > 0 && fret < capo) || !inPosition(fret)) return null;
+        const isRoot = pc === ((rootPc % 12) + 12) % 12;
+        const lit = highlight.includes(pc);
+        return (
+          <g key={`${s}-${fret}`}>
+            {lit && <circle cx={noteX(fret)} cy={stringY(s)} r={7.5} fill="none" stroke="#16a34a" strokeWidth={2} />}
+            <circle cx={noteX(fret)} cy={stringY(s)} r={5.5} fill={isRoot ? "#dc2626" : "#4f46e5"} />
+            <text x={noteX(fret)} y={stringY(s) + 2} textAnchor="middle" fill="#fff" fontSize={5.5}>{spell(pc)}</text>
+          </g>
+        );
+      }))}
+    </svg>
+  );
+}
+
 /** ===== Afinador Cromático (microfone) ===== */
-function useChromaticTuner() {
+// `strings`: afinação alvo (6ª->1ª); além da nota cromática, indica a corda mais próxima
+function useChromaticTuner(engine: AudioEngine, strings: readonly number[]) {
   const [running, setRunning] = useState(false);
   const [freq, setFreq] = useState<number | null>(null);
   const [note, setNote] = useState<string>("-");
   const [cents, setCents] = useState<number>(0);
+  const [target, setTarget] = useState<{ string: number; name: string; cents: number } | null>(null);
+  const stringsRef = useRef(strings);
+  stringsRef.current = strings;
   const srcRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const rafRef = useRef<number | null>(null);
-  const ctxRef = useRef<AudioContext | null>(null);
 
   const autoCorrelate = (buf: Float32Array, sampleRate: number): number => {
     // Autocorrelação simples (AMDF-ish)
@@ -733,11 +304,8 @@ function useChromaticTuner() {
 
   const start = async () => {
     if (running) return; setRunning(true);
-    if (!ctxRef.current) {
-      const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-      ctxRef.current = new AudioCtx();
-    }
-    const ctx = ctxRef.current;
+    await engine.ensure();
+    const ctx = engine.ctxRef.current!;
     const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation:false, noiseSuppression:false, autoGainControl:false } });
     const src = ctx.createMediaStreamSource(stream); srcRef.current = src;
     const analyser = ctx.createAnalyser(); analyser.fftSize = 2048; analyserRef.current = analyser;
@@ -754,6 +322,10 @@ function useChromaticTuner() {
         const cents = Math.round(1200 * Math.log2(f / target));
         setNote(name + Math.floor(midi/12 - 1));
         setCents(cents);
+        const exact = hzToMidi(f);
+        const nearest = stringsRef.current.reduce((best, m, i) => Math.abs(m - exact) < Math.abs(stringsRef.current[best] - exact) ? i : best, 0);
+        const goal = stringsRef.current[nearest];
+        setTarget({ string: 6 - nearest, name: midiNoteName(goal), cents: Math.round(100 * (exact - goal)) });
       }
       rafRef.current = requestAnimationFrame(loop);
     };
@@ -763,191 +335,43 @@ function useChromaticTuner() {
   const stop = () => {
     if (rafRef.current) cancelAnimationFrame(rafRef.current); rafRef.current = null;
     if (srcRef.current) srcRef.current.mediaStream.getTracks().forEach(t=>t.stop());
-    srcRef.current = null; analyserRef.current = null; setRunning(false); setFreq(null); setNote("-"); setCents(0);
+    srcRef.current = null; analyserRef.current = null; setRunning(false); setFreq(null); setNote("-"); setCents(0); setTarget(null);
   };
 
-  return { running, freq, note, cents, start, stop };
-}
-
-/** ===== Utilidades de notas/roots e sequência por tom ===== */
-const CHROMA = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
-const toIndex = (n: string) => CHROMA.indexOf(n);
-
-function parseChordSymbol(sym: string): { root: string; qual: string } {
-  const m = sym.match(/^(C#|Db|D#|Eb|F#|Gb|G#|Ab|A#|Bb|[A-G])(maj7|m7b5|m7|7|m|sus2|sus4|dim|°)?$/i);
-  if (!m) return { root: sym[0].toUpperCase(), qual: sym.slice(1) };
-  let root = m[1].toUpperCase();
-  root = root.replace("DB","C#").replace("EB","D#").replace("GB","F#").replace("AB","G#").replace("BB","A#");
-  let qual = (m[2]||"").toLowerCase();
-  if (qual === "°") qual = "dim";
-  return { root, qual };
-}
-
-function getChordDisplaySymbol(key: string): string {
-  const p = parseChordSymbol(key);
-  let d = p.root;
-  if (key.includes("maj7")) d += "maj7";
-  else if (key.includes("m7")) d += "m7";
-  else if (key.endsWith("7")) d += "7";
-  else if (key.endsWith("m")) d += "m";
-  else if (key.includes("dim")) d += "°";
-  return d;
-}
-
-const NATURALS_SHARP = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
-const toPc = (n: string) => toIndex(n);
-const nameForPc = (pc: number) => NATURALS_SHARP[(pc%12+12)%12];
-
-type DegreeType = "" | "m" | "7" | "m7" | "maj7" | "dim";
-type ProgressionDegree = { semitones: number; quality: DegreeType; alternatives?: DegreeType[] };
-
-const PROGRESSIONS: Record<string, { name: string; degrees: ProgressionDegree[] }> = {
-  "I-IV-V": {
-    name: "I - IV - V (Rock básico)",
-    degrees: [
-      { semitones: 0, quality: "", alternatives: ["7", "maj7"] },
-      { semitones: 5, quality: "", alternatives: ["7", "maj7"] },
-      { semitones: 7, quality: "", alternatives: ["7"] },
-    ]
-  },
-  "I-V-vi-IV": {
-    name: "I - V - vi - IV (Pop)",
-    degrees: [
-      { semitones: 0, quality: "", alternatives: ["maj7"] },
-      { semitones: 7, quality: "", alternatives: ["7"] },
-      { semitones: 9, quality: "m", alternatives: ["m7"] },
-      { semitones: 5, quality: "", alternatives: ["maj7"] },
-    ]
-  },
-  "ii-V-I": {
-    name: "ii - V - I (Jazz)",
-    degrees: [
-      { semitones: 2, quality: "m7", alternatives: ["m"] },
-      { semitones: 7, quality: "7", alternatives: [""] },
-      { semitones: 0, quality: "maj7", alternatives: [""] },
-    ]
-  },
-  "I-vi-IV-V": {
-    name: "I - vi - IV - V (Anos 50)",
-    degrees: [
-      { semitones: 0, quality: "", alternatives: ["maj7"] },
-      { semitones: 9, quality: "m", alternatives: ["m7"] },
-      { semitones: 5, quality: "", alternatives: ["maj7"] },
-      { semitones: 7, quality: "", alternatives: ["7"] },
-    ]
-  },
-  "I-ii-iii-IV-V-vi-vii": {
-    name: "Escala harmônica completa",
-    degrees: [
-      { semitones: 0, quality: "", alternatives: ["maj7"] },
-      { semitones: 2, quality: "m", alternatives: ["m7"] },
-      { semitones: 4, quality: "m", alternatives: ["m7"] },
-      { semitones: 5, quality: "", alternatives: ["maj7"] },
-      { semitones: 7, quality: "", alternatives: ["7"] },
-      { semitones: 9, quality: "m", alternatives: ["m7"] },
-      { semitones: 11, quality: "dim", alternatives: ["m7"] },
-    ]
-  },
-  "I-IV-I-V": {
-    name: "I - IV - I - V (Blues)",
-    degrees: [
-      { semitones: 0, quality: "7", alternatives: [""] },
-      { semitones: 5, quality: "7", alternatives: [""] },
-      { semitones: 0, quality: "7", alternatives: [""] },
-      { semitones: 7, quality: "7", alternatives: [""] },
-    ]
-  },
-  "vi-IV-I-V": {
-    name: "vi - IV - I - V (Emotional)",
-    degrees: [
-      { semitones: 9, quality: "m", alternatives: ["m7"] },
-      { semitones: 5, quality: "", alternatives: ["maj7"] },
-      { semitones: 0, quality: "", alternatives: ["maj7"] },
-      { semitones: 7, quality: "", alternatives: ["7"] },
-    ]
-  },
-};
-
-function buildSequenceFromProgression(tonicRoot: string, progressionKey: string) {
-  const prog = PROGRESSIONS[progressionKey];
-  if (!prog) return [];
-  const base = toPc(tonicRoot);
-  return prog.degrees.map(deg => {
-    const root = nameForPc(base + deg.semitones);
-    let symbol = root;
-    if (deg.quality === "m") symbol += "m";
-    else if (deg.quality === "7") symbol += "7";
-    else if (deg.quality === "m7") symbol += "m7";
-    else if (deg.quality === "maj7") symbol += "maj7";
-    else if (deg.quality === "dim") symbol += "dim";
-    return symbol;
-  });
-}
-
-function mapSymbolToDictKey(sym: string): string {
-  if (CHORDS[sym as keyof typeof CHORDS]) return sym;
-  const p = parseChordSymbol(sym);
-
-  if (p.qual === "maj7") {
-    const maj7 = p.root + "maj7";
-    if (CHORDS[maj7 as keyof typeof CHORDS]) return maj7;
-    const maj = p.root;
-    if (CHORDS[maj as keyof typeof CHORDS]) return maj;
-  }
-  if (p.qual === "m7") {
-    const m7 = p.root + "m7";
-    if (CHORDS[m7 as keyof typeof CHORDS]) return m7;
-    const min = p.root + "m";
-    if (CHORDS[min as keyof typeof CHORDS]) return min;
-  }
-  if (p.qual === "7") {
-    const dom7 = p.root + "7";
-    if (CHORDS[dom7 as keyof typeof CHORDS]) return dom7;
-    const maj = p.root;
-    if (CHORDS[maj as keyof typeof CHORDS]) return maj;
-  }
-  if (p.qual === "m") {
-    const min = p.root + "m";
-    if (CHORDS[min as keyof typeof CHORDS]) return min;
-    const maj = p.root;
-    if (CHORDS[maj as keyof typeof CHORDS]) return maj;
-  }
-  if (p.qual === "dim") {
-    const dim = p.root + "dim";
-    if (CHORDS[dim as keyof typeof CHORDS]) return dim;
-    const min = p.root + "m";
-    if (CHORDS[min as keyof typeof CHORDS]) return min;
-    const maj = p.root;
-    if (CHORDS[maj as keyof typeof CHORDS]) return maj;
-  }
-  return "C";
+  return { running, freq, note, cents, target, start, stop };
 }
 
 /** ===== App ===== */
 export default function App() {
   /* ===== Header / Layout responsivo ===== */
   const [instrument, setInstrument] = useState<InstrumentName>("acoustic_guitar_nylon");
+  const [pluck, setPluck] = useState<PluckModel>(DEFAULT_PLUCK);
   const [reverbMix, setReverbMix] = useState(0.3);
-  const [instrumentVolume, setInstrumentVolume] = useState(1.5);
-  const { playMidi, ensure, startSine, stopSine, ctxRef, updateReverbMix } = useSF(instrument, reverbMix, instrumentVolume);
-  const drums = useDrumSampler();
-
-  useEffect(() => {
-    updateReverbMix(reverbMix);
-  }, [reverbMix]);
+  const [mixer, setMixer] = useState<MixerSettings>(DEFAULT_MIXER);
+  const setBus = (name: BusName, patch: Partial<BusSettings>) =>
+    setMixer(m => ({ ...m, [name]: { ...m[name], ...patch } }));
+  const engine = useAudioEngine(mixer, reverbMix);
+  const { ctxRef } = engine;
+  const guitar = useSF(engine, instrument, "guitar", pluck);
+  const { playMidi, playMidiAt, ensure } = guitar;
+  const bass = useSF(engine, instrument, "bass", pluck);
+  const drums = useDrumSampler(engine);
+  const { startSine, stopSine } = useReferenceTone(engine);
+  const transport = useTransport(ctxRef);
 
   /* ===== Execução ===== */
-  const [patternId, setPatternId] = useState("folk1");
-  const [drumPatternId, setDrumPatternId] = useState("rock");
+  const [meter, setMeter] = useState<MeterId>("4/4");
   const [drumsEnabled, setDrumsEnabled] = useState(true);
-  const [drumVolume, setDrumVolume] = useState(0.7);
+  const [drumFills, setDrumFills] = useState(true);
   const [bassEnabled, setBassEnabled] = useState(false);
-  const [bassPattern, setBassPattern] = useState("root-fifth");
-  const [bassVolume, setBassVolume] = useState(0.6);
-  const [bpm] = useState(92);
-  const [swing] = useState(0.08);
+  const [clickEnabled, setClickEnabled] = useState(false);
+  const [bpm, setBpm] = useState(92);
+  const [swing, setSwing] = useState(0.08);
+  const [swingGrid, setSwingGrid] = useState<SwingGrid>("8");
   const [strumMs, setStrumMs] = useState(12);
-  const [sustain] = useState(0.24);
+  const [sustain, setSustain] = useState(0.24);
+  const [tempoRamp, setTempoRamp] = useState<TempoRamp>({ enabled: false, stepBpm: 2, everyLoops: 2, targetBpm: 120 });
+  const tap = useTapTempo(b => setBpm(clampBpm(b)));
 
   /* ===== Seleção rápida ===== */
   const [chordKey, setChordKey] = useState("C");
@@ -956,367 +380,443 @@ export default function App() {
   /* ===== Tonalidade e Progressão ===== */
   const [key, setKey] = useState("C");
   const [progression, setProgression] = useState("I-V-vi-IV");
+  const [customProgressions, setCustomProgressions] = useState<CustomProgression[]>(loadCustomProgressions);
+  const [romanText, setRomanText] = useState(() => progressionText(PROGRESSIONS["I-V-vi-IV"].degrees));
+  const [romanError, setRomanError] = useState("");
+
+  /* ===== Música: seções + arranjo ===== */
+  const barBeats = METERS[meter].groups.length;
+  const [song, setSong] = useState<Song>(() => {
+    const items = buildSequenceFromProgression("C", PROGRESSIONS["I-V-vi-IV"].degrees, barBeats);
+    const verse = makeSection("Verso", items);
+    return { sections: [verse], arrangement: [{ sectionId: verse.id, repeats: 1 }] };
+  });
+  const [editingSectionId, setEditingSectionId] = useState(song.sections[0].id);
+  const section = song.sections.find(sec => sec.id === editingSectionId) ?? song.sections[0];
+  const updateSection = (id: string, patch: Partial<SongSection>) =>
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => sec.id === id ? { ...sec, ...patch } : sec) }));
+  // a sequência e os padrões editados são os da seção selecionada
+  const sequence = section.items;
+  const setSequence = (items: SeqItem[]) => updateSection(section.id, { items });
+  const { patternId, drumPatternId, bassPattern } = section;
+  const setPatternId = (id: string) => updateSection(section.id, { patternId: id });
+  const setDrumPatternId = (id: string) => updateSection(section.id, { drumPatternId: id });
+  const setBassPattern = (id: string) => updateSection(section.id, { bassPattern: id });
+  // groove: os três padrões da seção de uma vez, com andamento e balanço
+  const applyGroove = (g: Groove) => {
+    updateSection(section.id, { patternId: g.patternId, drumPatternId: g.drumPatternId, bassPattern: g.bassPattern });
+    setBpm(g.bpm);
+    setSwing(g.swing);
+    setSwingGrid(g.swingGrid);
+    setDrumsEnabled(true);
+    setBassEnabled(true);
+  };
+  const timeline = useMemo(() => sequenceTimeline(sequence, METERS[meter]), [sequence, meter]);
 
-  /* ===== Sequência (dinâmica) ===== */
-  type SeqItem = { key: string; varIdx: number; degreeIdx: number };
-  const initialSeqSymbols = buildSequenceFromProgression("C", "I-V-vi-IV");
-  const initialSeq: SeqItem[] = initialSeqSymbols.map((sym, i) => ({ key: mapSymbolToDictKey(sym), varIdx: 0, degreeIdx: i }));
-  const [sequence, setSequence] = useState<SeqItem[]>(initialSeq);
-  const [currentBar, setCurrentBar] = useState<number>(-1);
+  // posição visível (atualizada no instante em que o áudio chega lá)
+  type PlayPos = { arrIdx: number; sectionId: string; repeat: number; bar: number; item: number };
+  const [playPos, setPlayPos] = useState<PlayPos | null>(null);
   const [loopSequence, setLoopSequence] = useState<boolean>(true);
+  const [loopSectionId, setLoopSectionId] = useState<string | null>(null);
+  const currentItem = playPos && playPos.sectionId === section.id ? playPos.item : -1;
 
   /* ===== Acorde individual com loop ===== */
   const [loopSingle, setLoopSingle] = useState<boolean>(false);
   const [isPlayingSingle, setIsPlayingSingle] = useState(false);
   const [isPlayingSequence, setIsPlayingSequence] = useState(false);
 
-  const pattern = useMemo(() => PATTERNS.find(p => p.id === patternId)!, [patternId]);
-  const currentVoicing = CHORDS[chordKey].variants[Math.min(variantIdx, CHORDS[chordKey].variants.length-1)];
-
-  const singleTimerRef = useRef<number | null>(null);
-  const singleStepIdxRef = useRef(0);
-
-  const seqTimerRef = useRef<number | null>(null);
-  const seqStepIdxRef = useRef(0);
-  const seqBarIdxRef = useRef(0);
+  /* ===== Padrões de batida: embutidos + do usuário, e o editor em grade ===== */
+  const [customPatterns, setCustomPatterns] = useState<Pattern[]>(loadCustomPatterns);
+  const allPatterns = useMemo(() => [...PATTERNS, ...customPatterns], [customPatterns]);
+  const [patternDraft, setPatternDraft] = useState<Pattern | null>(null);
+  // role: liga/desliga o papel no passo (dedilhado)
+  const updateDraft = (i: number, patch: { step?: Step; role?: PickRole; velocity?: number }) => setPatternDraft(d => {
+    if (!d) return d;
+    const velocities = d.velocities?.map((v, j) => j === i && patch.velocity !== undefined ? patch.velocity : v);
+    if (d.kind !== "pick") return { ...d, velocities, steps: d.steps.map((st, j) => j === i && patch.step ? patch.step : st) };
+    const toggle = (roles: PickRole[], role: PickRole) => PICK_ROLE_IDS.filter(id => id === role ? !roles.includes(id) : roles.includes(id));
+    return { ...d, velocities, picks: d.picks.map((roles, j) => j === i && patch.role ? toggle(roles, patch.role) : roles) };
+  });
+  // embutido vira cópia nova; do usuário é regravado no lugar
+  const saveDraft = () => {
+    if (!patternDraft) return;
+    const isCustom = customPatterns.some(p => p.id === patternDraft.id);
+    const saved = isCustom ? patternDraft : { ...patternDraft, id: CUSTOM_PREFIX + newId() };
+    const next = isCustom ? customPatterns.map(p => p.id === saved.id ? saved : p) : [...customPatterns, saved];
+    storeCustomPatterns(next);
+    setCustomPatterns(next);
+    setPatternId(saved.id);
+    setPatternDraft(null);
+  };
+  const deleteCustomPattern = (id: string) => {
+    const next = customPatterns.filter(p => p.id !== id);
+    storeCustomPatterns(next);
+    setCustomPatterns(next);
+    const fallback = PATTERNS.find(p => meterOf(p) === meter)?.id ?? PATTERNS[0].id;
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => sec.patternId === id ? { ...sec, patternId: fallback } : sec) }));
+    setPatternDraft(null);
+  };
 
-  const startAudio = async () => { await ensure(); if (ctxRef.current?.state !== "running") await ctxRef.current?.resume(); };
+  const pattern = useMemo(() => allPatterns.find(p => p.id === patternId) ?? PATTERNS[0], [allPatterns, patternId]);
+
+  /* ===== Linhas de baixo: embutidas + do usuário, editor por colcheia ===== */
+  const [customBassPatterns, setCustomBassPatterns] = useState<BassPattern[]>(loadCustomBassPatterns);
+  const allBassPatterns = useMemo(() => [...BASS_PATTERNS, ...customBassPatterns], [customBassPatterns]);
+  const [bassDraft, setBassDraft] = useState<BassPattern | null>(null);
+  const saveBassDraft = () => {
+    if (!bassDraft) return;
+    const isCustom = customBassPatterns.some(p => p.id === bassDraft.id);
+    const saved = isCustom ? bassDraft : { ...bassDraft, id: CUSTOM_PREFIX + newId() };
+    const next = isCustom ? customBassPatterns.map(p => p.id === saved.id ? saved : p) : [...customBassPatterns, saved];
+    storeCustomBassPatterns(next);
+    setCustomBassPatterns(next);
+    setBassPattern(saved.id);
+    setBassDraft(null);
+  };
+  const deleteCustomBassPattern = (id: string) => {
+    const next = customBassPatterns.filter(p => p.id !== id);
+    storeCustomBassPatterns(next);
+    setCustomBassPatterns(next);
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => sec.bassPattern === id ? { ...sec, bassPattern: "steady" } : sec) }));
+    setBassDraft(null);
+  };
 
-  const playChordStrum = async (voicing: Voicing, accentMap: boolean[], isDown: boolean, stepIdx: number) => {
-    const order = isDown ? [0,1,2,3,4,5] : [5,4,3,2,1,0];
-    const baseVel = 0.9;
-    for (let i=0;i<order.length;i++) {
-      const s = order[i]; const v = voicing.shape[s]; if (v === "x") continue;
-      const midi = TUNING_MIDI[s] + Number(v);
-      const swingPush = (stepIdx % 2 === 1) ? swing * (60 / bpm) / 2 : 0;
-      const when = i * (strumMs/1000) + swingPush;
-      const vel = baseVel * (isDown ? (1 - i*0.05) : (1 - i*0.04)) * (accentMap[stepIdx%8] ? 1.0 : 0.85);
-      await playMidi(midi, when, sustain, Math.max(0.1, Math.min(1, vel)));
-    }
+  /* ===== Baterias: embutidas + do usuário, editor em grade com variações e virada ===== */
+  const [customDrumPatterns, setCustomDrumPatterns] = useState<CustomDrumPattern[]>(loadCustomDrumPatterns);
+  const allDrumPatterns = useMemo<Record<string, DrumPattern>>(
+    () => ({ ...DRUM_PATTERNS, ...Object.fromEntries(customDrumPatterns.map(p => [p.id, p])) }), [customDrumPatterns]);
+  const [drumDraft, setDrumDraft] = useState<CustomDrumPattern | null>(null);
+  // aba do editor: índice da variação ou "fill"
+  const [drumTab, setDrumTab] = useState<number | "fill">(0);
+  const updateDrumCell = (voice: DrumSampleName, i: number, vel: number) => setDrumDraft(d => {
+    if (!d) return d;
+    const set = (rows: DrumRows): DrumRows => ({ ...rows, [voice]: (rows[voice] ?? []).map((v, j) => j === i ? vel : v) });
+    return drumTab === "fill" ? { ...d, fill: set(d.fill) } : { ...d, variations: d.variations.map((rows, k) => k === drumTab ? set(rows) : rows) };
+  });
+  const saveDrumDraft = () => {
+    if (!drumDraft) return;
+    const isCustom = customDrumPatterns.some(p => p.id === drumDraft.id);
+    const saved = isCustom ? drumDraft : { ...drumDraft, id: CUSTOM_PREFIX + newId() };
+    const next = isCustom ? customDrumPatterns.map(p => p.id === saved.id ? saved : p) : [...customDrumPatterns, saved];
+    storeCustomDrumPatterns(next);
+    setCustomDrumPatterns(next);
+    setDrumPatternId(saved.id);
+    setDrumDraft(null);
+  };
+  const deleteCustomDrumPattern = (id: string) => {
+    const next = customDrumPatterns.filter(p => p.id !== id);
+    storeCustomDrumPatterns(next);
+    setCustomDrumPatterns(next);
+    const fallback = Object.keys(DRUM_PATTERNS).find(k => meterOf(DRUM_PATTERNS[k]) === meter) ?? "rock";
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => sec.drumPatternId === id ? { ...sec, drumPatternId: fallback } : sec) }));
+    setDrumDraft(null);
   };
 
-  // Raiz no tempo 1 (reforça o groove)
-  const voicingMidis = (voicing: Voicing): number[] => {
-    const out: number[] = [];
-    for (let s=0;s<6;s++) {
-      const v = voicing.shape[s];
-      if (v === "x") continue;
-      out.push(TUNING_MIDI[s] + Number(v));
-    }
-    return out;
+  /* ===== Afinação e capotraste ===== */
+  const [tuningId, setTuningId] = useState<TuningId>("standard");
+  const [customTuning, setCustomTuning] = useState<number[]>([...TUNING_MIDI]);
+  const [capo, setCapo] = useState(0);
+  const tuning = tuningId === "custom" ? customTuning : TUNINGS[tuningId].midi;
+  const tuningState: TuningState = { tuning, capo };
+  const strings = openStrings(tuningState);
+  const currentVoicing = voicingAt(chordEntry(chordKey, tuning), variantIdx);
+  // forma dedilhada x acorde que soa (só difere com capo ou forma curada fora da afinação padrão);
+  // grafado na tonalidade que soa (a da música subida pelo capo)
+  const soundsAs = (shapeKey: string, varIdx: number) => {
+    if (capo === 0 && tuningId === "standard") return null;
+    const symbol = voicingFor(shapeKey, varIdx, tuningState).symbol;
+    return symbol === shapeKey ? null : getChordDisplaySymbol(symbol, transposeKeyId(key, capo));
   };
-  const findRootMidi = (midis: number[], rootName: string): number => {
-    const targetPc = toIndex(rootName);
-    const candidates = midis.filter(m => ((m % 12)+12)%12 === targetPc);
-    return (candidates.length ? Math.min(...candidates) : Math.min(...midis));
+
+  // posição do transporte: entrada do arranjo, repetição, compasso da seção e semicolcheia
+  type PlayCursor = { mode: "single" | "sequence"; arrIdx: number; repeat: number; bar: number; step: number; loops: number; item: number; jumpTo: number | null };
+  const cursorRef = useRef<PlayCursor | null>(null);
+
+  const startAudio = async () => { await ensure(); await bass.ensure(); };
+
+  // Saída ao vivo do acompanhamento: instrumentos, sampler e click do engine
+  const liveSink: BackingSink = {
+    guitar: playMidiAt,
+    bass: bass.playMidiAt,
+    drum: drums.playSample,
+    click: (time, accent) => {
+      const ctx = ctxRef.current; const graph = engine.graphRef.current;
+      if (ctx && graph) synthClick(ctx, graph.buses.click.input, Math.max(ctx.currentTime, time), accent);
+    },
   };
-  const playRootHit = async (voicing: Voicing, rootName: string) => {
-    const mids = voicingMidis(voicing);
-    if (mids.length === 0) return;
-    const m = findRootMidi(mids, rootName);
-    await playMidi(m, 0, Math.max(0.22, sustain), 1.0);
+  const backingSettings: BackingSettings = { meter, bpm, swing, strumMs, sustain, drumsEnabled, bassEnabled, clickEnabled, tuning, capo, drumFills, swingGrid,
+    patterns: allPatterns, bassPatterns: allBassPatterns, drumPatterns: allDrumPatterns,
   };
 
-  // ========== ACORDE INDIVIDUAL ==========
-  const playBassNote = (rootMidi: number, pattern: string, stepIdx: number) => {
-    if (!bassEnabled) return;
-    const idx = stepIdx % 8;
-    let noteMidi = rootMidi;
-    let shouldPlay = true;
-
-    switch(pattern) {
-      case "root-fifth":
-        if (idx === 2 || idx === 6) noteMidi += 7;
-        break;
-      case "walking":
-        if (idx === 1) noteMidi += 2;
-        else if (idx === 2) noteMidi += 4;
-        else if (idx === 3) noteMidi += 5;
-        else if (idx === 4) noteMidi += 7;
-        else if (idx === 5) noteMidi += 5;
-        else if (idx === 6) noteMidi += 4;
-        else if (idx === 7) noteMidi += 2;
-        break;
-      case "swing":
-        if (idx === 0 || idx === 3 || idx === 6) {}
-        else if (idx === 2 || idx === 5) noteMidi += 7;
-        else shouldPlay = false;
-        break;
-      case "bossa":
-        if (idx === 0 || idx === 3 || idx === 5) {}
-        else if (idx === 2) noteMidi += 7;
-        else shouldPlay = false;
-        break;
-      case "steady":
-        break;
-      case "octave":
-        if (idx % 2 === 1) noteMidi += 12;
-        break;
-      case "arpeggio":
-        if (idx === 1 || idx === 5) noteMidi += 4;
-        else if (idx === 2 || idx === 6) noteMidi += 7;
-        else if (idx === 3 || idx === 7) noteMidi += 12;
-        break;
-      case "reggae":
-        if (idx === 1 || idx === 3 || idx === 5 || idx === 7) shouldPlay = false;
-        break;
-      case "disco":
-        if (idx % 2 === 1) shouldPlay = false;
-        break;
-      case "funk":
-        if (idx === 2) noteMidi += 7;
-        else if (idx === 4 || idx === 5) shouldPlay = false;
-        break;
-      case "rock":
-        if (idx === 4) noteMidi += 7;
-        break;
-      case "jazz-walk":
-        if (idx === 1) noteMidi += 2;
-        else if (idx === 2) noteMidi += 3;
-        else if (idx === 3) noteMidi += 5;
-        else if (idx === 4) noteMidi += 7;
-        else if (idx === 5) noteMidi += 9;
-        else if (idx === 6) noteMidi += 11;
-        else if (idx === 7) noteMidi += 10;
-        break;
-      case "blues":
-        if (idx === 2) noteMidi -= 2;
-        else if (idx === 4) noteMidi += 7;
-        else if (idx === 6) noteMidi += 5;
-        break;
-      case "latin":
-        if (idx === 1 || idx === 3 || idx === 5 || idx === 7) noteMidi += 7;
-        break;
-      case "country":
-        if (idx === 2 || idx === 6) noteMidi += 5;
-        else if (idx === 4) noteMidi += 7;
-        break;
-      case "metal":
-        if (idx % 2 === 0) {}
-        else shouldPlay = false;
-        break;
-      case "punk":
-        break;
-      case "hiphop":
-        if (idx === 3 || idx === 7) noteMidi += 7;
-        else if (idx === 1 || idx === 5) shouldPlay = false;
-        break;
-      case "trap":
-        if (idx === 0 || idx === 4) {}
-        else if (idx === 2 || idx === 6) noteMidi -= 12;
-        else shouldPlay = false;
-        break;
-      case "dnb":
-        if (idx % 2 === 0) noteMidi += (idx % 4 === 0 ? 0 : 7);
-        else shouldPlay = false;
-        break;
-      case "techno":
-        break;
-      case "house":
-        if (idx % 2 === 1) shouldPlay = false;
-        break;
-      case "dubstep":
-        if (idx === 0 || idx === 4) {}
-        else if (idx === 2 || idx === 6) noteMidi -= 12;
-        else shouldPlay = false;
-        break;
-      case "ska":
-        if (idx % 2 === 0) shouldPlay = false;
-        break;
-      default:
-        break;
+  // Um passo (semicolcheia) do transporte: agenda violão, baixo e bateria em `time`
+  const scheduleStep = (time: number): number | null => {
+    const cur = cursorRef.current;
+    if (!cur) return null;
+    const stepDur = (60 / bpm) / 4;
+    const meterDef = METERS[meter];
+    const barSteps = meterDef.eighths * 2;
+    const single = cur.mode === "single";
+    const order = playOrder(song, loopSectionId, section.id);
+    if (!single && cur.arrIdx >= order.length) { finishPlayback(time); return null; }
+    const sec = single ? section : song.sections.find(x => x.id === order[cur.arrIdx].sectionId)!;
+    const secTimeline = sequenceTimeline(sec.items, meterDef);
+    const itemIdx = single ? 0 : itemAtBeat(secTimeline.starts, cur.bar * secTimeline.beatsPerBar + beatIn16(meterDef, cur.step));
+    const item = single ? { key: chordKey, varIdx: variantIdx } : sec.items[itemIdx];
+    if (!item) { finishPlayback(time); return null; }
+
+    const secPattern = allPatterns.find(p => p.id === sec.patternId) ?? pattern;
+    const chordChanged = itemIdx !== cur.item;
+    cur.item = itemIdx;
+
+    if (!single && (cur.step === 0 || chordChanged)) {
+      const pos = { arrIdx: cur.arrIdx, sectionId: sec.id, repeat: cur.repeat, bar: cur.bar, item: itemIdx };
+      transport.at(time, () => setPlayPos(pos));
     }
 
-    if (shouldPlay) {
-      void playMidi(noteMidi - 12, 0, 0.5, 1.2 * bassVolume);
+    const next = single ? undefined : nextItemInOrder(song, order, cur.arrIdx, cur.repeat, itemIdx);
+    playBackingStep(liveSink, backingSettings, {
+      ...voicingFor(item.key, item.varIdx, backingSettings), pattern: secPattern,
+      nextRootName: next && voicingFor(next.key, next.varIdx, backingSettings).rootName,
+      drumPatternId: sec.drumPatternId, bassPattern: sec.bassPattern, step: cur.step, chordChanged,
+      drumBar: single ? cur.loops : cur.repeat * secTimeline.bars + cur.bar,
+      fill: !single && cur.repeat === order[cur.arrIdx].repeats - 1 && cur.bar === secTimeline.bars - 1,
+    }, time);
+
+    cur.step += 1;
+    if (cur.step >= barSteps) {
+      cur.step = 0;
+      if (single) {
+        if (loopSingle) { cur.loops += 1; applyTempoRamp(cur.loops); }
+        else finishPlayback(time + stepDur);
+      } else advanceBar(cur, order, secTimeline.bars, time + stepDur);
     }
+    return stepDur;
   };
-
-  const playDrumStep = (stepIdx: number) => {
-    if (!drumsEnabled) return;
-    const drumPat = DRUM_PATTERNS[drumPatternId];
-    if (!drumPat) return;
-
-    const idx = stepIdx % 16;
-    const k = drumPat.kick[idx];
-    const s = drumPat.snare[idx];
-    const h = drumPat.hihat[idx];
-
-    if (k === "k") void drums.playSample("kick", 0, 0.9 * drumVolume);
-    if (s === "s") void drums.playSample("snare", 0, 0.7 * drumVolume);
-    if (h === "h") void drums.playSample("hihat", 0, 0.5 * drumVolume);
-    if (h === "o") void drums.playSample("openhat", 0, 0.6 * drumVolume);
+  // Próximo compasso: seção -> repetição -> entrada do arranjo -> loop (ou salto pedido)
+  const advanceBar = (cur: PlayCursor, order: ArrangementEntry[], sectionBars: number, nextTime: number) => {
+    cur.item = -1;
+    if (cur.jumpTo !== null) {
+      cur.arrIdx = Math.min(cur.jumpTo, order.length - 1); cur.repeat = 0; cur.bar = 0; cur.jumpTo = null;
+      return;
+    }
+    cur.bar += 1;
+    if (cur.bar < sectionBars) return;
+    cur.bar = 0;
+    cur.repeat += 1;
+    if (cur.repeat < order[cur.arrIdx].repeats) return;
+    cur.repeat = 0;
+    cur.arrIdx += 1;
+    if (cur.arrIdx < order.length) return;
+    if (loopSequence || loopSectionId) {
+      cur.arrIdx = 0;
+      cur.loops += 1;
+      applyTempoRamp(cur.loops);
+    } else finishPlayback(nextTime);
   };
+  const finishPlayback = (time: number) => {
+    cursorRef.current = null;
+    transport.at(time, () => {
+      setPlayPos(null);
+      setIsPlayingSingle(false);
+      setIsPlayingSequence(false);
+    });
+  };
+  // Rampa de estudo: +stepBpm a cada everyLoops voltas, até targetBpm
+  const applyTempoRamp = (loops: number) => {
+    const r = tempoRamp;
+    if (!r.enabled || r.everyLoops < 1 || loops % r.everyLoops !== 0) return;
+    setBpm(b => b >= r.targetBpm ? b : Math.min(r.targetBpm, b + r.stepBpm));
+  };
+  // o transporte sempre chama a versão mais recente (estado atual a cada passo)
+  const scheduleStepRef = useRef(scheduleStep);
+  scheduleStepRef.current = scheduleStep;
 
-  const playSingleChordBar = () => {
-    const accents = pattern.accents ?? [];
-    const accMap = Array(8).fill(false).map((_,i)=>accents.includes(i));
-    const steps = pattern.steps;
-    const stepMs = (60_000 / bpm) / 2;
-    const rootName = parseChordSymbol(chordKey).root;
-
-    singleStepIdxRef.current = 0;
-
-    singleTimerRef.current = window.setInterval(() => {
-      const idx = singleStepIdxRef.current % 8;
-      const st = steps[idx];
-      if (idx === 0) { void playRootHit(currentVoicing, rootName); }
-      if (st !== "-") void playChordStrum(currentVoicing, accMap, st === "D", singleStepIdxRef.current);
-
-      playDrumStep(singleStepIdxRef.current * 2);
-
-      const mids = voicingMidis(currentVoicing);
-      if (mids.length > 0) {
-        const rootMidi = findRootMidi(mids, rootName);
-        playBassNote(rootMidi, bassPattern, singleStepIdxRef.current);
-      }
-
-      singleStepIdxRef.current += 1;
-
-      if (singleStepIdxRef.current >= 8) {
-        if (loopSingle) {
-          singleStepIdxRef.current = 0;
-        } else {
-          clearInterval(singleTimerRef.current!);
-          singleTimerRef.current = null;
-          setIsPlayingSingle(false);
-        }
-      }
-    }, stepMs);
+  const startPlayback = (mode: PlayCursor["mode"], arrIdx = 0) => {
+    cursorRef.current = { mode, arrIdx, repeat: 0, bar: 0, step: 0, loops: 0, item: -1, jumpTo: null };
+    transport.start(time => scheduleStepRef.current(time));
   };
 
+  // ========== ACORDE INDIVIDUAL ==========
   const handlePlaySingle = async () => {
     await startAudio();
-    await drums.ensure();
-    if (seqTimerRef.current) { clearInterval(seqTimerRef.current); seqTimerRef.current = null; }
-    if (singleTimerRef.current) { clearInterval(singleTimerRef.current); singleTimerRef.current = null; }
+    transport.stop();
 
     setIsPlayingSequence(false);
     setIsPlayingSingle(true);
-    setCurrentBar(-1);
+    setPlayPos(null);
 
-    playSingleChordBar();
+    startPlayback("single");
   };
 
   const handleStopSingle = () => {
-    if (singleTimerRef.current) { clearInterval(singleTimerRef.current); singleTimerRef.current = null; }
+    transport.stop();
+    cursorRef.current = null;
     setIsPlayingSingle(false);
   };
 
-  // ========== SEQUÊNCIA ==========
-  const playSequenceBar = (barIdx: number) => {
-    const item = sequence[barIdx];
-    const voicing = CHORDS[item.key].variants[Math.min(item.varIdx, CHORDS[item.key].variants.length-1)];
-    const accents = pattern.accents ?? [];
-    const accMap = Array(8).fill(false).map((_,i)=>accents.includes(i));
-    const steps = pattern.steps;
-    const stepMs = (60_000 / bpm) / 2;
-    const rootName = parseChordSymbol(item.key).root;
-
-    setCurrentBar(barIdx);
-    seqStepIdxRef.current = 0;
-
-    seqTimerRef.current = window.setInterval(() => {
-      const idx = seqStepIdxRef.current % 8;
-      const st = steps[idx];
-      if (idx === 0) { void playRootHit(voicing, rootName); }
-      if (st !== "-") void playChordStrum(voicing, accMap, st === "D", seqStepIdxRef.current);
-
-      playDrumStep(seqStepIdxRef.current * 2);
-
-      const mids = voicingMidis(voicing);
-      if (mids.length > 0) {
-        const rootMidi = findRootMidi(mids, rootName);
-        playBassNote(rootMidi, bassPattern, seqStepIdxRef.current);
-      }
-
-      seqStepIdxRef.current += 1;
-
-      if (seqStepIdxRef.current >= 8) {
-        clearInterval(seqTimerRef.current!);
-        seqTimerRef.current = null;
-        seqBarIdxRef.current += 1;
-
-        if (seqBarIdxRef.current >= sequence.length) {
-          if (loopSequence) {
-            seqBarIdxRef.current = 0;
-            playSequenceBar(0);
-          } else {
-            setCurrentBar(-1);
-            setIsPlayingSequence(false);
-          }
-        } else {
-          playSequenceBar(seqBarIdxRef.current);
-        }
-      }
-    }, stepMs);
-  };
-
-  const handlePlaySequence = async () => {
+  // ========== SEQUÊNCIA / MÚSICA ==========
+  const handlePlaySequence = async (arrIdx = 0) => {
     await startAudio();
-    await drums.ensure();
-    if (singleTimerRef.current) { clearInterval(singleTimerRef.current); singleTimerRef.current = null; }
-    if (seqTimerRef.current) { clearInterval(seqTimerRef.current); seqTimerRef.current = null; }
+    transport.stop();
 
     setIsPlayingSingle(false);
     setIsPlayingSequence(true);
-    seqBarIdxRef.current = 0;
 
-    playSequenceBar(0);
+    startPlayback("sequence", arrIdx);
   };
 
   const handleStopSequence = () => {
-    if (seqTimerRef.current) { clearInterval(seqTimerRef.current); seqTimerRef.current = null; }
-    setCurrentBar(-1);
+    transport.stop();
+    cursorRef.current = null;
+    setPlayPos(null);
     setIsPlayingSequence(false);
   };
 
+  // Salta para uma entrada do arranjo: tocando, troca no próximo compasso; parado, começa dali
+  const jumpToArrangement = (arrIdx: number) => {
+    const cur = cursorRef.current;
+    if (cur && cur.mode === "sequence") cur.jumpTo = arrIdx;
+    else void handlePlaySequence(arrIdx);
+  };
+
+  const addSection = (name: string) => {
+    const sec = makeSection(name, buildSequenceFromProgression(key, [{ semitones: 0, quality: "" }], barBeats), { patternId, drumPatternId, bassPattern });
+    setSong(sg => ({ sections: [...sg.sections, sec], arrangement: [...sg.arrangement, { sectionId: sec.id, repeats: 1 }] }));
+    setEditingSectionId(sec.id);
+  };
+  const duplicateSection = (id: string) => {
+    const src = song.sections.find(x => x.id === id);
+    if (!src) return;
+    const copy = { ...src, id: newId(), name: `${src.name} (cópia)`, items: src.items.map(it => ({ ...it })) };
+    setSong(sg => ({ ...sg, sections: [...sg.sections, copy] }));
+    setEditingSectionId(copy.id);
+  };
+  const removeSection = (id: string) => {
+    if (song.sections.length <= 1) return;
+    setSong(sg => ({ sections: sg.sections.filter(x => x.id !== id), arrangement: sg.arrangement.filter(e => e.sectionId !== id) }));
+    if (loopSectionId === id) setLoopSectionId(null);
+    if (editingSectionId === id) setEditingSectionId(song.sections.find(x => x.id !== id)!.id);
+  };
+  const updateArrangement = (fn: (arr: ArrangementEntry[]) => ArrangementEntry[]) =>
+    setSong(sg => ({ ...sg, arrangement: fn([...sg.arrangement]) }));
+
+  // Troca de compasso: padrões de outro compasso são recusados e trocados pelo primeiro compatível
+  const handleMeterChange = (newMeter: MeterId) => {
+    setMeter(newMeter);
+    const newBarBeats = METERS[newMeter].groups.length;
+    const strumId = PATTERNS.find(p => meterOf(p) === newMeter)?.id;
+    const drumId = Object.keys(DRUM_PATTERNS).find(k => meterOf(DRUM_PATTERNS[k]) === newMeter);
+    if (!drumId) setDrumsEnabled(false);
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => ({
+      ...sec,
+      items: sec.items.map(it => it.beats % barBeats === 0 ? { ...it, beats: (it.beats / barBeats) * newBarBeats } : it),
+      patternId: meterOf(allPatterns.find(p => p.id === sec.patternId) ?? {}) === newMeter ? sec.patternId : strumId ?? sec.patternId,
+      drumPatternId: meterOf(allDrumPatterns[sec.drumPatternId] ?? {}) === newMeter ? sec.drumPatternId : drumId ?? sec.drumPatternId,
+      bassPattern: bassFitsMeter(sec.bassPattern, newMeter, allBassPatterns) ? sec.bassPattern : BASS_PATTERNS.find(b => b.meter === newMeter)?.id ?? "steady",
+    })) }));
+  };
+
+  // troca de tom: todas as seções seguem os graus
   const handleKeyChange = (newKey: string) => {
     setKey(newKey);
-    const symbols = buildSequenceFromProgression(newKey, progression);
-    setSequence(symbols.map((sym, i) => ({ key: mapSymbolToDictKey(sym), varIdx: 0, degreeIdx: i })));
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => ({ ...sec, items: sec.items.map(it => itemInKey(it, newKey)) })) }));
+  };
+
+  // transpor a música inteira mantendo as edições; `easiest` troca cada forma pela mais fácil
+  const transposeSong = (n: number, easiest = false) => {
+    setKey(transposeKeyId(key, n));
+    setSong(sg => ({ ...sg, sections: sg.sections.map(sec => ({ ...sec, items: sec.items.map(it => {
+      const moved = transposeChordKey(it.key, n);
+      return { ...it, key: moved, varIdx: easiest ? easiestVoicing(moved, tuning).idx : it.varIdx };
+    }) })) }));
+  };
+  const [transposeBy, setTransposeBy] = useState(2);
+  // tom que deve soar (padrão: o que soa agora, tom + capo)
+  const [capoTarget, setCapoTarget] = useState<string | null>(null);
+  const soundingKey = capoTarget ?? transposeKeyId(key, capo);
+  const capoSuggestions = useMemo(
+    () => suggestCapo(song.sections.flatMap(sec => sec.items.map(it => it.key)), key, soundingKey, tuning),
+    [song, key, soundingKey, tuning]
+  );
+  const applyCapoSuggestion = (s: CapoSuggestion) => {
+    transposeSong(s.shift, true);
+    setCapo(s.capo);
+    setCapoTarget(null);
+  };
+
+  // análise da seção em edição (tom provável, função e substituições de cada compasso)
+  const analysis = useMemo(() => analyzeSequence(sequence), [sequence]);
+  /* ===== Braço inteiro: escalas e arpejos sobre o acompanhamento ===== */
+  const [neckView, setNeckView] = useState<"scale" | "arpeggio">("scale");
+  const [scaleId, setScaleId] = useState<ScaleId | null>(null);
+  const [cagedShape, setCagedShape] = useState<CagedShape | null>(null);
+  const neckScale = scaleId ?? (parseKeyId(key).mode === "minor" ? "minor" : "major");
+  // acorde que soa agora: o da sequência tocando, senão o acorde individual em loop
+  const playingItem = isPlayingSequence && playPos ? song.sections.find(sec => sec.id === playPos.sectionId)?.items[playPos.item] : undefined;
+  const playingChord = playingItem ? voicingFor(playingItem.key, playingItem.varIdx, tuningState).symbol
+    : isPlayingSingle ? voicingFor(chordKey, variantIdx, tuningState).symbol : null;
+  const arpeggioChord = playingChord ?? voicingFor(chordKey, variantIdx, tuningState).symbol;
+  const arpeggio = parseForAnalysis(arpeggioChord);
+  const neckKey = transposeKeyId(key, capo);
+  const neck = neckView === "scale" || !arpeggio
+    ? { rootPc: parseKeyId(neckKey).pc, intervals: SCALES[neckScale].intervals }
+    : { rootPc: arpeggio.root, intervals: CHORD_QUALITIES[arpeggio.quality].intervals.map(i => i % 12) };
+
+  const applySubstitution = (idx: number, sub: Substitution) => {
+    if (!sub.insert) return setItemChord(idx, sub.chords[0]);
+    const half = Math.max(1, Math.ceil(barBeats / 2));
+    const added = sub.chords.map((chord, i): SeqItem => {
+      const degree = degreeOfChord(chord, key);
+      return { key: chord, varIdx: 0, beats: i === 0 ? half : Math.max(1, barBeats - half), ...(degree ? { degree } : {}) };
+    });
+    setSequence([...sequence.slice(0, idx), ...added, ...sequence.slice(idx)]);
   };
 
   const handleProgressionChange = (newProg: string) => {
+    const degrees = progressionDegrees(newProg, customProgressions);
+    if (!degrees) return;
     setProgression(newProg);
-    const symbols = buildSequenceFromProgression(key, newProg);
-    setSequence(symbols.map((sym, i) => ({ key: mapSymbolToDictKey(sym), varIdx: 0, degreeIdx: i })));
+    setRomanText(progressionText(degrees));
+    setRomanError("");
+    setSequence(buildSequenceFromProgression(key, degrees, barBeats));
   };
 
-  const getAlternativesForDegree = (degreeIdx: number): string[] => {
-    const prog = PROGRESSIONS[progression];
-    if (!prog || degreeIdx >= prog.degrees.length) return [];
-    const deg = prog.degrees[degreeIdx];
-    const base = toPc(key);
-    const root = nameForPc(base + deg.semitones);
-    const alternatives: string[] = [];
-
-    let mainSymbol = root;
-    if (deg.quality === "m") mainSymbol += "m";
-    else if (deg.quality === "7") mainSymbol += "7";
-    else if (deg.quality === "m7") mainSymbol += "m7";
-    else if (deg.quality === "maj7") mainSymbol += "maj7";
-    else if (deg.quality === "dim") mainSymbol += "dim";
-    alternatives.push(mainSymbol);
-
-    if (deg.alternatives) {
-      deg.alternatives.forEach(alt => {
-        let symbol = root;
-        if (alt === "m") symbol += "m";
-        else if (alt === "7") symbol += "7";
-        else if (alt === "m7") symbol += "m7";
-        else if (alt === "maj7") symbol += "maj7";
-        else if (alt === "dim") symbol += "dim";
-        alternatives.push(symbol);
-      });
-    }
+  // graus digitados -> seção atual; com nome, vira preset do usuário
+  const applyRoman = (saveAs?: string) => {
+    let degrees: ProgressionDegree[];
+    try { degrees = parseRomanProgression(romanText, parseKeyId(key).mode); }
+    catch (e) { setRomanError((e as Error).message); return; }
+    setRomanError("");
+    setSequence(buildSequenceFromProgression(key, degrees, barBeats));
+    if (!saveAs) return;
+    const preset: CustomProgression = { id: CUSTOM_PREFIX + newId(), name: saveAs, text: romanText.trim(), mode: parseKeyId(key).mode };
+    const next = [...customProgressions, preset];
+    storeCustomProgressions(next);
+    setCustomProgressions(next);
+    setProgression(preset.id);
+  };
+  const saveRomanPreset = () => {
+    const name = window.prompt("Nome do preset", romanText.trim())?.trim();
+    if (name) applyRoman(name);
+  };
+  const deleteRomanPreset = () => {
+    const next = customProgressions.filter(p => p.id !== progression);
+    storeCustomProgressions(next);
+    setCustomProgressions(next);
+    setProgression("I-V-vi-IV");
+  };
 
-    return alternatives.filter(sym => CHORDS[mapSymbolToDictKey(sym)]);
+  // item editado na mão: o acorde escolhido vira grau na tonalidade atual
+  const setItemChord = (idx: number, chord: string) => {
+    const copy = [...sequence];
+    const degree = degreeOfChord(chord, key);
+    copy[idx] = { key: chord, varIdx: 0, beats: copy[idx].beats, ...(degree ? { degree } : {}) };
+    setSequence(copy);
   };
 
   // Preview arpejado ao trocar voicing (parado)
   useEffect(() => {
-    if (singleTimerRef.current || seqTimerRef.current) return;
+    if (transport.isRunning()) return;
     let cancelled = false;
     (async () => {
       try {
@@ -1327,7 +827,7 @@ export default function App() {
           if (cancelled) return;
           const v = currentVoicing.shape[s];
           if (v === "x" || v === 0) continue;
-          const midi = TUNING_MIDI[s] + Number(v);
+          const midi = strings[s] + Number(v);
           await playMidi(midi, i*0.05, 0.18, 0.85);
           i++;
         }
@@ -1337,10 +837,265 @@ export default function App() {
     })();
     return () => { cancelled = true; };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [chordKey, variantIdx, instrument]);
+  }, [chordKey, variantIdx, instrument, tuningId, capo]);
+
+  /* ===== Biblioteca: salvar, carregar, exportar e compartilhar ===== */
+  const [songTitle, setSongTitle] = useState("Sem título");
+  const [library, setLibrary] = useState<LibraryEntry[]>(loadLibrary);
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  const [libraryMsg, setLibraryMsg] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const chordProInputRef = useRef<HTMLInputElement>(null);
+
+  const captureDoc = (): SongDoc => ({
+    format: SONG_DOC_FORMAT,
+    version: SONG_DOC_VERSION,
+    title: songTitle,
+    instrument, pluck, mixer, reverbMix,
+    tuning: { id: tuningId, midi: [...tuning], capo },
+    transport: { bpm, swing, swingGrid, sustain, strumMs, meter, tempoRamp },
+    tracks: { drumsEnabled, bassEnabled, clickEnabled, drumFills, loopSequence },
+    chord: { chordKey, variantIdx },
+    key, progression, song,
+    patterns: customPatterns.filter(p => song.sections.some(sec => sec.patternId === p.id)),
+    bassPatterns: customBassPatterns.filter(p => song.sections.some(sec => sec.bassPattern === p.id)),
+    drumPatterns: customDrumPatterns.filter(p => song.sections.some(sec => sec.drumPatternId === p.id)),
+  });
+
+  const applyDoc = (doc: SongDoc) => {
+    transport.stop();
+    cursorRef.current = null;
+    setIsPlayingSingle(false);
+    setIsPlayingSequence(false);
+    setSongTitle(doc.title);
+    setInstrument(doc.instrument);
+    setPluck(doc.pluck);
+    setTuningId(doc.tuning.id);
+    if (doc.tuning.id === "custom") setCustomTuning(doc.tuning.midi);
+    setCapo(doc.tuning.capo);
+    setMixer(doc.mixer);
+    setReverbMix(doc.reverbMix);
+    setBpm(doc.transport.bpm);
+    setSwing(doc.transport.swing);
+    setSwingGrid(doc.transport.swingGrid);
+    setSustain(doc.transport.sustain);
+    setStrumMs(doc.transport.strumMs);
+    setMeter(doc.transport.meter);
+    setTempoRamp(doc.transport.tempoRamp);
+    setDrumsEnabled(doc.tracks.drumsEnabled);
+    setDrumFills(doc.tracks.drumFills);
+    setBassEnabled(doc.tracks.bassEnabled);
+    setClickEnabled(doc.tracks.clickEnabled);
+    setLoopSequence(doc.tracks.loopSequence);
+    setChordKey(doc.chord.chordKey);
+    setVariantIdx(doc.chord.variantIdx);
+    setKey(doc.key);
+    setProgression(doc.progression);
+    const degrees = progressionDegrees(doc.progression, customProgressions);
+    if (degrees) setRomanText(progressionText(degrees));
+    // padrões do usuário que vieram na música entram na lista local
+    const newPatterns = doc.patterns.filter(p => !customPatterns.some(c => c.id === p.id));
+    if (newPatterns.length) {
+      storeCustomPatterns([...customPatterns, ...newPatterns]);
+      setCustomPatterns([...customPatterns, ...newPatterns]);
+    }
+    const newBassPatterns = doc.bassPatterns.filter(p => !customBassPatterns.some(c => c.id === p.id));
+    if (newBassPatterns.length) {
+      storeCustomBassPatterns([...customBassPatterns, ...newBassPatterns]);
+      setCustomBassPatterns([...customBassPatterns, ...newBassPatterns]);
+    }
+    const newDrumPatterns = doc.drumPatterns.filter(p => !customDrumPatterns.some(c => c.id === p.id));
+    if (newDrumPatterns.length) {
+      storeCustomDrumPatterns([...customDrumPatterns, ...newDrumPatterns]);
+      setCustomDrumPatterns([...customDrumPatterns, ...newDrumPatterns]);
+    }
+    setSong(doc.song);
+    setEditingSectionId(doc.song.sections[0].id);
+    setLoopSectionId(null);
+    setPlayPos(null);
+  };
+
+  const updateLibrary = (fn: (entries: LibraryEntry[]) => LibraryEntry[]) => {
+    setLibrary(prev => {
+      const next = fn(prev);
+      try {
+        storeLibrary(next);
+      } catch (e) {
+        console.error("Falha ao salvar biblioteca:", e);
+        setLibraryMsg("Não foi possível gravar (armazenamento cheio?)");
+      }
+      return next;
+    });
+  };
+
+  const saveToLibrary = (asCopy: boolean) => {
+    const doc = captureDoc();
+    const id = !asCopy && libraryId && library.some(e => e.id === libraryId) ? libraryId : newId();
+    const entry: LibraryEntry = { id, title: doc.title, updatedAt: Date.now(), doc };
+    updateLibrary(entries => entries.some(e => e.id === id) ? entries.map(e => e.id === id ? entry : e) : [entry, ...entries]);
+    setLibraryId(id);
+    setLibraryMsg(`"${doc.title}" salva`);
+  };
+  const renameInLibrary = (id: string) => {
+    const entry = library.find(e => e.id === id);
+    const title = entry && window.prompt("Novo nome", entry.title)?.trim();
+    if (!entry || !title) return;
+    updateLibrary(entries => entries.map(e => e.id === id ? { ...e, title, doc: { ...e.doc, title } } : e));
+    if (id === libraryId) setSongTitle(title);
+  };
+  const duplicateInLibrary = (id: string) => {
+    const entry = library.find(e => e.id === id);
+    if (!entry) return;
+    const title = `${entry.title} (cópia)`;
+    updateLibrary(entries => [{ id: newId(), title, updatedAt: Date.now(), doc: { ...entry.doc, title } }, ...entries]);
+  };
+  const deleteFromLibrary = (id: string) => {
+    const entry = library.find(e => e.id === id);
+    if (!entry || !window.confirm(`Apagar "${entry.title}"?`)) return;
+    updateLibrary(entries => entries.filter(e => e.id !== id));
+    if (id === libraryId) setLibraryId(null);
+  };
+  const loadFromLibrary = (entry: LibraryEntry) => {
+    applyDoc(entry.doc);
+    setLibraryId(entry.id);
+    setLibraryMsg(`"${entry.title}" carregada`);
+  };
+
+  const exportJson = () => {
+    const doc = captureDoc();
+    downloadBlob(new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" }), `${fileBaseName(doc.title)}.json`);
+  };
+  const importJson = async (file: File) => {
+    try {
+      const doc = parseSongDoc(JSON.parse(await file.text()));
+      applyDoc(doc);
+      setLibraryId(null);
+      setLibraryMsg(`"${doc.title}" importada`);
+    } catch (e) {
+      setLibraryMsg(`Erro ao importar: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+  // ChordPro: a folha substitui a música (seções + arranjo); padrões da seção atual se couberem no compasso
+  const importChordPro = async (file: File) => {
+    try {
+      const sheet = parseChordPro(await file.text(), CHORDPRO_RESOLVER);
+      if (!sheet.sections.length) {
+        setLibraryMsg(`Nenhum acorde reconhecido${sheet.unvoiced.length ? ` (sem voicing: ${sheet.unvoiced.join(", ")})` : ""}`);
+        return;
+      }
+      const doc = captureDoc();
+      const sheetMeter = sheet.meter ?? meter;
+      const sheetBarBeats = METERS[sheetMeter].groups.length;
+      const patterns = {
+        patternId: meterOf(pattern) === sheetMeter ? patternId : PATTERNS.find(p => meterOf(p) === sheetMeter)?.id ?? patternId,
+        drumPatternId: meterOf(allDrumPatterns[drumPatternId] ?? {}) === sheetMeter ? drumPatternId : Object.keys(DRUM_PATTERNS).find(k => meterOf(DRUM_PATTERNS[k]) === sheetMeter) ?? drumPatternId,
+        bassPattern: bassFitsMeter(bassPattern, sheetMeter, allBassPatterns) ? bassPattern : BASS_PATTERNS.find(b => b.meter === sheetMeter)?.id ?? "steady",
+      };
+      const sections = sheet.sections.map(sec => makeSection(sec.name, sec.chords.map(k => ({ key: k, varIdx: 0, beats: sheetBarBeats, degree: degreeOfChord(k, sheet.key ?? key) })), patterns));
+      applyDoc({
+        ...doc,
+        title: sheet.title ?? file.name.replace(/\.[^.]+$/, ""),
+        key: sheet.key ?? key,
+        transport: { ...doc.transport, bpm: sheet.bpm ?? bpm, meter: sheetMeter },
+        song: { sections, arrangement: sheet.arrangement.map(i => ({ sectionId: sections[i].id, repeats: 1 })) },
+      });
+      setLibraryId(null);
+      const report = [
+        sheet.unvoiced.length ? `sem voicing: ${sheet.unvoiced.join(", ")}` : "",
+        sheet.approximated.length ? `aproximados: ${sheet.approximated.map(a => `${a.symbol}→${getChordDisplaySymbol(a.key, sheet.key ?? key)}`).join(", ")}` : "",
+      ].filter(Boolean).join(" · ");
+      setLibraryMsg(`ChordPro importado${report ? ` · ${report}` : ""}`);
+    } catch (e) {
+      setLibraryMsg(`Erro ao importar: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+  const exportChordPro = () => {
+    const doc = captureDoc();
+    downloadBlob(new Blob([songToChordPro(doc)], { type: "text/plain" }), `${fileBaseName(doc.title)}.cho`);
+  };
+  // Exportação do acompanhamento (ordem de execução atual, `exportLoops` voltas)
+  const [exportLoops, setExportLoops] = useState(1);
+  const exportMidi = () => {
+    const order = playOrder(song, loopSectionId, section.id);
+    const bytes = renderMidi(songTitle, instrument, backingSettings, song, order, exportLoops);
+    downloadBlob(new Blob([bytes], { type: "audio/midi" }), `${fileBaseName(songTitle)}.mid`);
+  };
+  const [wavBits, setWavBits] = useState<WavBitDepth>(16);
+  const [wavStems, setWavStems] = useState(false);
+  const [countInBars, setCountInBars] = useState(1);
+  const [rendering, setRendering] = useState<string | null>(null);
+  const [exportMsg, setExportMsg] = useState("");
+  const exportWav = async () => {
+    const options: AudioRenderOptions = {
+      instrument, pluck, mixer, reverbMix, settings: backingSettings, song,
+      order: playOrder(song, loopSectionId, section.id), loops: exportLoops, countInBars,
+    };
+    const base = fileBaseName(songTitle);
+    const stemNames: Record<BusName, string> = { guitar: "violão", bass: "baixo", drums: "bateria", click: "click" };
+    const stems = wavStems ? STEM_BUSES.filter(b => b !== "bass" || bassEnabled).filter(b => b !== "drums" || drumsEnabled) : [];
+    setExportMsg("");
+    try {
+      for (const stem of [undefined, ...stems]) {
+        setRendering(stem ? `Renderizando ${stemNames[stem]}…` : "Renderizando mix…");
+        const buffer = await renderBackingAudio(options, stem);
+        downloadBlob(new Blob([encodeWav(buffer, wavBits)], { type: "audio/wav" }), stem ? `${base} - ${stemNames[stem]}.wav` : `${base}.wav`);
+      }
+    } catch (e) {
+      console.error("Falha ao renderizar WAV:", e);
+      setExportMsg(`Erro ao renderizar: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRendering(null);
+    }
+  };
+  const copyShareLink = async () => {
+    const hash = await encodeSongHash(captureDoc());
+    const url = `${location.origin}${location.pathname}${location.search}${hash}`;
+    history.replaceState(null, "", hash);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLibraryMsg("Link copiado");
+    } catch {
+      window.prompt("Copie o link", url);
+    }
+  };
+
+  // Abre uma música compartilhada pelo link (#song=...)
+  useEffect(() => {
+    decodeSongHash(location.hash)
+      .then(doc => { if (doc) { applyDoc(doc); setLibraryMsg(`"${doc.title}" aberta pelo link`); } })
+      .catch(e => setLibraryMsg(`Link inválido: ${e instanceof Error ? e.message : String(e)}`));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /* ===== Pacotes de amostras do usuário ===== */
+  const sampleInputRef = useRef<HTMLInputElement>(null);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+  const reloadInstrument = async () => {
+    forgetSamplePack(instrument);
+    await guitar.reload();
+    await bass.reload();
+  };
+  const importSamples = async (files: File[]) => {
+    setSampleError(null);
+    try {
+      const samples = await samplesFromFiles(files);
+      if (!samples.length) throw new Error("Nenhuma amostra reconhecida (nomeie os arquivos pela nota, ex.: C4.mp3)");
+      const source = `arquivo: ${files.length === 1 ? files[0].name : `${files.length} arquivos`}`;
+      await putCachedPack({ id: instrument, source, samples });
+      await reloadInstrument();
+    } catch (e) {
+      setSampleError(e instanceof Error ? e.message : String(e));
+    }
+  };
+  // apaga o pacote em cache (do usuário ou baixado) e volta a buscar o embutido/CDN
+  const resetSamples = async () => {
+    setSampleError(null);
+    await deleteCachedPack(instrument).catch(e => console.warn("Cache de amostras indisponível:", e));
+    await reloadInstrument();
+  };
 
   /* ===== Afinador Cromático ===== */
-  const tuner = useChromaticTuner();
+  const tuner = useChromaticTuner(engine, tuning);
   const centsClamped = Math.max(-50, Math.min(50, tuner.cents));
 
   /* ===== UI ===== */
@@ -1352,20 +1107,72 @@ export default function App() {
           <div className="mb-2 pb-1" style={{borderBottom: '1px solid #333'}}>
             <h3 className="text-[9px] font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'1.5px'}}>SOURCE & PATTERNS</h3>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+          {/* grooves brasileiros: batida, bateria e baixo da seção juntos */}
+          {GROOVES.some(g => g.meter === meter) && (
+            <div className="mb-3 flex flex-wrap items-center gap-2 text-xs" style={{color:'#aaa'}}>
+              <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>Grooves</span>
+              {GROOVES.filter(g => g.meter === meter).map(g => {
+                const on = patternId === g.patternId && drumPatternId === g.drumPatternId && bassPattern === g.bassPattern;
+                return (
+                  <button key={g.id} className="px-3 py-1.5 rounded" title={`${g.bpm} BPM · swing ${Math.round(g.swing * 100)}% em ${SWING_GRIDS[g.swingGrid].toLowerCase()}`}
+                    style={{background: on ? '#16a34a' : '#1a1a1a', border:'1px solid #333', color: on ? '#fff' : '#ccc'}} onClick={()=>applyGroove(g)}>
+                    {g.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 sm:gap-6">
             <div>
               <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #f59e0b'}}>
                 INSTRUMENTO
               </label>
               <select className="w-full rounded border p-4 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={instrument} onChange={(e)=>setInstrument(e.target.value as InstrumentName)}>
-              <option value="acoustic_guitar_nylon">Violão Nylon</option>
-              <option value="acoustic_guitar_steel">Violão Aço</option>
-              <option value="electric_guitar_clean">Guitarra Clean</option>
-              <option value="electric_guitar_jazz">Guitarra Jazz</option>
-              <option value="electric_guitar_muted">Guitarra Muted</option>
-              <option value="overdriven_guitar">Guitarra Overdrive</option>
-              <option value="distortion_guitar">Guitarra Distorção</option>
-              <option value="acoustic_grand_piano">Piano</option>
+              {INSTRUMENTS.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+            </select>
+              {/* violão modelado: palheta, amortecimento, palm mute e corpo */}
+              {instrument === "modelled_guitar" ? (
+                <div className="mt-2 grid gap-1 text-[11px]" style={{color:'#999'}}>
+                  {([
+                    ["pick", "Palheta (cavalete → meio)", 0.05, 0.5],
+                    ["damping", "Amortecimento", 0, 1],
+                    ["palmMute", "Palm mute", 0, 1],
+                    ["body", "Ressonância do corpo", 0, 1],
+                  ] as [keyof PluckModel, string, number, number][]).map(([k, label, min, max]) => (
+                    <label key={k} className="flex items-center gap-2">
+                      <span className="w-32">{label}</span>
+                      <input type="range" min={min} max={max} step={0.01} value={pluck[k]} onChange={e=>setPluck(p => ({ ...p, [k]: parseFloat(e.target.value) }))} className="flex-1" />
+                    </label>
+                  ))}
+                </div>
+              ) : (
+              <div className="mt-2 text-[11px]" style={{color:'#999'}}>
+                {guitar.status.state === "loading" && (
+                  <>
+                    <div>Carregando amostras{guitar.status.source && ` (${guitar.status.source})`} {Math.round(guitar.status.progress * 100)}%</div>
+                    <div className="h-1 rounded mt-1" style={{background:'#333'}}>
+                      <div className="h-1 rounded" style={{width:`${guitar.status.progress * 100}%`, background:'#f59e0b'}} />
+                    </div>
+                  </>
+                )}
+                {guitar.status.state === "ready" && <div>Amostras: {guitar.status.source}</div>}
+                {guitar.status.state === "fallback" && <div style={{color:'#fca5a5'}} title={guitar.status.error ?? ''}>Sem amostras — usando voz sintetizada</div>}
+                <div style={{color:'#777'}}>O Violão Nylon já vem com o app; os outros instrumentos baixam amostras no primeiro uso. Para tocar offline, carregue um pacote (fica guardado) ou use o violão modelado.</div>
+                {sampleError && <div style={{color:'#fca5a5'}}>{sampleError}</div>}
+                <div className="flex gap-2 mt-1">
+                  <button className="px-2 py-1 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>sampleInputRef.current?.click()} title="SF2, pacote JSON/JS de data-URIs ou arquivos de áudio nomeados pela nota (C4.mp3, 60.mp3)">Carregar amostras…</button>
+                  <button className="px-2 py-1 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={resetSamples}>Restaurar</button>
+                </div>
+                <input ref={sampleInputRef} type="file" multiple accept=".sf2,.json,.js,.mp3,.ogg,.wav" className="hidden" onChange={e=>{ const files = Array.from(e.target.files ?? []); if (files.length) importSamples(files); e.target.value = ""; }} />
+              </div>
+              )}
+            </div>
+            <div>
+              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #eab308'}}>
+                COMPASSO
+              </label>
+              <select className="w-full rounded border p-4 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={meter} onChange={(e)=>handleMeterChange(e.target.value as MeterId)}>
+              {METER_IDS.map(m => <option key={m} value={m}>{METERS[m].label}</option>)}
             </select>
             </div>
             <div>
@@ -1373,119 +1180,379 @@ export default function App() {
                 RITMO VIOLÃO
               </label>
               <select className="w-full rounded border p-4 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={patternId} onChange={(e)=>setPatternId(e.target.value)}>
-              {PATTERNS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              {PATTERNS.filter(p => p.kind !== "pick" && meterOf(p) === meter).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              {PATTERNS.some(p => p.kind === "pick" && meterOf(p) === meter) && (
+                <optgroup label="Dedilhados">
+                  {PATTERNS.filter(p => p.kind === "pick" && meterOf(p) === meter).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </optgroup>
+              )}
+              {customPatterns.some(p => meterOf(p) === meter) && (
+                <optgroup label="Meus ritmos">
+                  {customPatterns.filter(p => meterOf(p) === meter).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </optgroup>
+              )}
             </select>
+              <button className="w-full mt-2 px-3 py-1.5 rounded text-xs" style={{background:'#1a1a1a', border:'1px solid #333', color:'#ccc'}}
+                onClick={()=>setPatternDraft(patternDraft ? null : editablePattern(customPatterns.some(p => p.id === pattern.id) ? pattern : { ...pattern, label: `${pattern.label} (meu)` }))}>
+                {patternDraft ? 'Fechar editor' : pattern.kind === 'pick' ? '✏️ Editar dedilhado' : '✏️ Editar batida'}
+              </button>
             </div>
             <div>
               <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #ec4899'}}>
                 DRUMS PATTERN
               </label>
               <select className="w-full rounded border p-4 text-base mb-3 font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={drumPatternId} onChange={(e)=>setDrumPatternId(e.target.value)}>
-              {Object.entries(DRUM_PATTERNS).map(([k, v]) => <option key={k} value={k}>{v.label}</option>)}
+              {Object.entries(DRUM_PATTERNS).filter(([, v]) => meterOf(v) === meter).map(([k, v]) => <option key={k} value={k}>{v.label}</option>)}
+              {customDrumPatterns.some(p => meterOf(p) === meter) && (
+                <optgroup label="Minhas baterias">
+                  {customDrumPatterns.filter(p => meterOf(p) === meter).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </optgroup>
+              )}
             </select>
-              <label className="flex items-center justify-center gap-2 text-xs mt-2" style={{color:'#aaa'}}>
-                <input type="checkbox" className="w-3 h-3" checked={drumsEnabled} onChange={e=>setDrumsEnabled(e.target.checked)} />
-                ENABLE
-              </label>
+              <button className="w-full mt-2 px-3 py-1.5 rounded text-xs" style={{background:'#1a1a1a', border:'1px solid #333', color:'#ccc'}}
+                onClick={()=>{
+                  const current = allDrumPatterns[drumPatternId] ?? DRUM_PATTERNS.rock;
+                  const isCustom = customDrumPatterns.some(p => p.id === drumPatternId);
+                  setDrumTab(0);
+                  setDrumDraft(drumDraft ? null : editableDrumPattern(drumPatternId, isCustom ? current : { ...current, label: `${current.label} (meu)` }));
+                }}>
+                {drumDraft ? 'Fechar editor' : '✏️ Editar bateria'}
+              </button>
+              <div className="flex justify-center gap-4 mt-2">
+                <label className="flex items-center gap-2 text-xs" style={{color:'#aaa'}}>
+                  <input type="checkbox" className="w-3 h-3" checked={drumsEnabled} onChange={e=>setDrumsEnabled(e.target.checked)} />
+                  ENABLE
+                </label>
+                <label className="flex items-center gap-2 text-xs" style={{color:'#aaa'}} title="Virada no último compasso da seção (ou do loop) e prato na entrada seguinte">
+                  <input type="checkbox" className="w-3 h-3" checked={drumFills} onChange={e=>setDrumFills(e.target.checked)} />
+                  FILLS
+                </label>
+              </div>
             </div>
             <div>
               <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #0ea5e9'}}>
                 BASS PATTERN
               </label>
               <select className="w-full rounded border p-4 text-base mb-3 font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={bassPattern} onChange={(e)=>setBassPattern(e.target.value)}>
-                <option value="steady">1. Steady (Fundamental)</option>
-                <option value="root-fifth">2. Fundamental + Quinta</option>
-                <option value="octave">3. Oitavas Alternadas</option>
-                <option value="walking">4. Walking Bass Clássico</option>
-                <option value="jazz-walk">5. Walking Jazz Cromático</option>
-                <option value="arpeggio">6. Arpejo Ascendente</option>
-                <option value="swing">7. Swing Jazz</option>
-                <option value="bossa">8. Bossa Nova</option>
-                <option value="reggae">9. Reggae (Batidas 1 e 3)</option>
-                <option value="disco">10. Disco (Batidas Pares)</option>
-                <option value="funk">11. Funk Syncopated</option>
-                <option value="rock">12. Rock Alternado</option>
-                <option value="blues">13. Blues Shuffle</option>
-                <option value="latin">14. Latin/Salsa</option>
-                <option value="country">15. Country</option>
-                <option value="metal">16. Metal (Colcheias)</option>
-                <option value="punk">17. Punk (Contínuo)</option>
-                <option value="hiphop">18. Hip Hop</option>
-                <option value="trap">19. Trap (Sub Bass)</option>
-                <option value="dnb">20. Drum & Bass</option>
-                <option value="techno">21. Techno (Four-on-Floor)</option>
-                <option value="house">22. House</option>
-                <option value="dubstep">23. Dubstep (Wobble)</option>
-                <option value="ska">24. Ska (Upbeat)</option>
+                {BASS_PATTERNS.filter(b => bassFitsMeter(b.id, meter)).map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                {customBassPatterns.some(b => b.meter === meter) && (
+                  <optgroup label="Meus baixos">
+                    {customBassPatterns.filter(b => b.meter === meter).map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                  </optgroup>
+                )}
               </select>
+              <button className="w-full mt-2 px-3 py-1.5 rounded text-xs" style={{background:'#1a1a1a', border:'1px solid #333', color:'#ccc'}}
+                onClick={()=>{
+                  const current = allBassPatterns.find(b => b.id === bassPattern) ?? BASS_PATTERNS[0];
+                  setBassDraft(bassDraft ? null : editableBassPattern(customBassPatterns.some(b => b.id === current.id) ? current : { ...current, label: `${current.label} (meu)` }, meter));
+                }}>
+                {bassDraft ? 'Fechar editor' : '✏️ Editar baixo'}
+              </button>
               <label className="flex items-center justify-center gap-2 text-xs mt-2" style={{color:'#aaa'}}>
                 <input type="checkbox" className="w-3 h-3" checked={bassEnabled} onChange={e=>setBassEnabled(e.target.checked)} />
                 ENABLE
               </label>
             </div>
           </div>
+
+          {/* editor de batida: uma coluna por passo (batida: clique troca o tipo; dedilhado: uma célula por papel), velocidade embaixo */}
+          {patternDraft && (() => {
+            const draftMeter = METERS[meterOf(patternDraft)];
+            const res = patternDraft.resolution ?? "8";
+            const perBeat = draftMeter.groups.map(g => res === "8t" ? 3 : res === "16" ? g * 2 : g);
+            const beatStart = perBeat.map((_, b) => perBeat.slice(0, b).reduce((s, n) => s + n, 0));
+            return (
+              <div className="mt-4 pt-3 space-y-2" style={{borderTop: '1px solid #333'}}>
+                <div className="flex flex-wrap items-center gap-2 text-xs" style={{color:'#aaa'}}>
+                  <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>{patternDraft.kind === 'pick' ? 'Dedilhado' : 'Batida'}</span>
+                  <input className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', minWidth: 180}} value={patternDraft.label} onChange={e=>setPatternDraft({ ...patternDraft, label: e.target.value })} />
+                  <select className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={res} onChange={e=>setPatternDraft(resamplePattern(patternDraft, e.target.value as PatternResolution))}>
+                    {(Object.keys(PATTERN_RESOLUTIONS) as PatternResolution[]).map(r => <option key={r} value={r}>{PATTERN_RESOLUTIONS[r]}</option>)}
+                  </select>
+                  <span>{draftMeter.label}</span>
+                  <div className="ml-auto flex gap-2">
+                    <button className="px-3 py-1.5 rounded" style={{background:'#16a34a', color:'#fff'}} onClick={saveDraft}>Salvar</button>
+                    {customPatterns.some(p => p.id === patternDraft.id) && (
+                      <button className="px-3 py-1.5 rounded" style={{background:'rgba(239, 68, 68, 0.2)', border:'1px solid #ef4444'}} onClick={()=>deleteCustomPattern(patternDraft.id)}>Excluir</button>
+                    )}
+                  </div>
+                </div>
+                <div style={{ overflowX: 'auto' }}>
+                  <div className="flex gap-1">
+                    {patternDraft.kind === 'pick' && (
+                      <div className="flex flex-col gap-1 text-[9px] pr-1" style={{color:'#888', paddingTop: 16}}>
+                        {PICK_ROLE_IDS.map(role => <span key={role} className="h-5 flex items-center" title={PICK_ROLES[role].name}>{role === 'b' ? 'p' : role.replace('b', 'p+')}</span>)}
+                      </div>
+                    )}
+                    {Array.from({ length: patternSize(patternDraft) }, (_, i) => (
+                      <div key={i} className="flex flex-col items-center gap-1" style={{ marginLeft: i > 0 && beatStart.includes(i) ? 8 : 0 }}>
+                        <span className="text-[9px]" style={{color:'#666'}}>{beatStart.includes(i) ? beatStart.indexOf(i) + 1 : '·'}</span>
+                        {patternDraft.kind === 'pick' ? PICK_ROLE_IDS.map(role => {
+                          const on = patternDraft.picks[i].includes(role);
+                          return (
+                            <button key={role} className="w-6 h-5 rounded" title={PICK_ROLES[role].name} onClick={()=>updateDraft(i, { role })}
+                              style={{background: on ? '#10b981' : '#0d0d0d', border:'1px solid #555', opacity: on ? 0.35 + 0.65 * (patternDraft.velocities?.[i] ?? DEFAULT_STEP_VELOCITY) : 1}} />
+                          );
+                        }) : (() => {
+                          const st = patternDraft.steps[i];
+                          return (
+                            <button className="w-8 h-8 rounded text-xs font-bold" title={STEP_NAMES[st]}
+                              style={{background: st === '-' ? '#0d0d0d' : '#4f46e5', border:'1px solid #555', color:'#fff', opacity: st === '-' ? 1 : 0.35 + 0.65 * (patternDraft.velocities?.[i] ?? DEFAULT_STEP_VELOCITY)}}
+                              onClick={()=>updateDraft(i, { step: STEP_TYPES[(STEP_TYPES.indexOf(st) + 1) % STEP_TYPES.length] })}
+                              onContextMenu={e=>{ e.preventDefault(); updateDraft(i, { step: '-' }); }}>
+                              {st === '-' ? '' : st}
+                            </button>
+                          );
+                        })()}
+                        <input type="range" min={0.1} max={1} step={0.05} value={patternDraft.velocities?.[i] ?? DEFAULT_STEP_VELOCITY}
+                          onChange={e=>updateDraft(i, { velocity: Number(e.target.value) })}
+                          style={{ writingMode: 'vertical-lr', direction: 'rtl', width: 14, height: 48 }} title="Velocidade" />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-[10px]" style={{color:'#777'}}>
+                  {patternDraft.kind === 'pick'
+                    ? 'Cordas pelo papel na forma: p = corda do baixo, p+1/p+2 = as seguintes para cima; i, m, a = as três mais agudas que soam. Células no mesmo passo tocam juntas (pinça).'
+                    : `Clique troca o tipo (botão direito limpa): ${STEP_TYPES.filter(st => st !== '-').map(st => `${st} = ${STEP_NAMES[st]}`).join(' · ')}`}
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* editor de bateria: uma linha por peça, uma célula por semicolcheia; abas A/B e virada */}
+          {drumDraft && (() => {
+            const draftMeter = METERS[meterOf(drumDraft)];
+            const beatStart = beatStarts16(draftMeter);
+            const rows = drumTab === "fill" ? drumDraft.fill : drumDraft.variations[drumTab] ?? drumDraft.variations[0];
+            const tabStyle = (on: boolean) => ({ background: on ? '#ec4899' : '#1a1a1a', border: '1px solid #333', color: on ? '#fff' : '#ccc' });
+            return (
+              <div className="mt-4 pt-3 space-y-2" style={{borderTop: '1px solid #333'}}>
+                <div className="flex flex-wrap items-center gap-2 text-xs" style={{color:'#aaa'}}>
+                  <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>Bateria</span>
+                  <input className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', minWidth: 180}} value={drumDraft.label} onChange={e=>setDrumDraft({ ...drumDraft, label: e.target.value })} />
+                  <span>{draftMeter.label}</span>
+                  {drumDraft.variations.map((_, k) => (
+                    <button key={k} className="px-2 py-1 rounded" style={tabStyle(drumTab === k)} onClick={()=>setDrumTab(k)}>{k === 0 ? 'A' : 'B'}</button>
+                  ))}
+                  {drumDraft.variations.length < 2
+                    ? <button className="px-2 py-1 rounded" style={tabStyle(false)} title="Variação B: alterna com a A a cada compasso"
+                        onClick={()=>{ setDrumDraft({ ...drumDraft, variations: [...drumDraft.variations, drumDraft.variations[0]] }); setDrumTab(1); }}>+ B</button>
+                    : <button className="px-2 py-1 rounded" style={tabStyle(false)} title="Remover a variação B"
+                        onClick={()=>{ setDrumDraft({ ...drumDraft, variations: drumDraft.variations.slice(0, 1) }); setDrumTab(0); }}>− B</button>}
+                  <button className="px-2 py-1 rounded" style={tabStyle(drumTab === 'fill')} onClick={()=>setDrumTab('fill')}>Virada</button>
+                  <div className="ml-auto flex gap-2">
+                    <button className="px-3 py-1.5 rounded" style={{background:'#16a34a', color:'#fff'}} onClick={saveDrumDraft}>Salvar</button>
+                    {customDrumPatterns.some(p => p.id === drumDraft.id) && (
+                      <button className="px-3 py-1.5 rounded" style={{background:'rgba(239, 68, 68, 0.2)', border:'1px solid #ef4444'}} onClick={()=>deleteCustomDrumPattern(drumDraft.id)}>Excluir</button>
+                    )}
+                  </div>
+                </div>
+                <div style={{ overflowX: 'auto' }}>
+                  {DRUM_VOICE_IDS.map(voice => (
+                    <div key={voice} className="flex items-center gap-1 mb-1">
+                      <span className="text-[10px] shrink-0" style={{color:'#888', width: 96}}>{DRUM_VOICES[voice].name}</span>
+                      {(rows[voice] ?? []).map((vel, i) => (
+                        <button key={i} className="w-5 h-5 rounded shrink-0" title={vel ? `${Math.round(vel * 100)}%` : ''}
+                          style={{ marginLeft: i > 0 && beatStart.includes(i) ? 6 : 0, background: vel ? '#ec4899' : '#0d0d0d', border:'1px solid #555', opacity: vel ? 0.3 + 0.7 * vel : 1 }}
+                          onClick={()=>updateDrumCell(voice, i, DRUM_CELL_LEVELS[(DRUM_CELL_LEVELS.indexOf(vel) + 1) % DRUM_CELL_LEVELS.length])}
+                          onContextMenu={e=>{ e.preventDefault(); updateDrumCell(voice, i, 0); }} />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px]" style={{color:'#777'}}>
+                  Clique alterna acento → normal → fantasma → nada (botão direito limpa). A e B alternam a cada compasso; a virada toca no último compasso da seção ou do loop.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* editor de baixo: um grau por colcheia; "_" = oitava abaixo */}
+          {bassDraft && (() => {
+            const draftMeter = METERS[bassDraft.meter === "any" ? meter : bassDraft.meter];
+            const beatStart = draftMeter.groups.map((_, b) => draftMeter.groups.slice(0, b).reduce((s, n) => s + n, 0));
+            const stepName = (st: BassStep) => st === '-' ? 'pausa' : BASS_DEGREES[st[0] as BassDegree] + (st.endsWith('_') ? ' (oitava abaixo)' : '');
+            return (
+              <div className="mt-4 pt-3 space-y-2" style={{borderTop: '1px solid #333'}}>
+                <div className="flex flex-wrap items-center gap-2 text-xs" style={{color:'#aaa'}}>
+                  <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>Baixo</span>
+                  <input className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', minWidth: 180}} value={bassDraft.label} onChange={e=>setBassDraft({ ...bassDraft, label: e.target.value })} />
+                  <span>{draftMeter.label}</span>
+                  <div className="ml-auto flex gap-2">
+                    <button className="px-3 py-1.5 rounded" style={{background:'#16a34a', color:'#fff'}} onClick={saveBassDraft}>Salvar</button>
+                    {customBassPatterns.some(b => b.id === bassDraft.id) && (
+                      <button className="px-3 py-1.5 rounded" style={{background:'rgba(239, 68, 68, 0.2)', border:'1px solid #ef4444'}} onClick={()=>deleteCustomBassPattern(bassDraft.id)}>Excluir</button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-1" style={{ overflowX: 'auto' }}>
+                  {bassDraft.steps.map((st, i) => (
+                    <div key={i} className="flex flex-col items-center gap-1" style={{ marginLeft: i > 0 && beatStart.includes(i) ? 8 : 0 }}>
+                      <span className="text-[9px]" style={{color:'#666'}}>{beatStart.includes(i) ? beatStart.indexOf(i) + 1 : '·'}</span>
+                      <select className="rounded border p-1 text-xs" title={stepName(st)}
+                        style={{borderColor:'#555', background: st === '-' ? '#0d0d0d' : '#0c4a6e', color:'#e0e0e0'}}
+                        value={st} onChange={e=>setBassDraft({ ...bassDraft, steps: bassDraft.steps.map((x, j) => j === i ? e.target.value as BassStep : x) })}>
+                        {BASS_STEPS.map(opt => <option key={opt} value={opt}>{opt === '-' ? '—' : opt}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px]" style={{color:'#777'}}>
+                  Graus do acorde que soa (terça e sétima seguem a qualidade): {(Object.keys(BASS_DEGREES) as BassDegree[]).map(d => `${d} = ${BASS_DEGREES[d]}`).join(' · ')}. "_" = oitava abaixo; A = meio tom abaixo da fundamental do próximo acorde.
+                </p>
+              </div>
+            );
+          })()}
+
+          {/* afinação (presets ou personalizada, corda a corda) e capotraste */}
+          <div className="mt-4 pt-3 flex flex-wrap items-center gap-3 text-xs" style={{borderTop: '1px solid #333', color:'#aaa'}}>
+            <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>Afinação</span>
+            <select className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={tuningId} onChange={e=>{
+              const id = e.target.value as TuningId;
+              if (id === "custom") setCustomTuning([...tuning]);
+              setTuningId(id);
+            }}>
+              {TUNING_IDS.map(id => <option key={id} value={id}>{id === "custom" ? "Personalizada" : TUNINGS[id].label}</option>)}
+            </select>
+            {tuningId === "custom" && customTuning.map((m, i) => (
+              <select key={i} className="rounded border p-1 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} title={`${6 - i}ª corda`} value={m} onChange={e=>setCustomTuning(t => t.map((x, j) => j === i ? Number(e.target.value) : x))}>
+                {Array.from({ length: 13 }, (_, k) => TUNING_MIDI[i] - 6 + k).map(n => <option key={n} value={n}>{midiNoteName(n)}</option>)}
+              </select>
+            ))}
+            <span style={{textTransform:'uppercase', letterSpacing:'1.5px', fontWeight:700, fontSize:'10px', color:'#999'}}>Capotraste</span>
+            <select className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={capo} onChange={e=>setCapo(Number(e.target.value))}>
+              {Array.from({ length: MAX_CAPO + 1 }, (_, c) => <option key={c} value={c}>{c === 0 ? 'Sem capo' : `Casa ${c}`}</option>)}
+            </select>
+            <span style={{color:'#666'}}>Soando: {strings.map(midiNoteName).join(' ')}</span>
+          </div>
         </section>
 
-        {/* Mixer - Faders */}
+        {/* Transporte - andamento, swing, duração das notas */}
         <section className="p-4 sm:p-6 rounded-xl" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
           <div className="mb-4 pb-3" style={{borderBottom: '1px solid #333'}}>
-            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>FADERS & CONTROLS</h3>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>TRANSPORT</h3>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 sm:gap-8">
             <div className="flex flex-col items-center">
-              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #f59e0b'}}>
-                INST VOLUME
+              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #eab308'}}>
+                TEMPO
               </label>
-              <div className="mb-3 text-center">
-                <span className="text-4xl font-mono font-bold" style={{color:'#f59e0b'}}>{Math.round(instrumentVolume * 100)}</span>
+              <div className="mb-3 flex items-center gap-2">
+                <button onClick={()=>setBpm(b=>clampBpm(b-1))} className="px-2 py-1 rounded" style={{background:'#0d0d0d', border:'1px solid #555', color:'#ccc'}}>−</button>
+                <input
+                  type="number"
+                  min={BPM_MIN}
+                  max={BPM_MAX}
+                  value={bpm}
+                  onChange={e=>{ const v = Number(e.target.value); if (Number.isFinite(v) && v > 0) setBpm(clampBpm(v)); }}
+                  className="w-24 text-center text-4xl font-mono font-bold rounded"
+                  style={{background:'transparent', color:'#eab308', border:'none'}}
+                />
+                <button onClick={()=>setBpm(b=>clampBpm(b+1))} className="px-2 py-1 rounded" style={{background:'#0d0d0d', border:'1px solid #555', color:'#ccc'}}>+</button>
               </div>
               <input
                 type="range"
-                min="0"
-                max="4"
-                step="0.1"
-                value={instrumentVolume}
-                onChange={e=>setInstrumentVolume(parseFloat(e.target.value))}
+                min={BPM_MIN}
+                max={BPM_MAX}
+                step="1"
+                value={bpm}
+                onChange={e=>setBpm(clampBpm(parseFloat(e.target.value)))}
                 className="w-full"
-                style={{accentColor:'#f59e0b', height:'6px'}}
+                style={{accentColor:'#eab308', height:'6px'}}
               />
+              <button
+                onClick={tap}
+                className="mt-3 w-full px-5 py-3 rounded font-bold text-sm"
+                style={{background:'linear-gradient(180deg, #eab308 0%, #a16207 100%)', color:'#000', border:'1px solid #eab308', textTransform:'uppercase', letterSpacing:'1px'}}
+              >
+                TAP
+              </button>
             </div>
             <div className="flex flex-col items-center">
-              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #10b981'}}>
-                DRUMS VOLUME
+              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #f97316'}}>
+                SWING
               </label>
               <div className="mb-3 text-center">
-                <span className="text-4xl font-mono font-bold" style={{color:'#10b981'}}>{Math.round(drumVolume * 100)}</span>
+                <span className="text-4xl font-mono font-bold" style={{color:'#f97316'}}>{Math.round(swing * 100)}</span>
+                <span className="text-sm" style={{color:'#666'}}>%</span>
               </div>
               <input
                 type="range"
                 min="0"
-                max="1"
-                step="0.05"
-                value={drumVolume}
-                onChange={e=>setDrumVolume(parseFloat(e.target.value))}
+                max="0.5"
+                step="0.01"
+                value={swing}
+                onChange={e=>setSwing(parseFloat(e.target.value))}
                 className="w-full"
-                style={{accentColor:'#10b981', height:'6px'}}
+                style={{accentColor:'#f97316', height:'6px'}}
               />
+              <div className="flex justify-between text-xs mt-2 w-full" style={{color:'#555'}}>
+                <span>STRAIGHT</span>
+                <span>SHUFFLE</span>
+              </div>
+              <select className="mt-2 rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={swingGrid} onChange={e=>setSwingGrid(e.target.value as SwingGrid)}>
+                {(Object.keys(SWING_GRIDS) as SwingGrid[]).map(g => <option key={g} value={g}>{SWING_GRIDS[g]}</option>)}
+              </select>
             </div>
             <div className="flex flex-col items-center">
-              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #0ea5e9'}}>
-                BASS VOLUME
+              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #14b8a6'}}>
+                NOTE LENGTH
               </label>
               <div className="mb-3 text-center">
-                <span className="text-4xl font-mono font-bold" style={{color:'#0ea5e9'}}>{Math.round(bassVolume * 100)}</span>
+                <span className="text-4xl font-mono font-bold" style={{color:'#14b8a6'}}>{Math.round(sustain * 1000)}</span>
+                <span className="text-sm" style={{color:'#666'}}>ms</span>
               </div>
               <input
                 type="range"
-                min="0"
-                max="1"
-                step="0.05"
-                value={bassVolume}
-                onChange={e=>setBassVolume(parseFloat(e.target.value))}
+                min="0.05"
+                max="1.5"
+                step="0.01"
+                value={sustain}
+                onChange={e=>setSustain(parseFloat(e.target.value))}
                 className="w-full"
-                style={{accentColor:'#0ea5e9', height:'6px'}}
+                style={{accentColor:'#14b8a6', height:'6px'}}
               />
+              <div className="flex justify-between text-xs mt-2 w-full" style={{color:'#555'}}>
+                <span>STACCATO</span>
+                <span>LEGATO</span>
+              </div>
+            </div>
+            <div className="flex flex-col items-center">
+              <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #a855f7'}}>
+                TEMPO RAMP
+              </label>
+              <label className="flex items-center justify-center gap-2 text-xs mb-3" style={{color:'#aaa'}}>
+                <input type="checkbox" className="w-3 h-3" checked={tempoRamp.enabled} onChange={e=>setTempoRamp(r=>({ ...r, enabled: e.target.checked }))} />
+                ENABLE
+              </label>
+              <div className="grid grid-cols-[1fr_auto] gap-x-2 gap-y-2 items-center text-xs w-full" style={{color:'#777'}}>
+                <span>+BPM</span>
+                <input type="number" min={1} max={20} value={tempoRamp.stepBpm} onChange={e=>setTempoRamp(r=>({ ...r, stepBpm: Math.max(1, Number(e.target.value) || 1) }))} className="w-16 rounded p-1 text-center" style={{background:'#0d0d0d', border:'1px solid #555', color:'#e0e0e0'}} />
+                <span>A CADA N LOOPS</span>
+                <input type="number" min={1} max={32} value={tempoRamp.everyLoops} onChange={e=>setTempoRamp(r=>({ ...r, everyLoops: Math.max(1, Number(e.target.value) || 1) }))} className="w-16 rounded p-1 text-center" style={{background:'#0d0d0d', border:'1px solid #555', color:'#e0e0e0'}} />
+                <span>ATÉ (BPM)</span>
+                <input type="number" min={BPM_MIN} max={BPM_MAX} value={tempoRamp.targetBpm} onChange={e=>setTempoRamp(r=>({ ...r, targetBpm: clampBpm(Number(e.target.value) || bpm) }))} className="w-16 rounded p-1 text-center" style={{background:'#0d0d0d', border:'1px solid #555', color:'#e0e0e0'}} />
+              </div>
             </div>
+          </div>
+        </section>
+
+        {/* Mixer - Faders */}
+        <section className="p-4 sm:p-6 rounded-xl" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
+          <div className="mb-4 pb-3" style={{borderBottom: '1px solid #333'}}>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>FADERS & CONTROLS</h3>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-6 sm:gap-8">
+            <ChannelStrip label="GUITAR" color="#f59e0b" max={4} step={0.1} settings={mixer.guitar} onChange={p=>setBus("guitar", p)} />
+            <ChannelStrip label="BASS" color="#0ea5e9" max={1} step={0.05} settings={mixer.bass} onChange={p=>setBus("bass", p)} />
+            <ChannelStrip label="DRUMS" color="#10b981" max={1} step={0.05} settings={mixer.drums} onChange={p=>setBus("drums", p)} />
+            <ChannelStrip label="CLICK" color="#e11d48" max={1} step={0.05} settings={mixer.click} onChange={p=>setBus("click", p)}>
+              <label className="flex items-center justify-center gap-2 text-xs mt-2" style={{color:'#aaa'}}>
+                <input type="checkbox" className="w-3 h-3" checked={clickEnabled} onChange={e=>setClickEnabled(e.target.checked)} />
+                METRÔNOMO
+              </label>
+            </ChannelStrip>
             <div className="flex flex-col items-center">
               <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #8b5cf6'}}>
                 STRUM SPEED
@@ -1512,7 +1579,7 @@ export default function App() {
           </div>
         </section>
 
-        {/* Mixer - FX */}
+        {/* Mixer - FX (retorno do reverb compartilhado) */}
         <section className="p-4 sm:p-6 rounded-xl" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
           <div className="mb-4 pb-3" style={{borderBottom: '1px solid #333'}}>
             <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>EFFECTS</h3>
@@ -1520,7 +1587,7 @@ export default function App() {
           <div className="grid grid-cols-1 gap-6 sm:gap-8">
             <div className="flex flex-col items-center">
               <label className="block mb-3 pb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700', borderBottom:'2px solid #06b6d4'}}>
-                REVERB MIX
+                REVERB RETURN
               </label>
               <div className="mb-3 text-center">
                 <span className="text-4xl font-mono font-bold" style={{color:'#06b6d4'}}>{Math.round(reverbMix * 100)}</span>
@@ -1556,14 +1623,26 @@ export default function App() {
                 <div className="flex gap-3">
                   <div className="flex-1">
                     <label className="block mb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700'}}>ACORDE</label>
-                    <select className="w-full rounded border p-3 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={chordKey} onChange={(e)=>{setChordKey(e.target.value); setVariantIdx(0);}}>
-                      {CHORD_KEYS.map(k => <option key={k} value={k}>{CHORDS[k].name}</option>)}
+                    <div className="flex gap-2">
+                      <select className="w-[72px] rounded border p-3 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} title="Raiz" value={parseChordSymbol(chordKey).root} onChange={(e)=>{setChordKey(withRoot(chordKey, e.target.value)); setVariantIdx(0);}}>
+                        {CHROMA.map(n => <option key={n} value={n}>{spellPc(toIndex(n), key)}</option>)}
+                      </select>
+                      <select className="flex-1 min-w-0 rounded border p-3 text-base font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} title={chordName(chordKey)} value={parseChordSymbol(chordKey).qual} onChange={(e)=>{setChordKey(withQuality(chordKey, e.target.value as ChordQualityId)); setVariantIdx(0);}}>
+                        {QUALITY_IDS.map(q => <option key={q} value={q}>{CHORD_QUALITIES[q].name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <div style={{width: 72}}>
+                    <label className="block mb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700'}}>BAIXO</label>
+                    <select className="w-full rounded border p-3 font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={parseChordSymbol(chordKey).bass ?? ""} onChange={(e)=>{setChordKey(withBass(chordKey, e.target.value)); setVariantIdx(0);}}>
+                      <option value="">—</option>
+                      {CHROMA.map(n => <option key={n} value={n}>/{spellPc(toIndex(n), key)}</option>)}
                     </select>
                   </div>
                   <div className="flex-1">
                     <label className="block mb-2 text-center" style={{color:'#999', textTransform:'uppercase', fontSize:'10px', letterSpacing:'1.5px', fontWeight:'700'}}>VOICING</label>
                     <select className="w-full rounded border p-3 font-medium" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}} value={variantIdx} onChange={(e)=>setVariantIdx(Number(e.target.value))}>
-                      {CHORDS[chordKey].variants.map((v,i)=> <option key={i} value={i}>{v.label.split(' ')[0]}</option>)}
+                      {chordEntry(chordKey, tuning).variants.map((v,i)=> <option key={i} value={i}>{v.label.split(' ')[0]}</option>)}
                     </select>
                   </div>
                 </div>
@@ -1597,11 +1676,169 @@ export default function App() {
 
               <div className="flex flex-col items-center justify-center mx-auto lg:mx-0">
                 <div style={{maxWidth: '140px', width: '100%'}}>
-                  <Fretboard shape={currentVoicing.shape} fingers={currentVoicing.fingers} barre={currentVoicing.barre} />
+                  <Fretboard shape={currentVoicing.shape} fingers={currentVoicing.fingers} barre={currentVoicing.barre} capo={capo} tuning={tuning} />
                 </div>
                 <p style={{fontSize:11, textAlign:'center', marginTop:8, color:'#475569'}}>
-                  {CHORDS[chordKey].name} · {CHORDS[chordKey].variants[variantIdx].label}
+                  {chordEntry(chordKey, tuning).name} · {currentVoicing.label}
                 </p>
+                {soundsAs(chordKey, variantIdx) && (
+                  <p style={{fontSize:11, textAlign:'center', color:'#a5b4fc'}}>Forma {getChordDisplaySymbol(chordKey, key)} · soa {soundsAs(chordKey, variantIdx)}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* BIBLIOTECA: salvar / carregar / exportar / compartilhar */}
+        <section className="space-y-3 p-6 rounded-lg" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
+          <div className="mb-4 pb-3 flex items-center justify-between" style={{borderBottom: '1px solid #333'}}>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>LIBRARY</h3>
+            {libraryMsg && <span className="text-xs" style={{color:'#aaa'}}>{libraryMsg}</span>}
+          </div>
+
+          <div className="flex gap-2 flex-wrap items-center text-xs">
+            <input className="rounded border p-1.5 text-xs" style={{background:'#0d0d0d', borderColor:'#555', color:'#e0e0e0', minWidth: 180}} value={songTitle} onChange={e=>setSongTitle(e.target.value)} placeholder="Título da música" />
+            <button className="px-3 py-1.5 rounded" style={{background:'#4f46e5', color:'#fff'}} onClick={()=>saveToLibrary(false)}>💾 Salvar</button>
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>saveToLibrary(true)}>Salvar como cópia</button>
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={exportJson}>⬇ Exportar JSON</button>
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>importInputRef.current?.click()}>⬆ Importar JSON</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; if (f) importJson(f); e.target.value = ""; }} />
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={copyShareLink}>🔗 Copiar link</button>
+            <span style={{color:'#555'}}>|</span>
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>chordProInputRef.current?.click()} title="Folha de acordes ChordPro: um compasso por acorde">⬆ Importar ChordPro</button>
+            <input ref={chordProInputRef} type="file" accept=".cho,.chopro,.chordpro,.crd,.pro,.txt" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; if (f) importChordPro(f); e.target.value = ""; }} />
+            <button className="px-2 py-1.5 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={exportChordPro}>⬇ Exportar ChordPro</button>
+          </div>
+
+          {library.length === 0 ? (
+            <div className="text-xs" style={{color:'#666'}}>Nenhuma música salva ainda.</div>
+          ) : (
+            <div className="grid gap-1">
+              {library.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2 text-xs px-2 py-1 rounded" style={{background: entry.id === libraryId ? '#1e1b4b' : '#1a1a1a', border:'1px solid #333'}}>
+                  <button className="flex-1 text-left truncate" onClick={()=>loadFromLibrary(entry)} title="Carregar">
+                    <span style={{fontWeight: 600}}>{entry.title}</span>
+                    <span style={{color:'#777'}}> · {entry.doc.key} · {entry.doc.transport.bpm} BPM · {entry.doc.transport.meter} · {new Date(entry.updatedAt).toLocaleString()}</span>
+                  </button>
+                  <button className="px-2 py-0.5 rounded" style={{background:'#0d0d0d', border:'1px solid #333'}} onClick={()=>renameInLibrary(entry.id)}>Renomear</button>
+                  <button className="px-2 py-0.5 rounded" style={{background:'#0d0d0d', border:'1px solid #333'}} onClick={()=>duplicateInLibrary(entry.id)}>Duplicar</button>
+                  <button className="px-2 py-0.5 rounded" style={{background:'#0d0d0d', border:'1px solid #7f1d1d', color:'#fca5a5'}} onClick={()=>deleteFromLibrary(entry.id)}>✕</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* EXPORTAR: acompanhamento renderizado offline */}
+        <section className="space-y-3 p-6 rounded-lg" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
+          <div className="mb-4 pb-3 flex items-center justify-between" style={{borderBottom: '1px solid #333'}}>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>EXPORT</h3>
+            {exportMsg && <span className="text-xs" style={{color:'#fca5a5'}}>{exportMsg}</span>}
+          </div>
+          <div className="flex gap-3 flex-wrap items-center text-xs">
+            <label className="flex items-center gap-2">
+              Voltas
+              <input type="number" min={1} max={16} value={exportLoops} onChange={e=>setExportLoops(Math.max(1, Math.min(16, Number(e.target.value) || 1)))} className="w-16 rounded p-1 text-center" style={{background:'#0d0d0d', border:'1px solid #555', color:'#e0e0e0'}} />
+            </label>
+            <span style={{color:'#777'}}>{loopSectionId ? `Seção ${song.sections.find(x => x.id === loopSectionId)?.name ?? ''}` : 'Arranjo completo'} · {bpm} BPM · {meter}</span>
+            <button className="px-3 py-1.5 rounded" style={{background:'#4f46e5', color:'#fff'}} onClick={exportMidi} title="Violão, baixo e bateria GM em faixas separadas, com tempo, compasso e marcadores de seção">🎹 Exportar MIDI</button>
+          </div>
+          <div className="flex gap-3 flex-wrap items-center text-xs">
+            <label className="flex items-center gap-2">
+              WAV
+              <select className="rounded border p-1 text-xs" value={wavBits} onChange={e=>setWavBits(Number(e.target.value) as WavBitDepth)}>
+                <option value={16}>16-bit</option>
+                <option value={24}>24-bit</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Contagem
+              <select className="rounded border p-1 text-xs" value={countInBars} onChange={e=>setCountInBars(Number(e.target.value))}>
+                <option value={0}>Sem contagem</option>
+                <option value={1}>1 compasso</option>
+                <option value={2}>2 compassos</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={wavStems} onChange={e=>setWavStems(e.target.checked)} />
+              Stems (violão, baixo, bateria)
+            </label>
+            <button className="px-3 py-1.5 rounded" style={{background: rendering ? '#333' : '#4f46e5', color:'#fff'}} disabled={rendering !== null} onClick={exportWav}>
+              {rendering ?? '🎧 Exportar WAV'}
+            </button>
+          </div>
+        </section>
+
+        {/* MÚSICA: seções + arranjo */}
+        <section className="space-y-3 p-6 rounded-lg" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
+          <div className="mb-4 pb-3 flex items-center justify-between" style={{borderBottom: '1px solid #333'}}>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>SONG</h3>
+            {isPlayingSequence && playPos && (
+              <span className="text-xs px-3 py-1 rounded" style={{background:'#16a34a', color:'#000', fontWeight:'700', letterSpacing:'1px'}}>
+                {song.sections.find(sec => sec.id === playPos.sectionId)?.name ?? '—'}
+                {' '}({playPos.repeat + 1}/{playOrder(song, loopSectionId, section.id)[playPos.arrIdx]?.repeats ?? 1}) · COMPASSO {playPos.bar + 1}
+              </span>
+            )}
+          </div>
+
+          {/* seções: escolher qual editar, renomear, duplicar, remover, loop de estudo */}
+          <div>
+            <label className="block text-xs font-medium mb-1">Seções</label>
+            <div className="flex gap-2 flex-wrap items-center">
+              {song.sections.map(sec => (
+                <button
+                  key={sec.id}
+                  className="px-3 py-1.5 rounded-xl text-xs"
+                  style={{background: sec.id === section.id ? '#4f46e5' : '#0d0d0d', color: sec.id === section.id ? '#fff' : '#ccc', border: `1px solid ${playPos?.sectionId === sec.id ? '#16a34a' : '#555'}`}}
+                  onClick={()=>setEditingSectionId(sec.id)}
+                >
+                  {sec.name}
+                  {loopSectionId === sec.id && ' 🔁'}
+                </button>
+              ))}
+              <select className="rounded-xl border p-1.5 text-xs" value="" onChange={e=>{ if (e.target.value) addSection(e.target.value); }}>
+                <option value="">+ Seção</option>
+                {SECTION_NAMES.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div className="flex gap-2 flex-wrap items-center mt-2 text-xs">
+              <input className="rounded border p-1.5 text-xs" style={{background:'#0d0d0d', borderColor:'#555', color:'#e0e0e0'}} value={section.name} onChange={e=>updateSection(section.id, { name: e.target.value })} />
+              <button className="px-2 py-1 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>setLoopSectionId(loopSectionId === section.id ? null : section.id)}>
+                {loopSectionId === section.id ? 'Sair do loop' : '🔁 Loop desta seção'}
+              </button>
+              <button className="px-2 py-1 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>updateArrangement(arr => [...arr, { sectionId: section.id, repeats: 1 }])}>+ No arranjo</button>
+              <button className="px-2 py-1 rounded" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>duplicateSection(section.id)}>Duplicar</button>
+              <button className="px-2 py-1 rounded disabled:opacity-30" disabled={song.sections.length <= 1} style={{background:'rgba(239, 68, 68, 0.2)', border: '1px solid #ef4444'}} onClick={()=>removeSection(section.id)}>Remover</button>
+            </div>
+          </div>
+
+          {/* arranjo: linha do tempo (largura ∝ compassos × repetições); clique salta para a entrada */}
+          <div>
+            <label className="block text-xs font-medium mb-1">Arranjo</label>
+            <div className="w-full" style={{ overflowX: 'auto' }}>
+              <div className="flex gap-1 min-w-full" style={{ paddingBottom: 6 }}>
+                {song.arrangement.map((entry, i) => {
+                  const sec = song.sections.find(x => x.id === entry.sectionId);
+                  if (!sec) return null;
+                  const bars = sequenceTimeline(sec.items, METERS[meter]).bars;
+                  const active = isPlayingSequence && !loopSectionId && playPos?.arrIdx === i;
+                  return (
+                    <div key={i} className="rounded-lg p-2 text-xs" style={{ minWidth: Math.max(110, 18 * bars * entry.repeats), background: active ? '#16a34a' : '#0d0d0d', color: active ? '#000' : '#ccc', border: `1px solid ${sec.id === section.id ? '#4f46e5' : '#555'}` }}>
+                      <button className="w-full text-left font-bold" style={{background:'transparent', padding:0, color:'inherit'}} onClick={()=>jumpToArrangement(i)} title="Tocar a partir daqui">
+                        {sec.name}
+                      </button>
+                      <div className="opacity-70">{bars} comp.</div>
+                      <div className="flex items-center gap-1 mt-1">
+                        ×<input type="number" min={1} max={16} value={entry.repeats} className="w-10 rounded text-center" style={{background:'#1a1a1a', color:'#e0e0e0', border:'1px solid #333'}}
+                          onChange={e=>{ const v = Math.max(1, Number(e.target.value) || 1); updateArrangement(arr => { arr[i] = { ...arr[i], repeats: v }; return arr; }); }} />
+                        <button className="px-1" style={{background:'transparent'}} disabled={i === 0} onClick={()=>updateArrangement(arr => { [arr[i-1], arr[i]] = [arr[i], arr[i-1]]; return arr; })}>◀</button>
+                        <button className="px-1" style={{background:'transparent'}} disabled={i === song.arrangement.length - 1} onClick={()=>updateArrangement(arr => { [arr[i], arr[i+1]] = [arr[i+1], arr[i]]; return arr; })}>▶</button>
+                        <button className="px-1" style={{background:'transparent', color:'#ef4444'}} onClick={()=>updateArrangement(arr => arr.filter((_, j) => j !== i))}>✕</button>
+                      </div>
+                    </div>
+                  );
+                })}
+                {song.arrangement.length === 0 && <span className="text-xs" style={{color:'#777'}}>Arranjo vazio: toca a seção selecionada.</span>}
               </div>
             </div>
           </div>
@@ -1610,7 +1847,7 @@ export default function App() {
         {/* SEQUÊNCIA DE ACORDES */}
         <section className="space-y-3 p-6 rounded-lg" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: isPlayingSequence ? '3px solid #16a34a' : '2px solid #1a1a1a'}}>
           <div className="mb-4 pb-3 flex items-center justify-between" style={{borderBottom: '1px solid #333'}}>
-            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>CHORD SEQUENCE</h3>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>CHORD SEQUENCE · {section.name}</h3>
             {isPlayingSequence && <span className="text-xs px-3 py-1 rounded" style={{background:'#16a34a', color:'#000', fontWeight:'700', letterSpacing:'1px'}}>PLAYING</span>}
           </div>
 
@@ -1618,16 +1855,74 @@ export default function App() {
             <div>
               <label className="block text-xs font-medium mb-1">Tonalidade</label>
               <select className="w-full rounded-xl border p-3 text-base" value={key} onChange={(e)=>handleKeyChange(e.target.value)}>
-                {["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"].map(k => <option key={k} value={k}>{k}</option>)}
+                <optgroup label="Maiores">
+                  {MAJOR_KEYS.map(k => <option key={k} value={k}>{k} maior</option>)}
+                </optgroup>
+                <optgroup label="Menores">
+                  {MINOR_KEYS.map(k => <option key={k} value={k}>{k.slice(0, -1)} menor</option>)}
+                </optgroup>
               </select>
             </div>
             <div>
               <label className="block text-xs font-medium mb-1">Progressão (preset)</label>
               <select className="w-full rounded-xl border p-3 text-base" value={progression} onChange={(e)=>handleProgressionChange(e.target.value)}>
                 {Object.entries(PROGRESSIONS).map(([k, v]) => <option key={k} value={k}>{v.name}</option>)}
+                {customProgressions.length > 0 && (
+                  <optgroup label="Meus presets">
+                    {customProgressions.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium mb-1">Graus (ex.: I vi ii V7 · bVII · V7/V · iiø7)</label>
+            <div className="flex gap-2 flex-wrap items-center">
+              <input className="flex-1 rounded-xl border p-2 text-sm font-mono" style={{minWidth: 200}} value={romanText} onChange={e=>setRomanText(e.target.value)} onKeyDown={e=>{ if (e.key === "Enter") applyRoman(); }} />
+              <button className="px-3 py-2 rounded-xl text-xs" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>applyRoman()}>Aplicar</button>
+              <button className="px-3 py-2 rounded-xl text-xs" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={saveRomanPreset}>Salvar preset</button>
+              {progression.startsWith(CUSTOM_PREFIX) && (
+                <button className="px-3 py-2 rounded-xl text-xs" style={{background:'rgba(239, 68, 68, 0.2)', border:'1px solid #ef4444'}} onClick={deleteRomanPreset}>Excluir preset</button>
+              )}
+            </div>
+            {romanError && <p className="text-xs mt-1" style={{color:'#f87171'}}>{romanError}</p>}
+          </div>
+
+          {/* transpor (mantém as edições) e capo sugerido para o tom que deve soar */}
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium mb-1">Transpor (semitons)</label>
+              <div className="flex gap-2 items-center">
+                <select className="flex-1 rounded-xl border p-2 text-sm" value={transposeBy} onChange={e=>setTransposeBy(Number(e.target.value))}>
+                  {Array.from({ length: 23 }, (_, i) => i - 11).filter(n => n !== 0).map(n => (
+                    <option key={n} value={n}>{n > 0 ? `+${n}` : n} → {transposeKeyId(key, n)}</option>
+                  ))}
+                </select>
+                <button className="px-3 py-2 rounded-xl text-xs" style={{background:'#1a1a1a', border:'1px solid #333'}} onClick={()=>transposeSong(transposeBy)}>Transpor</button>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">Capo sugerido para soar em</label>
+              <select className="w-full rounded-xl border p-2 text-sm" value={soundingKey} onChange={e=>setCapoTarget(e.target.value)}>
+                <optgroup label="Maiores">
+                  {MAJOR_KEYS.map(k => <option key={k} value={k}>{k} maior</option>)}
+                </optgroup>
+                <optgroup label="Menores">
+                  {MINOR_KEYS.map(k => <option key={k} value={k}>{k.slice(0, -1)} menor</option>)}
+                </optgroup>
               </select>
             </div>
           </div>
+          <div className="flex gap-2 flex-wrap">
+            {capoSuggestions.map(s => (
+              <button key={s.capo} className="px-3 py-1.5 rounded-lg text-xs" title={`${s.barres} pestana(s), custo ${s.cost}`}
+                style={{background: s.capo === capo && s.shift === 0 ? '#4f46e5' : '#1a1a1a', border:'1px solid #333', color:'#e0e0e0'}}
+                onClick={()=>applyCapoSuggestion(s)}>
+                {s.capo === 0 ? 'Sem capo' : `Capo ${s.capo}`} · formas de {s.keyId} · {s.barres} pestana{s.barres === 1 ? '' : 's'}
+              </button>
+            ))}
+          </div>
 
           <div className="flex items-center gap-2 flex-wrap">
             <label className="text-xs flex items-center gap-2">
@@ -1636,12 +1931,12 @@ export default function App() {
             </label>
             <div className="ml-auto flex gap-2">
               <button
-                onClick={handlePlaySequence}
+                onClick={()=>handlePlaySequence()}
                 disabled={isPlayingSingle}
                 className="px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-50"
                 style={{background:'#16a34a',color:'#fff', boxShadow:'0 2px 6px rgba(22,163,74,.3)'}}
               >
-                {isPlayingSequence ? '🔄 Tocando...' : '▶️ Tocar Sequência'}
+                {isPlayingSequence ? '🔄 Tocando...' : loopSectionId ? '▶️ Tocar Seção' : '▶️ Tocar Música'}
               </button>
               <button
                 onClick={handleStopSequence}
@@ -1654,68 +1949,97 @@ export default function App() {
             </div>
           </div>
 
-          {/* Fretboard da sequência */}
-          {isPlayingSequence && currentBar >= 0 && currentBar < sequence.length && (
-            <div className="p-4 rounded-xl flex flex-col items-center" style={{background:'#e0e7ff', border:'2px solid #4f46e5'}}>
-              <div className="text-sm font-medium mb-2 text-center">
-                Acorde atual: {getChordDisplaySymbol(sequence[currentBar].key)} (Compasso {currentBar + 1})
-              </div>
-              <div style={{maxWidth: '140px', width: '100%'}}>
-                <Fretboard
-                  shape={CHORDS[sequence[currentBar].key].variants[Math.min(sequence[currentBar].varIdx, CHORDS[sequence[currentBar].key].variants.length-1)].shape}
-                  fingers={CHORDS[sequence[currentBar].key].variants[Math.min(sequence[currentBar].varIdx, CHORDS[sequence[currentBar].key].variants.length-1)].fingers}
-                  barre={CHORDS[sequence[currentBar].key].variants[Math.min(sequence[currentBar].varIdx, CHORDS[sequence[currentBar].key].variants.length-1)].barre}
-                />
+          {/* Fretboard da sequência (acorde da seção que está tocando) */}
+          {isPlayingSequence && playPos && (() => {
+            const playingSection = song.sections.find(sec => sec.id === playPos.sectionId);
+            const it = playingSection?.items[playPos.item];
+            if (!playingSection || !it) return null;
+            const entry = chordEntry(it.key, tuning);
+            const voicing = voicingAt(entry, it.varIdx);
+            return (
+              <div className="p-4 rounded-xl flex flex-col items-center" style={{background:'#e0e7ff', border:'2px solid #4f46e5'}}>
+                <div className="text-sm font-medium mb-2 text-center">
+                  Acorde atual: {getChordDisplaySymbol(it.key, key)}{soundsAs(it.key, it.varIdx) && ` (soa ${soundsAs(it.key, it.varIdx)})`} ({playingSection.name} · Compasso {playPos.bar + 1})
+                </div>
+                <div style={{maxWidth: '140px', width: '100%'}}>
+                  <Fretboard shape={voicing.shape} fingers={voicing.fingers} barre={voicing.barre} capo={capo} tuning={tuning} />
+                </div>
+                <p style={{fontSize:11, textAlign:'center', marginTop:8, color:'#475569'}}>
+                  {entry.name} · {voicing.label}
+                </p>
               </div>
-              <p style={{fontSize:11, textAlign:'center', marginTop:8, color:'#475569'}}>
-                {CHORDS[sequence[currentBar].key].name} · {CHORDS[sequence[currentBar].key].variants[sequence[currentBar].varIdx].label}
-              </p>
-            </div>
-          )}
+            );
+          })()}
 
-          {/* faixa de roots sincronizada */}
+          {/* faixa de roots sincronizada (largura proporcional à duração) */}
           <div className="flex gap-2 flex-wrap items-center text-xs">
             {sequence.map((it, idx) => {
-              const display = getChordDisplaySymbol(it.key);
-              const active = currentBar===idx;
+              const display = getChordDisplaySymbol(it.key, key);
+              const active = currentItem===idx;
+              const newBar = timeline.starts[idx] % barBeats === 0;
               return (
-                <span key={idx} className="px-2 py-1 rounded-full" style={{background: active? '#4f46e5' : '#e2e8f0', color: active? '#fff' : '#0f172a'}}>
+                <span key={idx} className="px-2 py-1 rounded-full text-center" style={{minWidth: 14 * it.beats + 20, background: active? '#4f46e5' : '#e2e8f0', color: active? '#fff' : '#0f172a', borderLeft: newBar ? '3px solid #64748b' : undefined}}>
                   {display}
+                  {it.beats !== barBeats && <sub className="ml-0.5">{it.beats}</sub>}
                 </span>
               );
             })}
           </div>
 
-          <div className="flex justify-end mb-2">
+          <div className="flex justify-between items-center gap-2 mb-2">
+            <span className="text-xs" style={{color:'#888'}}>
+              Análise: tom provável <b style={{color:'#e0e0e0'}}>{analysis.keyId}</b>
+              {(Object.keys(HARMONIC_KINDS) as HarmonicKind[]).map(k => <span key={k} style={{color: HARMONIC_KINDS[k].color, marginLeft: 8}}>● {HARMONIC_KINDS[k].name}</span>)}
+            </span>
             <button
               className="px-3 py-1.5 rounded-xl text-xs"
               style={{background:'#1a1a1a', border: '1px solid #333'}}
-              onClick={()=>setSequence([...sequence, { key: sequence.at(-1)?.key ?? 'C', varIdx: 0, degreeIdx: -1 }])}
+              onClick={()=>setSequence([...sequence, { ...(sequence.at(-1) ?? { key: 'C', varIdx: 0 }), beats: barBeats }])}
             >+ Adicionar compasso</button>
           </div>
 
           <div className="w-full" style={{ overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
             <div className="flex gap-2 min-w-full" style={{ paddingBottom: 8 }}>
               {sequence.map((it, idx) => {
-                const alternatives = it.degreeIdx >= 0 ? getAlternativesForDegree(it.degreeIdx) : [];
+                const alternatives = it.degree ? degreeChords(key, it.degree) : [];
                 const hasAlternatives = alternatives.length > 1;
+                const startBeat = timeline.starts[idx];
+                const startBar = Math.floor(startBeat / barBeats);
+                const endBar = Math.floor((startBeat + it.beats - 1) / barBeats);
+                const active = currentItem===idx;
 
                 return (
-                  <div key={idx} className="rounded-xl border" style={{ minWidth: 240, padding: 10, background: currentBar===idx? '#e0e7ff' : 'rgba(255,255,255,.9)', borderColor: currentBar===idx? '#4f46e5' : '#e5e7eb', boxShadow: currentBar===idx? '0 2px 8px rgba(79,70,229,.25)' : 'none' }}>
+                  <div key={idx} className="rounded-xl border" style={{ minWidth: Math.max(180, 60 * it.beats), padding: 10, background: active? '#e0e7ff' : 'rgba(255,255,255,.9)', borderColor: active? '#4f46e5' : '#e5e7eb', boxShadow: active? '0 2px 8px rgba(79,70,229,.25)' : 'none' }}>
                     <div className="text-[11px] text-neutral-600 mb-2 flex items-center justify-between">
-                      <span>{idx + 1}º compasso</span>
+                      <span>
+                        {startBar + 1}º compasso
+                        {startBeat % barBeats !== 0 && ` · tempo ${startBeat % barBeats + 1}`}
+                        {endBar > startBar && ` → ${endBar + 1}º`}
+                      </span>
                       <span className="px-2 py-0.5 rounded-full text-[10px]" style={{background:'#0d0d0d', border: '1px solid #555', color:'#ccc', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}}>
-                        {getChordDisplaySymbol(it.key)}
+                        <span title={HARMONIC_KINDS[analysis.chords[idx].kind].name} style={{color: HARMONIC_KINDS[analysis.chords[idx].kind].color, marginRight: 4}}>{analysis.chords[idx].label}</span>
+                        {getChordDisplaySymbol(it.key, key)}
                       </span>
                     </div>
 
+                    <div className="mb-2 flex items-center gap-2">
+                      <label className="text-[10px] text-neutral-500">Duração</label>
+                      <select className="flex-1 text-xs" value={it.beats} onChange={(e)=>{ const v = Number(e.target.value); const copy=[...sequence]; copy[idx] = { ...copy[idx], beats:v }; setSequence(copy); }}>
+                        {Array.from({ length: barBeats * 4 }, (_, i) => i + 1).map(b => (
+                          <option key={b} value={b}>
+                            {b % barBeats === 0 ? `${b / barBeats} compasso${b > barBeats ? 's' : ''}` : `${b} tempo${b > 1 ? 's' : ''}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     {hasAlternatives && (
                       <div className="mb-2">
                         <label className="text-[10px] text-neutral-500 block mb-1">Alternativas</label>
                         <div className="flex gap-1 flex-wrap">
                           {alternatives.map((alt, altIdx) => {
                             const altKey = mapSymbolToDictKey(alt);
-                            const isSelected = altKey === it.key;
+                            const isSelected = altIdx === (it.choice ?? 0) && altKey === it.key;
                             return (
                               <button
                                 key={altIdx}
@@ -1726,11 +2050,11 @@ export default function App() {
                                 }}
                                 onClick={() => {
                                   const copy = [...sequence];
-                                  copy[idx] = { ...copy[idx], key: altKey };
+                                  copy[idx] = { ...copy[idx], key: altKey, choice: altIdx, varIdx: 0 };
                                   setSequence(copy);
                                 }}
                               >
-                                {alt}
+                                {getChordDisplaySymbol(alt, key)}
                               </button>
                             );
                           })}
@@ -1738,16 +2062,38 @@ export default function App() {
                       </div>
                     )}
 
+                    {analysis.chords[idx].subs.length > 0 && (
+                      <div className="mb-2">
+                        <label className="text-[10px] text-neutral-500 block mb-1">Substituições</label>
+                        <div className="flex gap-1 flex-wrap">
+                          {analysis.chords[idx].subs.map(sub => (
+                            <button key={sub.name} className="px-2 py-0.5 rounded text-xs" title={sub.name} style={{background:'#fef3c7', color:'#0f172a'}} onClick={()=>applySubstitution(idx, sub)}>
+                              {sub.insert && '+ '}{sub.chords.map(c => getChordDisplaySymbol(c, key)).join(' ')}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex items-center gap-2">
                       {!hasAlternatives && (
-                        <select className="flex-1 text-sm" value={it.key} onChange={(e)=>{ const v = e.target.value; const copy=[...sequence]; copy[idx] = { ...copy[idx], key:v }; setSequence(copy); }}>
-                          {CHORD_KEYS.map(k=> <option key={k} value={k}>{k}</option>)}
-                        </select>
+                        <>
+                          <select className="w-[52px] text-sm" title="Raiz" value={parseChordSymbol(it.key).root} onChange={(e)=>setItemChord(idx, withRoot(it.key, e.target.value))}>
+                            {CHROMA.map(n => <option key={n} value={n}>{spellPc(toIndex(n), key)}</option>)}
+                          </select>
+                          <select className="flex-1 min-w-0 text-sm" title="Qualidade" value={parseChordSymbol(it.key).qual} onChange={(e)=>setItemChord(idx, withQuality(it.key, e.target.value as ChordQualityId))}>
+                            {QUALITY_IDS.map(q => <option key={q} value={q}>{CHORD_QUALITIES[q].display || "maior"}</option>)}
+                          </select>
+                        </>
                       )}
+                      <select className="w-[56px] text-sm" title="Baixo (cifra com barra)" value={parseChordSymbol(it.key).bass ?? ""} onChange={(e)=>setItemChord(idx, withBass(it.key, e.target.value))}>
+                        <option value="">/—</option>
+                        {CHROMA.map(n => <option key={n} value={n}>/{spellPc(toIndex(n), key)}</option>)}
+                      </select>
                       <select className={`${hasAlternatives ? 'flex-1' : 'w-[110px]'} text-sm`} value={it.varIdx} onChange={(e)=>{ const v = Number(e.target.value); const copy=[...sequence]; copy[idx] = { ...copy[idx], varIdx:v }; setSequence(copy); }}>
-                        {CHORDS[(sequence[idx].key in CHORDS ? sequence[idx].key : "C") as keyof typeof CHORDS].variants.map((v,i)=> <option key={i} value={i}>{v.label.split(' ')[0]}</option>)}
+                        {chordEntry(sequence[idx].key, tuning).variants.map((v,i)=> <option key={i} value={i}>{v.label.split(' ')[0]}</option>)}
                       </select>
-                      <button className="text-xs px-2 py-1 rounded" style={{background:'rgba(239, 68, 68, 0.2)', border: '1px solid #ef4444'}} onClick={()=>{ const copy=[...sequence]; copy.splice(idx,1); setSequence(copy.length?copy:[{key:'C',varIdx:0, degreeIdx: 0}]); }}>−</button>
+                      <button className="text-xs px-2 py-1 rounded" style={{background:'rgba(239, 68, 68, 0.2)', border: '1px solid #ef4444'}} onClick={()=>{ const copy=[...sequence]; copy.splice(idx,1); setSequence(copy.length?copy:buildSequenceFromProgression(key, [{ semitones: 0, quality: "" }], barBeats)); }}>−</button>
                     </div>
                   </div>
                 );
@@ -1756,20 +2102,53 @@ export default function App() {
           </div>
         </section>
 
+        {/* BRAÇO INTEIRO: escalas e arpejos para improvisar sobre o acompanhamento */}
+        <section className="space-y-3 p-6 rounded-lg" style={{background:'linear-gradient(180deg, #2d2d2d 0%, #242424 100%)', boxShadow:'inset 0 2px 1px rgba(255,255,255,0.08), 0 4px 12px rgba(0,0,0,0.6)', border: '2px solid #1a1a1a'}}>
+          <div className="mb-4 pb-3 flex items-center justify-between" style={{borderBottom: '1px solid #333'}}>
+            <h3 className="text-xs font-bold tracking-wider" style={{color:'#888', textTransform:'uppercase', letterSpacing:'2px'}}>NECK · SCALES & ARPEGGIOS</h3>
+            {playingChord && <span className="text-xs px-3 py-1 rounded" style={{background:'#16a34a', color:'#000', fontWeight:'700', letterSpacing:'1px'}}>{getChordDisplaySymbol(playingChord, neckKey)}</span>}
+          </div>
+
+          <div className="flex gap-2 flex-wrap items-center">
+            <select className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={neckView} onChange={e=>setNeckView(e.target.value as "scale" | "arpeggio")}>
+              <option value="scale">Escala do tom ({neckKey})</option>
+              <option value="arpeggio">Arpejo do acorde ({getChordDisplaySymbol(arpeggioChord, neckKey)})</option>
+            </select>
+            {neckView === "scale" && (
+              <select className="rounded border p-1.5 text-xs" style={{borderColor:'#555', background:'#0d0d0d', color:'#e0e0e0'}} value={neckScale} onChange={e=>setScaleId(e.target.value as ScaleId)}>
+                {(Object.keys(SCALES) as ScaleId[]).map(id => <option key={id} value={id}>{SCALES[id].name}</option>)}
+              </select>
+            )}
+            <div className="flex gap-1 ml-auto">
+              {([null, "E", "D", "C", "A", "G"] as (CagedShape | null)[]).map(shape => (
+                <button key={shape ?? "all"} className="px-2 py-1 rounded text-xs" style={{background: cagedShape === shape ? '#4f46e5' : '#1a1a1a', border:'1px solid #333', color:'#e0e0e0'}} onClick={()=>setCagedShape(shape)}>
+                  {shape ?? 'Braço todo'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
+            <FullNeck
+              tuning={tuning} capo={capo} rootPc={neck.rootPc}
+              pcs={neck.intervals.map(i => (neck.rootPc + i) % 12)}
+              highlight={playingChord ? parseForAnalysis(playingChord)?.tones : undefined}
+              position={cagedShape} refPc={cagedRefPc(neck.rootPc, neck.intervals)}
+              spell={pc => spellPc(pc, neckKey)}
+            />
+          </div>
+          <p className="text-xs" style={{color:'#777'}}>
+            <span style={{color:'#dc2626'}}>●</span> fundamental · <span style={{color:'#4f46e5'}}>●</span> {neckView === "scale" ? 'notas da escala' : 'notas do acorde'} · <span style={{color:'#16a34a'}}>◯</span> notas do acorde que está tocando
+          </p>
+        </section>
+
         {/* Afinadores */}
         <section className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
           {/* Referência de tom */}
           <div className="p-4 rounded-2xl" style={{background:'linear-gradient(180deg, #353535 0%, #2a2a2a 100%)', boxShadow:'inset 0 1px 0 rgba(255,255,255,0.1), 0 2px 8px rgba(0,0,0,0.5)', border: '1px solid #1a1a1a'}}>
             <div className="flex flex-wrap items-center gap-2">
               <span className="text-sm font-medium mr-2">Afinador (tons de referência)</span>
-              {[
-                {name:'E6 (E2)', mid:40},
-                {name:'A (A2)', mid:45},
-                {name:'D (D3)', mid:50},
-                {name:'G (G3)', mid:55},
-                {name:'B (B3)', mid:59},
-                {name:'e (E4)', mid:64},
-              ].map((s,i)=> (
+              {tuning.map((m, i) => ({ name: `${6 - i}ª (${midiNoteName(m)})`, mid: m })).map((s,i)=> (
                 <button key={i} onClick={()=>startSine(midiToHz(s.mid))} className="px-3 py-2 rounded-xl" style={{background:'#0d0d0d', border: '1px solid #555', color:'#ccc', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}}>{s.name}</button>
               ))}
               <button onClick={stopSine} className="px-3 py-2 rounded-xl" style={{background:'rgba(239, 68, 68, 0.2)', border: '1px solid #ef4444'}}>Parar</button>
@@ -1800,6 +2179,11 @@ export default function App() {
               >
                 {tuner.note}
               </div>
+              {tuner.target && (
+                <div className="text-xs mt-2" style={{color: Math.abs(tuner.target.cents) < 5 ? '#10b981' : '#aaa'}}>
+                  {tuner.target.string}ª corda · alvo {tuner.target.name} · {tuner.target.cents > 0 ? '+' : ''}{tuner.target.cents} cents
+                </div>
+              )}
             </div>
             <div className="grid grid-cols-2 gap-4 mb-3">
               <div className="text-center p-3 rounded-xl" style={{background:'#0d0d0d', border: '1px solid #555', color:'#ccc', boxShadow:'inset 0 2px 4px rgba(0,0,0,0.5)'}}>
@@ -0,0 +1,742 @@
+import { useEffect, useRef, useState } from "react";
+import { parseNotePack, type StoredSample } from "./samples";
+import { midiToHz } from "./theory";
+
+/** ===== Instrumentos ===== */
+export type InstrumentName =
+  | "acoustic_guitar_steel"
+  | "acoustic_guitar_nylon"
+  | "electric_guitar_clean"
+  | "electric_guitar_jazz"
+  | "electric_guitar_muted"
+  | "overdriven_guitar"
+  | "distortion_guitar"
+  | "acoustic_grand_piano"
+  | "modelled_guitar"; // sintetizado localmente (Karplus-Strong), sem amostras
+
+export const INSTRUMENTS: { id: InstrumentName; label: string }[] = [
+  { id: "acoustic_guitar_nylon", label: "Violão Nylon" },
+  { id: "acoustic_guitar_steel", label: "Violão Aço" },
+  { id: "electric_guitar_clean", label: "Guitarra Clean" },
+  { id: "electric_guitar_jazz", label: "Guitarra Jazz" },
+  { id: "electric_guitar_muted", label: "Guitarra Muted" },
+  { id: "overdriven_guitar", label: "Guitarra Overdrive" },
+  { id: "distortion_guitar", label: "Guitarra Distorção" },
+  { id: "acoustic_grand_piano", label: "Piano" },
+  { id: "modelled_guitar", label: "Violão Modelado (sintetizado)" },
+];
+
+/** ===== Engine de áudio: um AudioContext, mixer com buses ===== */
+export type BusName = "guitar" | "bass" | "drums" | "click";
+export const BUS_NAMES: BusName[] = ["guitar", "bass", "drums", "click"];
+export type BusSettings = { gain: number; pan: number; send: number; mute: boolean; solo: boolean };
+export type MixerSettings = Record<BusName, BusSettings>;
+
+export const DEFAULT_MIXER: MixerSettings = {
+  guitar: { gain: 1.5, pan: -0.1, send: 1.0, mute: false, solo: false },
+  bass:   { gain: 0.6, pan: 0,    send: 0.3, mute: false, solo: false },
+  drums:  { gain: 0.7, pan: 0.1,  send: 0.4, mute: false, solo: false },
+  click:  { gain: 0.5, pan: 0,    send: 0,   mute: false, solo: false },
+};
+
+type MixerBus = { input: GainNode; fader: GainNode; panner: StereoPannerNode; send: GainNode };
+type MixerGraph = { ctx: BaseAudioContext; master: GainNode; reverbReturn: GainNode; buses: Record<BusName, MixerBus> };
+
+// bus: input -> fader -> pan -> master, e pós-fader -> send -> reverb (compartilhado) -> return -> master.
+// Funciona com AudioContext e OfflineAudioContext.
+export function createMixerGraph(ctx: BaseAudioContext): MixerGraph {
+  const sampleRate = ctx.sampleRate;
+  const length = sampleRate * 2;
+  const impulse = ctx.createBuffer(2, length, sampleRate);
+  const left = impulse.getChannelData(0);
+  const right = impulse.getChannelData(1);
+  for (let i = 0; i < length; i++) {
+    const decay = Math.pow(1 - i / length, 2);
+    left[i] = (Math.random() * 2 - 1) * decay;
+    right[i] = (Math.random() * 2 - 1) * decay;
+  }
+  const convolver = ctx.createConvolver();
+  convolver.buffer = impulse;
+
+  const master = ctx.createGain();
+  master.gain.value = 1.2;
+  master.connect(ctx.destination);
+  const reverbReturn = ctx.createGain();
+  convolver.connect(reverbReturn);
+  reverbReturn.connect(master);
+
+  const makeBus = (): MixerBus => {
+    const input = ctx.createGain();
+    const fader = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    const send = ctx.createGain();
+    input.connect(fader);
+    fader.connect(panner);
+    panner.connect(master);
+    fader.connect(send);
+    send.connect(convolver);
+    return { input, fader, panner, send };
+  };
+  const buses = Object.fromEntries(BUS_NAMES.map(n => [n, makeBus()])) as Record<BusName, MixerBus>;
+  return { ctx, master, reverbReturn, buses };
+}
+
+export function applyMixerSettings(graph: MixerGraph, mixer: MixerSettings, reverbMix: number) {
+  const now = graph.ctx.currentTime;
+  const anySolo = BUS_NAMES.some(n => mixer[n].solo);
+  for (const n of BUS_NAMES) {
+    const set = mixer[n]; const bus = graph.buses[n];
+    const audible = !set.mute && (!anySolo || set.solo);
+    bus.fader.gain.setTargetAtTime(audible ? set.gain : 0, now, 0.02);
+    bus.panner.pan.setTargetAtTime(set.pan, now, 0.02);
+    bus.send.gain.setTargetAtTime(set.send, now, 0.02);
+  }
+  graph.reverbReturn.gain.setTargetAtTime(reverbMix, now, 0.02);
+}
+
+export function useAudioEngine(mixer: MixerSettings, reverbMix: number) {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const graphRef = useRef<MixerGraph | null>(null);
+
+  const ensure = async () => {
+    if (!ctxRef.current) {
+      const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      ctxRef.current = new AudioCtx({ latencyHint: "interactive" });
+      graphRef.current = createMixerGraph(ctxRef.current);
+      applyMixerSettings(graphRef.current, mixer, reverbMix);
+    }
+    if (ctxRef.current.state !== "running") await ctxRef.current.resume();
+  };
+
+  useEffect(() => {
+    if (graphRef.current) applyMixerSettings(graphRef.current, mixer, reverbMix);
+  }, [mixer, reverbMix]);
+
+  return { ctxRef, graphRef, ensure };
+}
+export type AudioEngine = ReturnType<typeof useAudioEngine>;
+
+/** ===== Drum Sampler (Synthetic) ===== */
+export type DrumSampleName =
+  | "kick" | "snare" | "hihat" | "openhat" | "tomHigh" | "tomMid" | "tomLow"
+  | "rim" | "clap" | "ride" | "crash" | "shaker" | "cowbell"
+  | "surdo" | "pandeiro" | "tamborim" | "zabumba" | "triangulo" | "agogo";
+// nome no editor (de cima para baixo) e nível de um toque com velocidade 1
+export const DRUM_VOICES: Record<DrumSampleName, { name: string; level: number }> = {
+  crash:   { name: "Prato de ataque", level: 0.6 },
+  ride:    { name: "Condução",        level: 0.5 },
+  openhat: { name: "Chimbal aberto",  level: 0.6 },
+  hihat:   { name: "Chimbal",         level: 0.5 },
+  shaker:  { name: "Ganzá",           level: 0.4 },
+  cowbell: { name: "Cowbell",         level: 0.5 },
+  agogo:   { name: "Agogô",           level: 0.5 },
+  triangulo: { name: "Triângulo",     level: 0.4 },
+  tamborim: { name: "Tamborim",       level: 0.6 },
+  pandeiro: { name: "Pandeiro",       level: 0.6 },
+  clap:    { name: "Palmas",          level: 0.6 },
+  rim:     { name: "Aro",             level: 0.6 },
+  snare:   { name: "Caixa",           level: 0.7 },
+  tomHigh: { name: "Tom agudo",       level: 0.7 },
+  tomMid:  { name: "Tom médio",       level: 0.7 },
+  tomLow:  { name: "Tom grave",       level: 0.8 },
+  zabumba: { name: "Zabumba",         level: 0.9 },
+  surdo:   { name: "Surdo",           level: 0.9 },
+  kick:    { name: "Bumbo",           level: 0.9 },
+};
+export const DRUM_VOICE_IDS = Object.keys(DRUM_VOICES) as DrumSampleName[];
+
+const noiseBuffer = (ctx: BaseAudioContext, seconds: number) => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * seconds, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+// Ruído filtrado com envelope exponencial (snare/hihats)
+function synthNoiseHit(ctx: BaseAudioContext, dest: AudioNode, time: number, seconds: number, hpHz: number, gain: number) {
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer(ctx, seconds);
+  const gainNode = ctx.createGain();
+  const filter = ctx.createBiquadFilter();
+  filter.type = "highpass";
+  filter.frequency.value = hpHz;
+  gainNode.gain.setValueAtTime(gain, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, time + seconds);
+  noise.connect(filter);
+  filter.connect(gainNode);
+  gainNode.connect(dest);
+  noise.start(time);
+  noise.stop(time + seconds);
+}
+
+// Oscilador com glissando e envelope exponencial (tons, aro, cowbell)
+function synthToneHit(ctx: BaseAudioContext, dest: AudioNode, time: number, seconds: number, fromHz: number, toHz: number, gain: number, type: OscillatorType = "sine") {
+  const osc = ctx.createOscillator();
+  const gainNode = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(fromHz, time);
+  osc.frequency.exponentialRampToValueAtTime(toHz, time + seconds);
+  gainNode.gain.setValueAtTime(gain, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + seconds);
+  osc.connect(gainNode);
+  gainNode.connect(dest);
+  osc.start(time);
+  osc.stop(time + seconds);
+}
+
+export function synthDrum(ctx: BaseAudioContext, dest: AudioNode, sampleName: DrumSampleName, time: number, gain = 0.8) {
+  if (sampleName === "kick") {
+    const osc = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+    osc.frequency.setValueAtTime(150, time);
+    osc.frequency.exponentialRampToValueAtTime(0.01, time + 0.5);
+    gainNode.gain.setValueAtTime(gain, time);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, time + 0.5);
+    osc.connect(gainNode);
+    gainNode.connect(dest);
+    osc.start(time);
+    osc.stop(time + 0.5);
+  } else if (sampleName === "snare") {
+    synthNoiseHit(ctx, dest, time, 0.2, 1000, gain * 0.7);
+  } else if (sampleName === "hihat") {
+    synthNoiseHit(ctx, dest, time, 0.05, 7000, gain * 0.4);
+  } else if (sampleName === "openhat") {
+    synthNoiseHit(ctx, dest, time, 0.3, 7000, gain * 0.4);
+  } else if (sampleName === "tomHigh") {
+    synthToneHit(ctx, dest, time, 0.3, 260, 180, gain);
+  } else if (sampleName === "tomMid") {
+    synthToneHit(ctx, dest, time, 0.35, 190, 130, gain);
+  } else if (sampleName === "tomLow") {
+    synthToneHit(ctx, dest, time, 0.45, 130, 85, gain);
+  } else if (sampleName === "rim") {
+    synthToneHit(ctx, dest, time, 0.03, 1700, 1500, gain * 0.5, "triangle");
+    synthNoiseHit(ctx, dest, time, 0.03, 3000, gain * 0.4);
+  } else if (sampleName === "clap") {
+    // três estalos quase juntos e a cauda
+    for (const dt of [0, 0.01, 0.022]) synthNoiseHit(ctx, dest, time + dt, 0.02, 1200, gain * 0.6);
+    synthNoiseHit(ctx, dest, time + 0.03, 0.15, 1200, gain * 0.4);
+  } else if (sampleName === "ride") {
+    synthToneHit(ctx, dest, time, 0.6, 3400, 3300, gain * 0.08, "square");
+    synthNoiseHit(ctx, dest, time, 0.6, 6000, gain * 0.25);
+  } else if (sampleName === "crash") {
+    synthNoiseHit(ctx, dest, time, 1.4, 3500, gain * 0.5);
+  } else if (sampleName === "shaker") {
+    synthNoiseHit(ctx, dest, time, 0.06, 6000, gain * 0.3);
+  } else if (sampleName === "cowbell") {
+    synthToneHit(ctx, dest, time, 0.25, 540, 535, gain * 0.25, "square");
+    synthToneHit(ctx, dest, time, 0.25, 800, 795, gain * 0.25, "square");
+  } else if (sampleName === "surdo") {
+    synthToneHit(ctx, dest, time, 0.7, 75, 55, gain);
+  } else if (sampleName === "pandeiro") {
+    // platinelas; o acento leva o tapa na pele
+    synthNoiseHit(ctx, dest, time, 0.08, 4500, gain * 0.5);
+    if (gain > 0.5) synthToneHit(ctx, dest, time, 0.08, 220, 160, gain * 0.4);
+  } else if (sampleName === "tamborim") {
+    synthToneHit(ctx, dest, time, 0.06, 760, 640, gain * 0.7, "triangle");
+    synthNoiseHit(ctx, dest, time, 0.02, 2500, gain * 0.3);
+  } else if (sampleName === "zabumba") {
+    synthToneHit(ctx, dest, time, 0.4, 100, 60, gain);
+    synthNoiseHit(ctx, dest, time, 0.03, 800, gain * 0.3);
+  } else if (sampleName === "triangulo") {
+    synthToneHit(ctx, dest, time, 0.5, 4200, 4200, gain * 0.15);
+    synthToneHit(ctx, dest, time, 0.3, 6100, 6100, gain * 0.08);
+  } else if (sampleName === "agogo") {
+    synthToneHit(ctx, dest, time, 0.3, 880, 875, gain * 0.4, "triangle");
+    synthToneHit(ctx, dest, time, 0.15, 2300, 2300, gain * 0.1);
+  }
+}
+
+export function useDrumSampler(engine: AudioEngine) {
+  // `time` absoluto no AudioContext do engine; toca no bus "drums"
+  const playSample = (sampleName: DrumSampleName, time: number, gain = 0.8) => {
+    const ctx = engine.ctxRef.current; const graph = engine.graphRef.current;
+    if (!ctx || !graph) return;
+    synthDrum(ctx, graph.buses.drums.input, sampleName, Math.max(ctx.currentTime, time), gain);
+  };
+
+  return { playSample };
+}
+
+// Metrônomo: blip curto no bus "click" (tempo 1 acentuado)
+export function synthClick(ctx: BaseAudioContext, dest: AudioNode, time: number, accent: boolean) {
+  const osc = ctx.createOscillator();
+  const g = ctx.createGain();
+  osc.frequency.value = accent ? 1760 : 1320;
+  g.gain.setValueAtTime(accent ? 0.9 : 0.6, time);
+  g.gain.exponentialRampToValueAtTime(0.001, time + 0.04);
+  osc.connect(g); g.connect(dest);
+  osc.start(time);
+  osc.stop(time + 0.05);
+}
+
+/** ===== Amostras de instrumento (armazenamento local) =====
+ * Ordem de carga: cache no IndexedDB -> pacote embutido (public/samples/<nome>.json, só o nylon)
+ * -> CDN MusyngKite (e guarda no cache) -> voz sintetizada de reserva.
+ * Sem internet no primeiro uso, os outros instrumentos dependem de um pacote importado pelo usuário
+ * (SF2, JSON/JS de data-URIs ou MP3 nomeados pela nota) ou do violão modelado.
+ * O pacote do usuário substitui o do instrumento selecionado e também fica no IndexedDB.
+ */
+type SamplePack = { id: InstrumentName; source: string; samples: StoredSample[] };
+type SampleStatus = { state: "idle" | "loading" | "ready" | "fallback"; source: string; progress: number; error: string | null };
+const IDLE_SAMPLES: SampleStatus = { state: "idle", source: "", progress: 0, error: null };
+
+const SAMPLE_DB = "toque-comigo";
+const SAMPLE_STORE = "samplePacks";
+// seis notas do violão nylon do tonejs-instruments (CC BY 3.0, ver public/samples), uma a cada quinta; o sampler transpõe o resto
+const BUNDLED_PACKS: InstrumentName[] = ["acoustic_guitar_nylon"];
+const bundledPackUrl = (name: InstrumentName) => `${import.meta.env.BASE_URL}samples/${name}.json`;
+const cdnPackUrl = (name: InstrumentName) => `https://gleitz.github.io/midi-js-soundfonts/MusyngKite/${name}-mp3.js`;
+
+function openSampleDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(SAMPLE_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(SAMPLE_STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+async function sampleDb<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openSampleDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(SAMPLE_STORE, mode).objectStore(SAMPLE_STORE));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+const getCachedPack = (id: InstrumentName) => sampleDb<SamplePack | undefined>("readonly", st => st.get(id));
+export const putCachedPack = (pack: SamplePack) => sampleDb<IDBValidKey>("readwrite", st => st.put(pack));
+export const deleteCachedPack = (id: InstrumentName) => sampleDb<undefined>("readwrite", st => st.delete(id));
+
+// download com progresso (bytes recebidos / content-length)
+async function fetchWithProgress(url: string, onProgress: (p: number) => void): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok || !res.body) throw new Error(`${res.status} ${url}`);
+  const total = Number(res.headers.get("content-length")) || 0;
+  const reader = res.body.getReader();
+  const parts: Uint8Array[] = [];
+  let got = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value); got += value.length;
+    if (total) onProgress(Math.min(1, got / total));
+  }
+  return new TextDecoder().decode(await new Blob(parts as BlobPart[]).arrayBuffer());
+}
+
+// Um pedido por instrumento, compartilhado entre violão, baixo e renderização offline
+const packRequests = new Map<InstrumentName, Promise<SamplePack>>();
+function requestSamplePack(name: InstrumentName, onProgress: (p: number, source: string) => void): Promise<SamplePack> {
+  let req = packRequests.get(name);
+  if (!req) {
+    req = (async () => {
+      const cached = await getCachedPack(name).catch(() => undefined);
+      if (cached) return cached;
+      const sources = [...(BUNDLED_PACKS.includes(name) ? [["local", bundledPackUrl(name)]] : []), ["CDN", cdnPackUrl(name)]];
+      const errors: string[] = [];
+      for (const [source, url] of sources) {
+        try {
+          const pack: SamplePack = { id: name, source, samples: parseNotePack(await fetchWithProgress(url, p => onProgress(p * 0.5, source))) };
+          await putCachedPack(pack).catch(e => console.warn("Cache de amostras indisponível:", e));
+          return pack;
+        } catch (e) {
+          errors.push(`${source}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      throw new Error(errors.join(" · "));
+    })();
+    req.catch(() => packRequests.delete(name));
+    packRequests.set(name, req);
+  }
+  return req;
+}
+export const forgetSamplePack = (name: InstrumentName) => packRequests.delete(name);
+
+async function decodeSamplePack(ctx: BaseAudioContext, pack: SamplePack, onProgress: (p: number) => void) {
+  const buffers = new Map<number, { buffer: AudioBuffer; loop?: [number, number] }>();
+  let done = 0;
+  await Promise.all(pack.samples.map(async s => {
+    let buffer: AudioBuffer;
+    if (s.pcm && s.sampleRate) {
+      buffer = ctx.createBuffer(1, s.pcm.length, s.sampleRate);
+      buffer.getChannelData(0).set(s.pcm);
+    } else if (s.encoded) {
+      // decodeAudioData consome o ArrayBuffer: decodifica uma cópia (o pacote continua no cache)
+      buffer = await ctx.decodeAudioData(s.encoded.slice(0));
+    } else return;
+    buffers.set(s.midi, { buffer, loop: s.loop });
+    onProgress(++done / pack.samples.length);
+  }));
+  if (!buffers.size) throw new Error("Pacote sem amostras decodificáveis");
+  return buffers;
+}
+
+// Voz de instrumento: o que useSF e a renderização offline tocam.
+// `note` diz a corda (0 = 6ª) e se a batida é abafada; vozes com amostras ignoram.
+export type GuitarNote = { string?: number; muted?: boolean };
+type InstrumentVoice = { play: (midi: number, time: number, dur: number, vel: number, note?: GuitarNote) => void; stop: () => void };
+
+// Sampler: amostra mais próxima transposta por playbackRate, release curto depois de `dur`
+function createSampler(ctx: BaseAudioContext, buffers: Map<number, { buffer: AudioBuffer; loop?: [number, number] }>, dest: AudioNode): InstrumentVoice {
+  const keys = [...buffers.keys()].sort((a, b) => a - b);
+  const active = new Set<AudioBufferSourceNode>();
+  return {
+    play: (midi, time, dur, vel) => {
+      const base = keys.reduce((best, k) => Math.abs(k - midi) < Math.abs(best - midi) ? k : best, keys[0]);
+      const { buffer, loop } = buffers.get(base)!;
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      src.playbackRate.value = Math.pow(2, (midi - base) / 12);
+      if (loop) { src.loop = true; src.loopStart = loop[0]; src.loopEnd = loop[1]; }
+      const g = ctx.createGain();
+      g.gain.setValueAtTime(0, time);
+      g.gain.linearRampToValueAtTime(vel, time + 0.005);
+      g.gain.setTargetAtTime(0, time + dur, 0.1);
+      src.connect(g); g.connect(dest);
+      src.start(time);
+      src.stop(time + dur + 0.6);
+      active.add(src);
+      src.onended = () => active.delete(src);
+    },
+    stop: () => { active.forEach(src => src.stop()); active.clear(); },
+  };
+}
+
+// Reserva sintetizada (sem amostras): dente de serra filtrado com decaimento de corda
+function createSynthVoice(ctx: BaseAudioContext, dest: AudioNode): InstrumentVoice {
+  const active = new Set<OscillatorNode>();
+  return {
+    play: (midi, time, dur, vel) => {
+      const osc = ctx.createOscillator();
+      osc.type = "sawtooth";
+      osc.frequency.value = midiToHz(midi);
+      const filter = ctx.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.setValueAtTime(Math.min(8000, midiToHz(midi) * 8), time);
+      filter.frequency.exponentialRampToValueAtTime(Math.max(200, midiToHz(midi) * 1.5), time + 0.4);
+      const g = ctx.createGain();
+      g.gain.setValueAtTime(0, time);
+      g.gain.linearRampToValueAtTime(0.35 * vel, time + 0.004);
+      g.gain.setTargetAtTime(0.12 * vel, time + 0.004, 0.25);
+      g.gain.setTargetAtTime(0, time + dur, 0.08);
+      osc.connect(filter); filter.connect(g); g.connect(dest);
+      osc.start(time);
+      osc.stop(time + dur + 0.5);
+      active.add(osc);
+      osc.onended = () => active.delete(osc);
+    },
+    stop: () => { active.forEach(o => o.stop()); active.clear(); },
+  };
+}
+
+// Carrega a voz do instrumento; sem amostras disponíveis cai na voz sintetizada
+export async function loadInstrumentVoice(
+  ctx: BaseAudioContext, name: InstrumentName, dest: AudioNode,
+  onStatus: (s: SampleStatus) => void = () => {}, getPluck: () => PluckModel = () => DEFAULT_PLUCK,
+): Promise<InstrumentVoice> {
+  // Violão modelado: nenhum pacote a carregar
+  if (name === "modelled_guitar") {
+    onStatus({ state: "ready", source: "modelo físico", progress: 1, error: null });
+    return createPluckedVoice(ctx, dest, getPluck);
+  }
+  onStatus({ state: "loading", source: "", progress: 0, error: null });
+  try {
+    const pack = await requestSamplePack(name, (p, source) => onStatus({ state: "loading", source, progress: p, error: null }));
+    const buffers = await decodeSamplePack(ctx, pack, p => onStatus({ state: "loading", source: pack.source, progress: 0.5 + p * 0.5, error: null }));
+    onStatus({ state: "ready", source: pack.source, progress: 1, error: null });
+    return createSampler(ctx, buffers, dest);
+  } catch (e) {
+    console.error("Failed to load instrument:", e);
+    onStatus({ state: "fallback", source: "sintetizado", progress: 1, error: e instanceof Error ? e.message : String(e) });
+    return createSynthVoice(ctx, dest);
+  }
+}
+
+/** ===== Violão modelado (Karplus-Strong) =====
+ * Cada nota é uma corda sintetizada em JS: ruído de palheta (filtrado pela posição da palheta)
+ * numa linha de atraso com filtro de perda, tocada como buffer. Uma voz por corda: a próxima
+ * nota na mesma corda abafa a anterior. O corpo é um banco de filtros ressonantes na saída.
+ */
+// pick: posição da palheta (fração da corda a partir do cavalete); damping/palmMute/body: 0..1
+export type PluckModel = { pick: number; damping: number; palmMute: number; body: number };
+export const DEFAULT_PLUCK: PluckModel = { pick: 0.18, damping: 0.35, palmMute: 0, body: 0.5 };
+const BODY_MODES = [{ hz: 98, q: 2.5, db: 9 }, { hz: 204, q: 3, db: 6 }, { hz: 420, q: 2, db: 4 }];
+
+function pluckSamples(sampleRate: number, midi: number, m: PluckModel, muted: boolean): Float32Array {
+  const f = midiToHz(midi);
+  const mute = muted ? 1 : m.palmMute;
+  // tempo de decaimento (-60 dB): damping encurta, palm mute corta quase tudo
+  const t60 = muted ? 0.07 : (0.4 + (1 - m.damping) * 5) * (1 - 0.85 * mute);
+  const out = new Float32Array(Math.ceil(sampleRate * Math.min(4, t60 * 1.2 + 0.05)));
+  const period = sampleRate / f;
+  // filtro de perda y = (1-a)·d[n] + a·d[n-1]: a maior = mais escuro; atrasa `a` amostras
+  const a = 0.15 + 0.35 * Math.max(m.damping, mute);
+  const delay = period - a;
+  const di = Math.floor(delay), fr = delay - di;
+  const rho = Math.pow(10, -3 / (t60 * f));
+
+  // excitação: um período de ruído; o pente pela posição da palheta tira os harmônicos com nó ali
+  const n = Math.max(2, Math.round(period));
+  const noise = Array.from({ length: n }, () => Math.random() * 2 - 1);
+  const pickTap = Math.max(1, Math.round(m.pick * n));
+  const exc = noise.map((v, i) => v - (i >= pickTap ? noise[i - pickTap] : 0));
+
+  const at = (i: number) => (i >= 0 ? out[i] : 0);
+  let peak = 0;
+  for (let i = 0; i < out.length; i++) {
+    const d0 = (1 - fr) * at(i - di) + fr * at(i - di - 1);
+    const d1 = (1 - fr) * at(i - di - 1) + fr * at(i - di - 2);
+    out[i] = (i < n ? exc[i] : 0) + rho * ((1 - a) * d0 + a * d1);
+    if (i < n * 4) peak = Math.max(peak, Math.abs(out[i]));
+  }
+  const norm = peak > 0 ? 0.6 / peak : 1;
+  for (let i = 0; i < out.length; i++) out[i] *= norm;
+  return out;
+}
+
+// buffers por contexto e parâmetros (arredondados); limpo quando cresce demais. A excitação é ruído:
+// guarda PLUCK_VARIANTS ataques diferentes por chave e alterna entre eles para a nota não se repetir igual
+const PLUCK_VARIANTS = 4;
+const pluckCache = new WeakMap<BaseAudioContext, Map<string, { buffers: AudioBuffer[]; next: number }>>();
+function pluckBuffer(ctx: BaseAudioContext, midi: number, m: PluckModel, muted: boolean): AudioBuffer {
+  let cache = pluckCache.get(ctx);
+  if (!cache) { cache = new Map(); pluckCache.set(ctx, cache); }
+  const key = [midi, m.pick, m.damping, m.palmMute, muted].map(v => typeof v === "number" ? v.toFixed(2) : v).join(":");
+  let entry = cache.get(key);
+  if (!entry) {
+    if (cache.size > 64) cache.clear();
+    entry = { buffers: [], next: 0 };
+    cache.set(key, entry);
+  }
+  if (entry.buffers.length < PLUCK_VARIANTS) {
+    const data = pluckSamples(ctx.sampleRate, midi, m, muted);
+    const buffer = ctx.createBuffer(1, data.length, ctx.sampleRate);
+    buffer.getChannelData(0).set(data);
+    entry.buffers.push(buffer);
+    return buffer;
+  }
+  return entry.buffers[entry.next++ % PLUCK_VARIANTS];
+}
+
+function createPluckedVoice(ctx: BaseAudioContext, dest: AudioNode, getModel: () => PluckModel): InstrumentVoice {
+  const input = ctx.createGain();
+  const body = BODY_MODES.map(mode => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = "peaking";
+    filter.frequency.value = mode.hz;
+    filter.Q.value = mode.q;
+    return filter;
+  });
+  input.connect(body[0]);
+  body.forEach((filter, i) => filter.connect(body[i + 1] ?? dest));
+
+  const strings = new Map<number, { src: AudioBufferSourceNode; gain: GainNode; start: number; end: number }>();
+  const active = new Set<AudioBufferSourceNode>();
+  return {
+    play: (midi, time, dur, vel, note) => {
+      const m = getModel();
+      body.forEach((filter, i) => { filter.gain.value = BODY_MODES[i].db * m.body; });
+      const buffer = pluckBuffer(ctx, midi, m, !!note?.muted);
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      const g = ctx.createGain();
+      g.gain.setValueAtTime(vel, time);
+      g.gain.setTargetAtTime(0, time + dur, 0.05);
+      src.connect(g); g.connect(input);
+      const end = Math.min(time + buffer.duration, time + dur + 0.3);
+      src.start(time);
+      src.stop(end);
+      active.add(src);
+      src.onended = () => active.delete(src);
+
+      // a nova nota abafa a anterior da mesma corda (a que soa junto, no mesmo instante, fica)
+      if (note?.string !== undefined) {
+        const prev = strings.get(note.string);
+        if (prev && prev.start < time - 0.001 && prev.end > time) {
+          prev.gain.gain.setTargetAtTime(0, time, 0.006);
+          prev.src.stop(time + 0.04);
+          prev.end = time + 0.04;
+        }
+        strings.set(note.string, { src, gain: g, start: time, end });
+      }
+    },
+    stop: () => { active.forEach(src => src.stop()); active.clear(); strings.clear(); },
+  };
+}
+
+/** ===== Instrument Player ===== */
+// Carrega o instrumento ligado a um bus do engine (violão e baixo têm instâncias próprias)
+export function useSF(engine: AudioEngine, instrumentName: InstrumentName, bus: BusName, pluck: PluckModel = DEFAULT_PLUCK) {
+  const instRef = useRef<InstrumentVoice | null>(null);
+  // o violão modelado lê os parâmetros a cada nota (mudanças valem na hora)
+  const pluckRef = useRef(pluck);
+  pluckRef.current = pluck;
+  const loadingRef = useRef<Promise<void> | null>(null);
+  const currentInstrumentRef = useRef<InstrumentName | null>(null);
+  const [status, setStatus] = useState<SampleStatus>(IDLE_SAMPLES);
+
+  const ensure = async () => {
+    await engine.ensure();
+    const ctx = engine.ctxRef.current!;
+    const graph = engine.graphRef.current!;
+    if (currentInstrumentRef.current !== instrumentName) {
+      instRef.current?.stop();
+      instRef.current = null;
+      loadingRef.current = null;
+      currentInstrumentRef.current = instrumentName;
+    }
+    if (!instRef.current && !loadingRef.current) {
+      const name = instrumentName;
+      loadingRef.current = loadInstrumentVoice(ctx, name, graph.buses[bus].input, setStatus, () => pluckRef.current).then(voice => {
+        if (currentInstrumentRef.current === name) instRef.current = voice;
+      });
+    }
+    await loadingRef.current;
+  };
+
+  // descarta a voz atual (ex.: depois de trocar o pacote de amostras) e recarrega
+  const reload = async () => {
+    instRef.current?.stop();
+    instRef.current = null;
+    loadingRef.current = null;
+    await ensure();
+  };
+
+  const playMidi = async (midi: number, when = 0, dur = 0.25, vel = 0.9) => {
+    await ensure();
+    const ctx = engine.ctxRef.current;
+    if (!ctx || !instRef.current) return;
+    instRef.current.play(midi, ctx.currentTime + Math.max(0, when), dur, vel);
+  };
+
+  // Versão síncrona para o transporte: `time` é absoluto (AudioContext.currentTime)
+  const playMidiAt = (midi: number, time: number, dur = 0.25, vel = 0.9, note?: GuitarNote) => {
+    const ctx = engine.ctxRef.current;
+    if (!ctx || !instRef.current) return;
+    instRef.current.play(midi, Math.max(ctx.currentTime, time), dur, vel, note);
+  };
+
+  return { playMidi, playMidiAt, ensure, reload, status };
+}
+
+// Afinador por tom de referência (seno contínuo, direto no master)
+export function useReferenceTone(engine: AudioEngine) {
+  const sineHold = useRef<OscillatorNode | null>(null);
+  const startSine = async (hz: number) => {
+    await engine.ensure();
+    stopSine();
+    const ctx = engine.ctxRef.current!;
+    const osc = ctx.createOscillator();
+    const g = ctx.createGain();
+    g.gain.value = 0.5;
+    osc.type = "sine";
+    osc.frequency.value = hz;
+    osc.connect(g); g.connect(engine.graphRef.current!.master);
+    osc.start();
+    sineHold.current = osc;
+  };
+  const stopSine = () => { sineHold.current?.stop(); sineHold.current = null; };
+  return { startSine, stopSine };
+}
+
+/** ===== Andamento ===== */
+export const BPM_MIN = 30, BPM_MAX = 260;
+export const clampBpm = (b: number) => Math.round(Math.max(BPM_MIN, Math.min(BPM_MAX, b)));
+export type TempoRamp = { enabled: boolean; stepBpm: number; everyLoops: number; targetBpm: number };
+
+// Tap tempo: média dos últimos intervalos; uma pausa longa recomeça a contagem
+export function useTapTempo(onTempo: (bpm: number) => void) {
+  const tapsRef = useRef<number[]>([]);
+  return () => {
+    const now = performance.now();
+    const taps = tapsRef.current;
+    if (taps.length && now - taps[taps.length - 1] > 2000) taps.length = 0;
+    taps.push(now);
+    if (taps.length > 5) taps.shift();
+    if (taps.length < 2) return;
+    const avgMs = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+    onTempo(60_000 / avgMs);
+  };
+}
+
+/** ===== Transporte (agendador com lookahead) =====
+ * Um relógio JS acorda a cada SCHED_TICK_MS e agenda todos os passos que caem
+ * dentro da janela de SCHED_LOOKAHEAD_S à frente de `ctx.currentTime`.
+ * Os sons são disparados pelo próprio AudioContext, então o tempo não depende
+ * de setInterval nem de re-renders. Atualizações visuais entram numa fila
+ * (`at`) e só são aplicadas quando o áudio chega naquele instante.
+ */
+const SCHED_TICK_MS = 25;
+const SCHED_LOOKAHEAD_S = 0.12;
+const SCHED_START_DELAY_S = 0.06;
+// recebe o instante absoluto do passo e devolve sua duração (s), ou null para encerrar
+type TransportStepFn = (time: number) => number | null;
+
+export function useTransport(ctxRef: { current: AudioContext | null }) {
+  const timerRef = useRef<number | null>(null);
+  const rafRef = useRef<number | null>(null);
+  const nextTimeRef = useRef(0);
+  const stepFnRef = useRef<TransportStepFn | null>(null);
+  const visualQueueRef = useRef<{ time: number; fn: () => void }[]>([]);
+
+  const drainVisuals = () => {
+    const ctx = ctxRef.current;
+    const queue = visualQueueRef.current;
+    if (ctx) {
+      while (queue.length && queue[0].time <= ctx.currentTime) queue.shift()!.fn();
+    }
+    if (stepFnRef.current || queue.length) rafRef.current = requestAnimationFrame(drainVisuals);
+    else halt();
+  };
+
+  const tick = () => {
+    const ctx = ctxRef.current;
+    if (!ctx) return;
+    while (stepFnRef.current && nextTimeRef.current < ctx.currentTime + SCHED_LOOKAHEAD_S) {
+      const dur = stepFnRef.current(nextTimeRef.current);
+      if (dur === null) { stepFnRef.current = null; break; }
+      nextTimeRef.current += dur;
+    }
+  };
+
+  const halt = () => {
+    if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
+    if (rafRef.current) { cancelAnimationFrame(rafRef.current); rafRef.current = null; }
+  };
+
+  const start = (fn: TransportStepFn) => {
+    const ctx = ctxRef.current;
+    if (!ctx) return;
+    stop();
+    stepFnRef.current = fn;
+    nextTimeRef.current = ctx.currentTime + SCHED_START_DELAY_S;
+    tick();
+    timerRef.current = window.setInterval(tick, SCHED_TICK_MS);
+    rafRef.current = requestAnimationFrame(drainVisuals);
+  };
+
+  const stop = () => {
+    halt();
+    stepFnRef.current = null;
+    visualQueueRef.current = [];
+  };
+
+  // agenda um efeito visual para o instante em que o áudio chega em `time`
+  const at = (time: number, fn: () => void) => {
+    const queue = visualQueueRef.current;
+    let i = queue.length;
+    while (i > 0 && queue[i - 1].time > time) i--;
+    queue.splice(i, 0, { time, fn });
+  };
+
+  const isRunning = () => stepFnRef.current !== null;
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => () => stop(), []);
+
+  return { start, stop, at, isRunning };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { bassNoteAt } from "./backing";
+import type { BassStep } from "./rhythm";
+
+const C3 = 48;
+// nota de um passo só, já sem a oitava abaixo que o baixo acrescenta
+const bass = (step: BassStep, quality: string, slashMidi?: number, nextRootPc?: number) => {
+  const midi = bassNoteAt({ id: "t", label: "t", meter: "any", steps: [step] }, 0, C3, quality, slashMidi, nextRootPc);
+  return midi === null ? null : midi + 12;
+};
+
+describe("bassNoteAt", () => {
+  it("acha a terça na qualidade do acorde", () => {
+    expect(bass("3", "")).toBe(C3 + 4);
+    expect(bass("3", "m")).toBe(C3 + 3);
+    expect(bass("3", "dim")).toBe(C3 + 3);
+    // no 7#9 a nona aumentada também soa como terça menor: vale a maior
+    expect(bass("3", "7#9")).toBe(C3 + 4);
+    expect(bass("3", "sus4")).toBe(C3 + 5);
+    expect(bass("3", "5")).toBe(C3 + 7);
+  });
+
+  it("escolhe a sétima pela cifra ou, sem ela, pela qualidade", () => {
+    expect(bass("7", "dim7")).toBe(C3 + 9);
+    expect(bass("7", "m7b5")).toBe(C3 + 10);
+    expect(bass("7", "maj7")).toBe(C3 + 11);
+    expect(bass("7", "dim")).toBe(C3 + 9);
+    expect(bass("7", "")).toBe(C3 + 10);
+  });
+
+  it("aproxima por meio tom a fundamental do próximo acorde", () => {
+    expect(bass("A", "", undefined, 5)).toBe(C3 + 4); // -> F: E logo acima
+    expect(bass("A", "", undefined, 7)).toBe(C3 - 6); // -> G: F# abaixo, mais perto
+    // sem troca de acorde: a quinta abaixo
+    expect(bass("A", "", undefined, 0)).toBe(C3 - 5);
+    expect(bass("A", "")).toBe(C3 - 5);
+  });
+
+  it("toca o baixo da barra no lugar da fundamental", () => {
+    expect(bass("R", "", C3 - 8)).toBe(C3 - 8);
+    expect(bass("5", "", C3 - 8)).toBe(C3 + 7);
+    expect(bass("R_", "", C3 - 8)).toBe(C3 - 20);
+    expect(bass("-", "", C3 - 8)).toBeNull();
+  });
+});
@@ -0,0 +1,380 @@
+import { encodeMidiFile, type MidiTrack } from "./midi";
+import {
+  CHORD_QUALITIES, chordEntry, NOTE_NAMES, openStrings, parseChordSymbol, QUALITY_IDS, qualityOf, STANDARD_TUNING,
+  toIndex, TUNING_MIDI, voicingAt, type ChordQuality, type TuningState, type Voicing,
+} from "./theory";
+import {
+  BASS_PATTERNS, beatIn16, beatStarts16, drumBars, fitSteps, itemAtBeat, METERS, patternLength, PATTERNS, PICK_ROLES,
+  sequenceTimeline, stepPositions16, stepVelocity, type BassDegree, type BassPattern, type DrumPattern, type MeterId,
+  type Pattern, type PickRole, type Step, type SwingGrid,
+} from "./rhythm";
+import {
+  applyMixerSettings, BUS_NAMES, createMixerGraph, DEFAULT_MIXER, DRUM_VOICE_IDS, DRUM_VOICES, loadInstrumentVoice,
+  synthClick, synthDrum, type BusName, type DrumSampleName, type GuitarNote, type InstrumentName, type MixerSettings,
+  type PluckModel,
+} from "./audio";
+import type { ArrangementEntry, SeqItem, Song } from "./song";
+
+/** ===== Acompanhamento: geração de eventos =====
+ * Violão, baixo, bateria e click de cada semicolcheia são gerados aqui e entregues
+ * a um BackingSink: ao vivo vão para o AudioContext, na exportação para um arquivo.
+ */
+export type BackingSink = {
+  guitar: (midi: number, time: number, dur: number, vel: number, note?: GuitarNote) => void;
+  bass: (midi: number, time: number, dur: number, vel: number) => void;
+  drum: (name: DrumSampleName, time: number, gain: number) => void;
+  click: (time: number, accent: boolean) => void;
+};
+// patterns/bassPatterns/drumPatterns: embutidos + do usuário (as seções apontam por id)
+export type BackingSettings = TuningState & {
+  meter: MeterId; bpm: number; swing: number; strumMs: number; sustain: number;
+  drumsEnabled: boolean; bassEnabled: boolean; clickEnabled: boolean; drumFills: boolean; swingGrid: SwingGrid;
+  patterns: Pattern[]; bassPatterns: BassPattern[]; drumPatterns: Record<string, DrumPattern>;
+};
+// um passo: acorde soando, padrões da seção e semicolcheia dentro do compasso
+// symbol = cifra que soa; nextRootName = fundamental do próximo acorde na ordem de execução (aproximação do baixo)
+// drumBar = compasso desde o início da entrada do arranjo (escolhe a variação A/B); fill = último compasso antes de trocar/voltar
+type BackingStep = {
+  voicing: Voicing; rootName: string; bassName: string; symbol: string; nextRootName?: string;
+  pattern: Pattern; drumPatternId: string; bassPattern: string; step: number; chordChanged: boolean;
+  drumBar: number; fill: boolean;
+};
+
+const voicingMidis = (voicing: Voicing, strings: readonly number[] = TUNING_MIDI): number[] => {
+  const out: number[] = [];
+  for (let s=0;s<6;s++) {
+    const v = voicing.shape[s];
+    if (v === "x") continue;
+    out.push(strings[s] + Number(v));
+  }
+  return out;
+};
+
+// Reconhece o acorde que soa pelas classes de altura (raiz no baixo primeiro, depois inversões).
+// A quinta pode faltar (C7 x32310 ainda é C7).
+// notas que soam -> acorde (chave em CHORD_QUALITIES, com /baixo); `prefer` desempata inversões
+function identifyChord(midis: number[], prefer?: number): { root: string; bass: string; symbol: string } | null {
+  if (!midis.length) return null;
+  const pcs = [...new Set(midis.map(m => ((m % 12) + 12) % 12))];
+  const bass = ((Math.min(...midis) % 12) + 12) % 12;
+  const roots = [...new Set([...(prefer !== undefined ? [prefer] : []), bass, ...pcs])];
+  // primeiro só com notas do acorde; depois aceitando um baixo de fora (pedal)
+  for (const pedal of [false, true]) {
+    for (const root of roots) {
+      for (const suffix of QUALITY_IDS) {
+        const q: ChordQuality = CHORD_QUALITIES[suffix];
+        const tones = q.intervals.map(i => (root + i) % 12);
+        const missing = tones.filter(p => !pcs.includes(p));
+        const optional = (q.omit ?? []).map(i => (root + i) % 12);
+        const extra = pcs.filter(p => !tones.includes(p));
+        if ((extra.length === 0 || (pedal && extra.length === 1 && extra[0] === bass)) && missing.every(p => optional.includes(p)) && missing.length < tones.length - 1) {
+          return { root: NOTE_NAMES[root], bass: NOTE_NAMES[bass], symbol: NOTE_NAMES[root] + suffix + (root !== bass ? `/${NOTE_NAMES[bass]}` : "") };
+        }
+      }
+    }
+  }
+  return null;
+}
+// forma dedilhada -> voicing, raiz, baixo e cifra do acorde que soa; sem reconhecimento, transpõe a cifra da forma
+export const voicingFor = (key: string, varIdx: number, t: TuningState = STANDARD_TUNING) => {
+  const voicing = voicingAt(chordEntry(key, t.tuning), varIdx);
+  const p = parseChordSymbol(key);
+  const shift = (n: string) => NOTE_NAMES[(toIndex(n) + t.capo) % 12];
+  const sounding = identifyChord(voicingMidis(voicing, openStrings(t)), toIndex(shift(p.root)));
+  const rootName = sounding?.root ?? shift(p.root);
+  const bassName = sounding?.bass ?? shift(p.bass ?? p.root);
+  const symbol = sounding?.symbol ?? rootName + p.qual + (bassName !== rootName ? `/${bassName}` : "");
+  return { voicing, rootName, bassName, symbol };
+};
+const findRootMidi = (midis: number[], rootName: string): number => {
+  const targetPc = toIndex(rootName);
+  const candidates = midis.filter(m => ((m % 12)+12)%12 === targetPc);
+  return (candidates.length ? Math.min(...candidates) : Math.min(...midis));
+};
+const stringOfMidi = (voicing: Voicing, midi: number, strings: readonly number[]) => voicing.shape.findIndex((v, s) => v !== "x" && strings[s] + Number(v) === midi);
+
+// cordas, sentido e força de cada tipo de batida; spread = fração do strumMs entre cordas (0 = todas juntas)
+const STRUM_KINDS: Record<Exclude<Step, "-">, { strings: number[]; down: boolean; gain: number; spread: number; muted?: boolean }> = {
+  D: { strings: [0,1,2,3,4,5], down: true,  gain: 0.9,  spread: 1 },
+  U: { strings: [0,1,2,3,4,5], down: false, gain: 0.9,  spread: 1 },
+  X: { strings: [0,1,2,3,4,5], down: true,  gain: 0.55, spread: 1, muted: true },
+  S: { strings: [0,1,2,3,4,5], down: true,  gain: 0.8,  spread: 0, muted: true },
+  B: { strings: [0,1,2],       down: true,  gain: 0.9,  spread: 1 },
+  T: { strings: [3,4,5],       down: true,  gain: 0.8,  spread: 1 },
+  G: { strings: [3,4,5],       down: false, gain: 0.3,  spread: 0.5 },
+};
+
+// batida abafada: notas curtas e fracas (o violão modelado ainda abafa o timbre); level = velocidade do passo
+function strumChord(sink: BackingSink, s: BackingSettings, voicing: Voicing, step: Exclude<Step, "-">, level: number, time: number) {
+  const kind = STRUM_KINDS[step];
+  const order = kind.down ? kind.strings : [...kind.strings].reverse();
+  const strings = openStrings(s);
+  for (let i=0;i<order.length;i++) {
+    const str = order[i]; const v = voicing.shape[str]; if (v === "x") continue;
+    const midi = strings[str] + Number(v);
+    const when = time + i * kind.spread * (s.strumMs/1000);
+    const vel = kind.gain * (kind.down ? (1 - i*0.05) : (1 - i*0.04)) * level;
+    sink.guitar(midi, when, kind.muted ? Math.min(0.06, s.sustain) : s.sustain, Math.max(0.05, Math.min(1, vel)), { string: str, muted: kind.muted });
+  }
+}
+
+// papel -> corda na forma (cordas que soam, da grave para a aguda); formas com poucas cordas repetem as pontas
+function resolvePickRole(voicing: Voicing, role: PickRole): number | null {
+  const sounding = voicing.shape.flatMap((v, s) => v === "x" ? [] : [s]);
+  if (!sounding.length) return null;
+  const { from, offset } = PICK_ROLES[role];
+  return from === "bass" ? sounding[Math.min(offset, sounding.length - 1)] : sounding[Math.max(0, sounding.length - 1 - offset)];
+}
+
+// dedilhado: as cordas do passo juntas (pinça), soando mais que a batida; polegar um pouco mais forte
+function pickStrings(sink: BackingSink, s: BackingSettings, voicing: Voicing, roles: PickRole[], level: number, time: number) {
+  const strings = openStrings(s);
+  const played = new Set<number>();
+  for (const role of roles) {
+    const str = resolvePickRole(voicing, role);
+    if (str === null || played.has(str)) continue;
+    played.add(str);
+    const vel = level * (PICK_ROLES[role].from === "bass" ? 0.9 : 0.75);
+    sink.guitar(strings[str] + Number(voicing.shape[str]), time, s.sustain * 2, Math.max(0.05, Math.min(1, vel)), { string: str });
+  }
+}
+
+// intervalo do grau no acorde (semitons da fundamental); sem a nota na cifra, a escolha usual da qualidade
+function bassDegreeInterval(degree: Exclude<BassDegree, "A">, quality: string): number {
+  const iv = (qualityOf(quality)?.intervals ?? CHORD_QUALITIES[""].intervals).map(i => i % 12);
+  const has = (...opts: number[]) => opts.find(o => iv.includes(o));
+  const minor = iv.includes(3) && !iv.includes(4);
+  switch (degree) {
+    case "R": return 0;
+    case "2": return has(1, 3) === 1 ? 1 : 2;
+    // a terça maior primeiro (no 7#9 a nona aumentada também é um intervalo de 3); sus: a nota suspensa; power chord: quinta
+    case "3": return has(4, 3, 5, 2) ?? 7;
+    case "4": return 5;
+    case "5": return has(7, 6, 8) ?? 7;
+    case "6": return has(9, 8) ?? 9;
+    // sem sétima na cifra: a menor (no diminuto, a diminuta)
+    case "7": return has(10, 11) ?? (iv.includes(6) && minor ? 9 : 10);
+    case "8": return 12;
+  }
+}
+
+// Nota do baixo na colcheia `idx` do compasso (null = pausa); já uma oitava abaixo.
+// slashMidi: baixo da cifra com barra, que toca no lugar da fundamental (inversões e pedal);
+// nextRootPc: fundamental do próximo acorde (aproximação); sem troca, A cai na quinta abaixo
+export function bassNoteAt(pattern: BassPattern, idx: number, rootMidi: number, quality: string, slashMidi?: number, nextRootPc?: number): number | null {
+  const st = pattern.steps[idx % pattern.steps.length];
+  if (!st || st === "-") return null;
+  const down = st.endsWith("_");
+  const degree = (down ? st.slice(0, -1) : st) as BassDegree;
+  let noteMidi: number;
+  if (degree === "A") {
+    const rootPc = ((rootMidi % 12) + 12) % 12;
+    if (nextRootPc === undefined || nextRootPc === rootPc) noteMidi = rootMidi - 5;
+    else {
+      // meio tom abaixo do alvo, na oitava mais perto da fundamental atual
+      const target = rootMidi + ((nextRootPc - rootPc + 12) % 12);
+      noteMidi = (target - rootMidi > 6 ? target - 12 : target) - 1;
+    }
+  } else {
+    noteMidi = degree === "R" && slashMidi !== undefined ? slashMidi : rootMidi + bassDegreeInterval(degree, quality);
+  }
+  return noteMidi - 12 - (down ? 12 : 0);
+}
+
+// grades da bateria por padrão e compasso: playBackingStep roda a cada semicolcheia e os padrões
+// não mudam no lugar (editar gera um objeto novo)
+const drumBarsCache = new WeakMap<DrumPattern, Map<MeterId, ReturnType<typeof drumBars>>>();
+function cachedDrumBars(p: DrumPattern, meter: MeterId) {
+  let byMeter = drumBarsCache.get(p);
+  if (!byMeter) { byMeter = new Map(); drumBarsCache.set(p, byMeter); }
+  let bars = byMeter.get(meter);
+  if (!bars) { bars = drumBars(p, METERS[meter]); byMeter.set(meter, bars); }
+  return bars;
+}
+
+export function playBackingStep(sink: BackingSink, s: BackingSettings, b: BackingStep, time: number) {
+  const meterDef = METERS[s.meter];
+  // swing atrasa as colcheias do contratempo (semicolcheias 2, 6, 10, 14) ou, no balanço de semicolcheias, as ímpares
+  const t = time + (s.swingGrid === "16"
+    ? (b.step % 2 === 1 ? s.swing * (60 / s.bpm) / 4 : 0)
+    : (b.step % 4 === 2 ? s.swing * (60 / s.bpm) / 2 : 0));
+
+  // batidas do padrão que caem nesta semicolcheia (tercinas entram com atraso e sem swing)
+  const pat = b.pattern;
+  const res = pat.resolution ?? "8";
+  const length = patternLength(meterDef, res);
+  stepPositions16(meterDef, res).forEach((pos, i) => {
+    if (pos < b.step || pos >= b.step + 1) return;
+    const when = (res === "8t" ? time : t) + (pos - b.step) * (60 / s.bpm) / 4;
+    if (pat.kind === "pick") pickStrings(sink, s, b.voicing, fitSteps(pat.picks, length)[i], stepVelocity(pat, i), when);
+    else {
+      const st = fitSteps(pat.steps, length)[i];
+      if (st !== "-") strumChord(sink, s, b.voicing, st, stepVelocity(pat, i), when);
+    }
+  });
+
+  if (b.step % 2 === 0) {
+    const idx8 = b.step / 2;
+    const strings = openStrings(s);
+    const mids = voicingMidis(b.voicing, strings);
+    // raiz no tempo 1 e em cada troca de acorde dentro do compasso (reforça o groove; no dedilhado o polegar já faz)
+    if (pat.kind !== "pick" && (idx8 === 0 || b.chordChanged) && mids.length) {
+      const root = findRootMidi(mids, b.rootName);
+      sink.guitar(root, t, Math.max(0.22, s.sustain), 1.0, { string: stringOfMidi(b.voicing, root, strings) });
+    }
+    if (s.bassEnabled && mids.length) {
+      const root = findRootMidi(mids, b.rootName);
+      const slash = b.bassName !== b.rootName ? root - (toIndex(b.rootName) - toIndex(b.bassName) + 12) % 12 : undefined;
+      const bassPat = s.bassPatterns.find(p => p.id === b.bassPattern) ?? BASS_PATTERNS[0];
+      const next = b.nextRootName !== undefined ? toIndex(b.nextRootName) : undefined;
+      const note = bassNoteAt(bassPat, idx8, root, parseChordSymbol(b.symbol).qual, slash, next);
+      if (note !== null) sink.bass(note, t, 0.5, 1.2);
+    }
+  }
+
+  const drumPat = s.drumPatterns[b.drumPatternId];
+  if (s.drumsEnabled && drumPat) {
+    const { variations, fill } = cachedDrumBars(drumPat, s.meter);
+    const rows = s.drumFills && b.fill ? fill : variations[b.drumBar % variations.length];
+    // prato no 1 de cada entrada (é onde a virada anterior resolve)
+    const crash = s.drumFills && b.drumBar === 0 && b.step === 0 && !rows.crash?.[0];
+    for (const voice of DRUM_VOICE_IDS) {
+      const vel = voice === "crash" && crash ? 1 : rows[voice]?.[b.step] ?? 0;
+      if (vel > 0) sink.drum(voice, t, vel * DRUM_VOICES[voice].level);
+    }
+  }
+  if (s.clickEnabled && beatStarts16(meterDef).includes(b.step)) sink.click(time, b.step === 0);
+}
+
+// acorde seguinte na ordem de execução: o próximo item, ou o primeiro da repetição/entrada seguinte (volta ao início)
+export function nextItemInOrder(song: Song, order: ArrangementEntry[], arrIdx: number, repeat: number, itemIdx: number): SeqItem | undefined {
+  const entry = order[arrIdx];
+  const sec = entry && song.sections.find(x => x.id === entry.sectionId);
+  if (!sec) return undefined;
+  if (itemIdx + 1 < sec.items.length) return sec.items[itemIdx + 1];
+  if (repeat + 1 < entry.repeats) return sec.items[0];
+  const nextEntry = order[(arrIdx + 1) % order.length];
+  return song.sections.find(x => x.id === nextEntry.sectionId)?.items[0];
+}
+
+// Percorre o arranjo inteiro sem transporte (exportação): `loops` voltas a partir de `start`
+type BackingMarker = { time: number; name: string };
+function renderBacking(sink: BackingSink, s: BackingSettings, song: Song, order: ArrangementEntry[], loops = 1, start = 0) {
+  const meterDef = METERS[s.meter];
+  const barSteps = meterDef.eighths * 2;
+  const stepDur = (60 / s.bpm) / 4;
+  const markers: BackingMarker[] = [];
+  let time = start;
+  for (let loop = 0; loop < loops; loop++) {
+    for (const [arrIdx, entry] of order.entries()) {
+      const sec = song.sections.find(x => x.id === entry.sectionId);
+      if (!sec) continue;
+      const tl = sequenceTimeline(sec.items, meterDef);
+      const pattern = s.patterns.find(p => p.id === sec.patternId) ?? PATTERNS[0];
+      for (let repeat = 0; repeat < entry.repeats; repeat++) {
+        markers.push({ time, name: repeat > 0 ? `${sec.name} ${repeat + 1}` : sec.name });
+        for (let bar = 0; bar < tl.bars; bar++) {
+          let lastItem = -1;
+          for (let step = 0; step < barSteps; step++) {
+            const itemIdx = itemAtBeat(tl.starts, bar * tl.beatsPerBar + beatIn16(meterDef, step));
+            const item = sec.items[itemIdx];
+            if (item) {
+              const next = nextItemInOrder(song, order, arrIdx, repeat, itemIdx);
+              playBackingStep(sink, s, {
+                ...voicingFor(item.key, item.varIdx, s), nextRootName: next && voicingFor(next.key, next.varIdx, s).rootName,
+                pattern, drumPatternId: sec.drumPatternId, bassPattern: sec.bassPattern, step, chordChanged: itemIdx !== lastItem,
+                drumBar: repeat * tl.bars + bar, fill: repeat === entry.repeats - 1 && bar === tl.bars - 1,
+              }, time);
+            }
+            lastItem = itemIdx;
+            time += stepDur;
+          }
+        }
+      }
+    }
+  }
+  return { duration: time - start, markers };
+}
+
+/** ===== Standard MIDI File =====
+ * O arranjo em faixas GM (codificação em midi.ts):
+ * violão (canal 1), baixo (canal 2) e bateria GM (canal 10).
+ */
+const GM_PROGRAMS: Record<InstrumentName, number> = {
+  acoustic_guitar_nylon: 24, acoustic_guitar_steel: 25, electric_guitar_jazz: 26, electric_guitar_clean: 27,
+  electric_guitar_muted: 28, overdriven_guitar: 29, distortion_guitar: 30, acoustic_grand_piano: 0,
+  modelled_guitar: 25,
+};
+const GM_BASS_PROGRAM = 33; // Electric Bass (finger)
+const GM_DRUM_NOTES: Record<DrumSampleName, number> = {
+  kick: 36, snare: 38, hihat: 42, openhat: 46, tomHigh: 50, tomMid: 47, tomLow: 43,
+  rim: 37, clap: 39, ride: 51, crash: 49, shaker: 70, cowbell: 56,
+  surdo: 41, pandeiro: 54, tamborim: 65, zabumba: 35, triangulo: 81, agogo: 67,
+};
+
+// Renderiza o arranjo direto para um .mid (sem tocar em tempo real)
+export function renderMidi(title: string, instrument: InstrumentName, s: BackingSettings, song: Song, order: ArrangementEntry[], loops = 1): Uint8Array<ArrayBuffer> {
+  const guitar: MidiTrack = { name: "Violão", channel: 0, program: GM_PROGRAMS[instrument], notes: [] };
+  const bass: MidiTrack = { name: "Baixo", channel: 1, program: GM_BASS_PROGRAM, notes: [] };
+  const drums: MidiTrack = { name: "Bateria", channel: 9, program: null, notes: [] };
+  const sink: BackingSink = {
+    guitar: (midi, time, dur, vel) => guitar.notes.push({ time, midi, dur, vel }),
+    bass: (midi, time, dur, vel) => bass.notes.push({ time, midi, dur, vel }),
+    drum: (name, time, gain) => drums.notes.push({ time, midi: GM_DRUM_NOTES[name], dur: 0.1, vel: Math.min(1, gain * 1.1) }),
+    click: () => {},
+  };
+  const { markers } = renderBacking(sink, { ...s, clickEnabled: false }, song, order, loops);
+  return encodeMidiFile(title, s.bpm, METERS[s.meter], markers, [guitar, bass, drums].filter(t => t.notes.length));
+}
+
+/** ===== Renderização offline (WAV) =====
+ * O mesmo acompanhamento, instrumento, bateria sintetizada e mixer/reverb do ao vivo,
+ * renderizado num OfflineAudioContext. Stems = uma renderização por bus (os outros mudos).
+ */
+const WAV_SAMPLE_RATE = 44100;
+const RENDER_LEAD_S = 0.1; // o mixer assenta (setTargetAtTime) antes da primeira nota
+const RENDER_TAIL_S = 2.5; // cauda do reverb
+export type AudioRenderOptions = {
+  instrument: InstrumentName; pluck: PluckModel; mixer: MixerSettings; reverbMix: number; settings: BackingSettings;
+  song: Song; order: ArrangementEntry[]; loops: number; countInBars: number;
+};
+export const STEM_BUSES: BusName[] = ["guitar", "bass", "drums"];
+
+export async function renderBackingAudio(o: AudioRenderOptions, stem?: BusName): Promise<AudioBuffer> {
+  const meterDef = METERS[o.settings.meter];
+  const stepDur = (60 / o.settings.bpm) / 4;
+  const barDur = meterDef.eighths * 2 * stepDur;
+  const start = RENDER_LEAD_S + o.countInBars * barDur;
+  const silent: BackingSink = { guitar: () => {}, bass: () => {}, drum: () => {}, click: () => {} };
+  const { duration } = renderBacking(silent, o.settings, o.song, o.order, o.loops, start);
+
+  const ctx = new OfflineAudioContext(2, Math.ceil((start + duration + RENDER_TAIL_S) * WAV_SAMPLE_RATE), WAV_SAMPLE_RATE);
+  const graph = createMixerGraph(ctx);
+  const mixer = stem
+    ? Object.fromEntries(BUS_NAMES.map(n => [n, { ...o.mixer[n], mute: n !== stem, solo: false }])) as MixerSettings
+    : o.mixer;
+  applyMixerSettings(graph, mixer, o.reverbMix);
+  const audible = (bus: BusName) => !stem || stem === bus;
+  const [guitar, bass] = await Promise.all([
+    audible("guitar") ? loadInstrumentVoice(ctx, o.instrument, graph.buses.guitar.input, undefined, () => o.pluck) : null,
+    audible("bass") && o.settings.bassEnabled ? loadInstrumentVoice(ctx, o.instrument, graph.buses.bass.input, undefined, () => o.pluck) : null,
+  ]);
+
+  const sink: BackingSink = {
+    guitar: (midi, time, dur, vel, note) => guitar?.play(midi, time, dur, vel, note),
+    bass: (midi, time, dur, vel) => bass?.play(midi, time, dur, vel),
+    drum: (name, time, gain) => synthDrum(ctx, graph.buses.drums.input, name, time, gain),
+    click: (time, accent) => synthClick(ctx, graph.buses.click.input, time, accent),
+  };
+  // contagem antes do início: vai direto ao master (toca mesmo com o click mudo e em todos os stems)
+  if (o.countInBars > 0) {
+    const countIn = ctx.createGain();
+    countIn.gain.value = DEFAULT_MIXER.click.gain;
+    countIn.connect(graph.master);
+    for (let bar = 0; bar < o.countInBars; bar++) {
+      beatStarts16(meterDef).forEach((s16, beat) => synthClick(ctx, countIn, RENDER_LEAD_S + bar * barDur + s16 * stepDur, beat === 0));
+    }
+  }
+  renderBacking(sink, o.settings, o.song, o.order, o.loops, start);
+  return ctx.startRendering();
+}
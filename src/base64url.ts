@@ -0,0 +1,14 @@
+/** ===== base64url =====
+ * Base64 sem padding e seguro em URL (link da música, data-URIs dos pacotes de amostras).
+ */
+export const toBase64Url = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+// também aceita base64 comum (com + / e padding), como vem nos data-URIs
+export const fromBase64Url = (s: string) => {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+};
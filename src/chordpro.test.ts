@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { parseChordPro, writeChordPro, type ChordProResolver, type ChordProSheet } from "./chordpro";
+import { CHORDPRO_RESOLVER } from "./song";
+
+// dicionário de brinquedo: tríades e Am7 existem; sus4 vira a tríade; H não é acorde
+const resolver: ChordProResolver<"4/4" | "3/4"> = {
+  chord: symbol => /^H/.test(symbol) ? null : symbol.endsWith("sus4") ? { key: symbol.slice(0, -4), exact: false } : { key: symbol, exact: true },
+  key: value => value === "D#" ? "Eb" : value || null,
+  tempo: bpm => Math.min(240, bpm),
+  meters: ["4/4", "3/4"],
+};
+
+describe("parseChordPro", () => {
+  it("lê diretivas, seções e o refrão repetido", () => {
+    const sheet = parseChordPro([
+      "# comentário",
+      "{title: Asa Branca}",
+      "{key: D#}",
+      "{time: 3/4}",
+      "{tempo: 300}",
+      "[G]Quando olhei a [C]terra ardendo",
+      "{start_of_chorus}",
+      "[D]Eu pergun[Dsus4]tei a [H7]Deus",
+      "{end_of_chorus}",
+      "{sov: Verso 2}",
+      "[Am7]Que braseiro",
+      "{eov}",
+      "{chorus}",
+    ].join("\r\n"), resolver);
+    expect(sheet).toEqual({
+      title: "Asa Branca", key: "Eb", bpm: 240, meter: "3/4",
+      sections: [{ name: "Verso", chords: ["G", "C"] }, { name: "Refrão", chords: ["D", "D"] }, { name: "Verso", chords: ["Am7"] }],
+      arrangement: [0, 1, 2, 1],
+      unvoiced: ["H7"],
+      approximated: [{ symbol: "Dsus4", key: "D" }],
+    });
+  });
+
+  it("ignora {key} vazio com o dicionário do app", () => {
+    for (const text of ["{key: }\n[C]la", "{key:}\n[C]la", "{key}\n[C]la"]) {
+      const sheet = parseChordPro(text, CHORDPRO_RESOLVER);
+      expect(sheet.key).toBeNull();
+      expect(sheet.sections).toEqual([{ name: "Verso", chords: ["C"] }]);
+    }
+    expect(parseChordPro("{key: Ebm}\n[]", CHORDPRO_RESOLVER).key).toBe("Ebm");
+  });
+
+  it("ignora fórmulas de compasso desconhecidas e seções vazias", () => {
+    const sheet = parseChordPro("{time: 7/8}\n{soc}\nsó letra\n{eoc}\n{chorus}\n", resolver);
+    expect(sheet.meter).toBeNull();
+    expect(sheet.sections).toEqual([]);
+    expect(sheet.arrangement).toEqual([]);
+  });
+});
+
+describe("writeChordPro", () => {
+  const sheet: ChordProSheet = {
+    title: "Teste", key: "Eb", meter: "4/4", bpm: 96, barBeats: 4,
+    sections: [
+      { id: "r", name: "Refrão", items: [{ symbol: "Eb", beats: 8 }, { symbol: "Cm", beats: 2 }, { symbol: "Bb/D", beats: 2 }] },
+      { id: "s", name: "Solo", items: [{ symbol: "Ab", beats: 4 }] },
+    ],
+    order: [{ sectionId: "r", repeats: 2 }, { sectionId: "s", repeats: 1 }, { sectionId: "r", repeats: 1 }],
+  };
+
+  it("escreve um acorde por compasso na ordem do arranjo", () => {
+    expect(writeChordPro(sheet)).toBe([
+      "{title: Teste}", "{key: Eb}", "{time: 4/4}", "{tempo: 96}",
+      "", "{start_of_chorus: Refrão}", "[Eb]  |  [Eb]  |  [Cm] [Bb/D]", "{end_of_chorus}", "{comment: 2x}",
+      "", "{comment: Solo}", "[Ab]",
+      "", "{chorus}",
+    ].join("\n") + "\n");
+  });
+
+  it("volta pelo leitor com as mesmas seções", () => {
+    const back = parseChordPro(writeChordPro(sheet), resolver);
+    expect(back.sections).toEqual([{ name: "Refrão", chords: ["Eb", "Eb", "Cm", "Bb/D"] }, { name: "Verso", chords: ["Ab"] }]);
+    expect(back.arrangement).toEqual([0, 1, 0]);
+    expect(back.bpm).toBe(96);
+  });
+});
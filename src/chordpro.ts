@@ -0,0 +1,125 @@
+/** ===== ChordPro =====
+ * Importa folhas no formato ChordPro ({title}, {key}, [Am]letra, {start_of_chorus}...)
+ * como seções da música. ChordPro não tem duração: cada acorde vira um compasso.
+ * Acordes sem voicing no dicionário são descartados e listados em `unvoiced`;
+ * os que caem numa aproximação (Csus4 -> C) ficam em `approximated`.
+ * O dicionário, as tonalidades e as fórmulas de compasso vêm do App pelo `ChordProResolver`.
+ */
+export type ChordProImport<M extends string = string> = {
+  title: string | null;
+  key: string | null;
+  bpm: number | null;
+  meter: M | null;
+  sections: { name: string; chords: string[] }[]; // chaves do dicionário, um compasso cada
+  arrangement: number[]; // índices em `sections`, na ordem da folha
+  unvoiced: string[];
+  approximated: { symbol: string; key: string }[];
+};
+
+export type ChordProResolver<M extends string = string> = {
+  chord: (symbol: string) => { key: string; exact: boolean } | null; // null = sem voicing
+  key: (value: string) => string | null;
+  tempo: (bpm: number) => number;
+  meters: readonly M[];
+};
+
+const CHORDPRO_ENVIRONMENTS: Record<string, string> = {
+  start_of_verse: "Verso", sov: "Verso",
+  start_of_chorus: "Refrão", soc: "Refrão",
+  start_of_bridge: "Ponte", sob: "Ponte",
+  start_of_intro: "Intro", start_of_outro: "Final",
+};
+
+export function parseChordPro<M extends string>(text: string, resolve: ChordProResolver<M>): ChordProImport<M> {
+  const out: ChordProImport<M> = { title: null, key: null, bpm: null, meter: null, sections: [], arrangement: [], unvoiced: [], approximated: [] };
+  let current: { name: string; chords: string[] } | null = null;
+  let lastChorus = -1;
+  const close = () => {
+    if (current && current.chords.length) {
+      out.sections.push(current);
+      out.arrangement.push(out.sections.length - 1);
+      if (current.name === "Refrão") lastChorus = out.sections.length - 1;
+    }
+    current = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("#")) continue;
+    const directive = line.match(/^\{\s*([\w-]+)\s*(?::\s*(.*?))?\s*\}$/);
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = directive[2] ?? "";
+      if (name === "title" || name === "t") out.title = value;
+      else if (name === "key") out.key = resolve.key(value);
+      else if (name === "tempo") out.bpm = Number(value) ? resolve.tempo(Number(value)) : out.bpm;
+      else if (name === "time") out.meter = resolve.meters.find(m => m === value) ?? out.meter;
+      else if (name in CHORDPRO_ENVIRONMENTS) { close(); current = { name: CHORDPRO_ENVIRONMENTS[name], chords: [] }; }
+      else if (name.startsWith("end_of_") || name.startsWith("eo")) close();
+      else if (name === "chorus" && lastChorus >= 0) { close(); out.arrangement.push(lastChorus); }
+      continue;
+    }
+    for (const m of line.matchAll(/\[([^\]]+)\]/g)) {
+      const symbol = m[1].trim();
+      const found = resolve.chord(symbol);
+      if (!found) {
+        if (!out.unvoiced.includes(symbol)) out.unvoiced.push(symbol);
+        continue;
+      }
+      if (!found.exact && !out.approximated.some(a => a.symbol === symbol)) out.approximated.push({ symbol, key: found.key });
+      if (!current) current = { name: "Verso", chords: [] };
+      current.chords.push(found.key);
+    }
+  }
+  close();
+  return out;
+}
+
+// O que a exportação precisa da música: acordes já grafados no tom, tempos por compasso e o arranjo
+export type ChordProSheet = {
+  title: string;
+  key: string;
+  meter: string;
+  bpm: number;
+  barBeats: number;
+  sections: { id: string; name: string; items: { symbol: string; beats: number }[] }[];
+  order: { sectionId: string; repeats: number }[];
+};
+
+// Exporta na ordem do arranjo; uma seção já escrita volta como {chorus} ou {comment}
+const CHORDPRO_ENV_BY_NAME: Record<string, string> = { "Verso": "verse", "Refrão": "chorus", "Ponte": "bridge" };
+export function writeChordPro(sheet: ChordProSheet): string {
+  const { barBeats } = sheet;
+  const lines = [`{title: ${sheet.title}}`, `{key: ${sheet.key}}`, `{time: ${sheet.meter}}`, `{tempo: ${sheet.bpm}}`];
+  const written = new Set<string>();
+  for (const entry of sheet.order) {
+    const sec = sheet.sections.find(x => x.id === entry.sectionId);
+    if (!sec) continue;
+    const env = CHORDPRO_ENV_BY_NAME[sec.name];
+    lines.push("");
+    if (written.has(sec.id)) {
+      lines.push(env === "chorus" ? "{chorus}" : `{comment: ${sec.name}}`);
+      continue;
+    }
+    written.add(sec.id);
+    lines.push(env ? `{start_of_${env}: ${sec.name}}` : `{comment: ${sec.name}}`);
+    // um acorde por compasso: acordes de vários compassos se repetem, compassos divididos ficam juntos
+    const bars: string[] = [];
+    let bar = "";
+    let beatsInBar = 0;
+    for (const it of sec.items) {
+      const sym = `[${it.symbol}]`;
+      for (let left = it.beats; left > 0;) {
+        const take = Math.min(left, barBeats - beatsInBar);
+        if (beatsInBar === 0 || left === it.beats) bar += (bar ? " " : "") + sym;
+        beatsInBar += take; left -= take;
+        if (beatsInBar >= barBeats) { bars.push(bar); bar = ""; beatsInBar = 0; }
+      }
+    }
+    if (bar) bars.push(bar);
+    for (let i = 0; i < bars.length; i += 4) lines.push(bars.slice(i, i + 4).join("  |  "));
+    if (env) lines.push(`{end_of_${env}}`);
+    if (entry.repeats > 1) lines.push(`{comment: ${entry.repeats}x}`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { encodeMidiFile, MIDI_PPQ, midiVlq, type MidiTrack } from "./midi";
+
+const FOUR_FOUR = { id: "4/4", groups: [2, 2, 2, 2] };
+
+// lê os chunks MTrk de volta em eventos com tick absoluto (sem running status, como o codificador grava)
+function readTracks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tracks: { tick: number; bytes: number[] }[][] = [];
+  let at = 14;
+  while (at < bytes.length) {
+    const end = at + 8 + view.getUint32(at + 4);
+    const events: { tick: number; bytes: number[] }[] = [];
+    let tick = 0;
+    for (let p = at + 8; p < end;) {
+      let delta = 0;
+      for (let b = 0x80; b & 0x80; p++) { b = bytes[p]; delta = (delta << 7) | (b & 0x7f); }
+      tick += delta;
+      const status = bytes[p];
+      const len = status === 0xff ? 3 + bytes[p + 2] : (status & 0xf0) === 0xc0 ? 2 : 3;
+      events.push({ tick, bytes: [...bytes.subarray(p, p + len)] });
+      p += len;
+    }
+    tracks.push(events);
+    at = end;
+  }
+  return tracks;
+}
+
+describe("midiVlq", () => {
+  it("codifica quantidades de tamanho variável", () => {
+    expect(midiVlq(0)).toEqual([0x00]);
+    expect(midiVlq(0x7f)).toEqual([0x7f]);
+    expect(midiVlq(0x80)).toEqual([0x81, 0x00]);
+    expect(midiVlq(0x3fff)).toEqual([0xff, 0x7f]);
+    expect(midiVlq(0x200000)).toEqual([0x81, 0x80, 0x80, 0x00]);
+  });
+});
+
+describe("encodeMidiFile", () => {
+  it("grava o cabeçalho formato 1 e a faixa de tempo", () => {
+    const bytes = encodeMidiFile("Teste", 120, FOUR_FOUR, [{ time: 2, name: "Refrão" }], []);
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe("MThd");
+    expect([...bytes.subarray(8, 14)]).toEqual([0x00, 0x01, 0x00, 0x01, MIDI_PPQ >> 8, MIDI_PPQ & 0xff]);
+    const [conductor] = readTracks(bytes);
+    expect(conductor[1].bytes).toEqual([0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]); // 500000 µs por semínima
+    expect(conductor[2].bytes).toEqual([0xff, 0x58, 0x04, 4, 2, 24, 8]);
+    expect(conductor[3]).toEqual({ tick: 4 * MIDI_PPQ, bytes: [0xff, 0x06, 7, ...new TextEncoder().encode("Refrão")] });
+    expect(conductor.at(-1)!.bytes).toEqual([0xff, 0x2f, 0x00]);
+  });
+
+  it("usa o tempo composto como batida do metrônomo em 6/8", () => {
+    const [conductor] = readTracks(encodeMidiFile("", 90, { id: "6/8", groups: [3, 3] }, [], []));
+    expect(conductor[2].bytes).toEqual([0xff, 0x58, 0x04, 6, 3, 36, 8]);
+  });
+
+  it("grava programa, notas e note-off antes do note-on no mesmo tick", () => {
+    const track: MidiTrack = { name: "Violão", channel: 0, program: 24, notes: [
+      { time: 0, midi: 60, dur: 0.5, vel: 1 },
+      { time: 0.5, midi: 60, dur: 0.5, vel: 0.5 },
+    ] };
+    const [, guitar] = readTracks(encodeMidiFile("", 120, FOUR_FOUR, [], [track]));
+    expect(guitar.slice(1, -1)).toEqual([
+      { tick: 0, bytes: [0xc0, 24] },
+      { tick: 0, bytes: [0x90, 60, 127] },
+      { tick: MIDI_PPQ, bytes: [0x80, 60, 0] },
+      { tick: MIDI_PPQ, bytes: [0x90, 60, 64] },
+      { tick: 2 * MIDI_PPQ, bytes: [0x80, 60, 0] },
+    ]);
+  });
+
+  it("encurta notas sobrepostas da mesma altura e junta uníssonos", () => {
+    const track: MidiTrack = { name: "Baixo", channel: 1, program: null, notes: [
+      { time: 0, midi: 40, dur: 2, vel: 1 },
+      { time: 0.25, midi: 40, dur: 0.25, vel: 1 },
+      { time: 0.25, midi: 40, dur: 1, vel: 1 },
+      { time: 0, midi: 47, dur: 2, vel: 1 },
+    ] };
+    const [, bass] = readTracks(encodeMidiFile("", 120, FOUR_FOUR, [], [track]));
+    const notes = bass.filter(e => (e.bytes[0] & 0xe0) === 0x80).map(e => [e.tick, e.bytes[0] & 0xf0, e.bytes[1]]);
+    expect(notes).toEqual([
+      [0, 0x90, 40], [0, 0x90, 47],
+      [MIDI_PPQ / 2, 0x80, 40], [MIDI_PPQ / 2, 0x90, 40],
+      [2 * MIDI_PPQ + MIDI_PPQ / 2, 0x80, 40],
+      [4 * MIDI_PPQ, 0x80, 47],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/** ===== Standard MIDI File =====
+ * Formato 1: faixa 0 com tempo, fórmula de compasso e marcadores de seção;
+ * uma faixa por instrumento, cada uma no seu canal. Tempos das notas em segundos.
+ */
+export const MIDI_PPQ = 480;
+
+export type MidiNote = { time: number; midi: number; dur: number; vel: number }; // segundos
+export type MidiTrack = { name: string; channel: number; program: number | null; notes: MidiNote[] };
+export type MidiMarker = { time: number; name: string };
+// fórmula "n/d" e os tempos em colcheias ([2,2,3] no 7/8)
+export type MidiMeter = { id: string; groups: readonly number[] };
+
+export const midiVlq = (n: number): number[] => {
+  const out = [n & 0x7f];
+  while ((n >>= 7) > 0) out.unshift((n & 0x7f) | 0x80);
+  return out;
+};
+const midiText = (s: string) => Array.from(new TextEncoder().encode(s));
+const midiU32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+
+// eventos com tick absoluto -> bytes do chunk MTrk (delta-times, ordem estável, end of track)
+function midiTrackChunk(events: { tick: number; order: number; bytes: number[] }[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let last = 0;
+  for (const e of sorted) {
+    data.push(...midiVlq(e.tick - last), ...e.bytes);
+    last = e.tick;
+  }
+  data.push(0x00, 0xff, 0x2f, 0x00);
+  return [...midiText("MTrk"), ...midiU32(data.length), ...data];
+}
+
+export function encodeMidiFile(title: string, bpm: number, meter: MidiMeter, markers: MidiMarker[], tracks: MidiTrack[]): Uint8Array<ArrayBuffer> {
+  const toTick = (sec: number) => Math.max(0, Math.round(sec * (bpm / 60) * MIDI_PPQ));
+  const [num, den] = meter.id.split("/").map(Number);
+  const groups = meter.groups;
+  // clocks por batida do metrônomo: semínima (24) ou, em x/8 com tempos iguais, o tempo composto
+  const clocks = den === 4 ? 24 : groups.every(g => g === groups[0]) ? 12 * groups[0] : 12;
+  const usPerQuarter = Math.round(60_000_000 / bpm);
+
+  const conductor = [
+    { tick: 0, order: 0, bytes: [0xff, 0x03, ...midiVlq(midiText(title).length), ...midiText(title)] },
+    { tick: 0, order: 1, bytes: [0xff, 0x51, 0x03, (usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff] },
+    { tick: 0, order: 2, bytes: [0xff, 0x58, 0x04, num, Math.log2(den), clocks, 8] },
+    ...markers.map(m => ({ tick: toTick(m.time), order: 3, bytes: [0xff, 0x06, ...midiVlq(midiText(m.name).length), ...midiText(m.name)] })),
+  ];
+
+  const chunks = [midiTrackChunk(conductor)];
+  for (const tr of tracks) {
+    const ev = [{ tick: 0, order: 0, bytes: [0xff, 0x03, ...midiVlq(midiText(tr.name).length), ...midiText(tr.name)] }];
+    if (tr.program !== null) ev.push({ tick: 0, order: 1, bytes: [0xc0 | tr.channel, tr.program] });
+    // por altura, o note-off vem no máximo no note-on seguinte da mesma altura: notas longas em batidas
+    // rápidas se sobrepõem e o off da primeira cortaria a segunda (uníssonos no mesmo tick viram uma nota)
+    const notes = tr.notes.map(n => ({ midi: n.midi, on: toTick(n.time), end: toTick(n.time + n.dur), vel: n.vel }))
+      .sort((x, y) => x.midi - y.midi || x.on - y.on);
+    notes.forEach((n, i) => {
+      const nextOn = notes[i + 1]?.midi === n.midi ? notes[i + 1].on : Infinity;
+      if (nextOn === n.on) return;
+      const off = Math.min(Math.max(n.on + 1, n.end), nextOn);
+      const vel = Math.max(1, Math.min(127, Math.round(n.vel * 127)));
+      // note-off antes de note-on no mesmo tick (repetições da mesma nota não se cortam)
+      ev.push({ tick: n.on, order: 3, bytes: [0x90 | tr.channel, n.midi, vel] });
+      ev.push({ tick: off, order: 2, bytes: [0x80 | tr.channel, n.midi, 0] });
+    });
+    chunks.push(midiTrackChunk(ev));
+  }
+
+  const header = [...midiText("MThd"), ...midiU32(6), 0x00, 0x01, 0x00, chunks.length, (MIDI_PPQ >> 8) & 0xff, MIDI_PPQ & 0xff];
+  return Uint8Array.from([...header, ...chunks.flat()]);
+}
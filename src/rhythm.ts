@@ -0,0 +1,496 @@
+import type { DrumSampleName } from "./audio";
+
+/** ===== Tipos ===== */
+// X = abafada (chuck): a mão abafa as cordas durante a batida; S = tapa (slap): todas as cordas de uma vez, secas;
+// B/T = só os bordões / só as primas (para baixo); G = fantasma: raspada leve para cima nas primas
+export type Step = "D" | "U" | "X" | "S" | "B" | "T" | "G" | "-";
+// grade do padrão: colcheias, semicolcheias ou tercinas (3 por tempo)
+export type PatternResolution = "8" | "16" | "8t";
+// dedilhado: cordas por papel na forma, não por índice. b/b1/b2 = corda do baixo e as seguintes para cima;
+// i/m/a = terceira, segunda e primeira cordas mais agudas que soam
+export type PickRole = "b" | "b1" | "b2" | "i" | "m" | "a";
+// compasso: padrões sem `meter` são 4/4. Os passos cobrem um compasso na resolução (colcheias sem `resolution`);
+// velocities (0..1 por passo) valem no lugar dos acentos
+type PatternBase = { id: string; label: string; velocities?: number[]; resolution?: PatternResolution; meter?: MeterId };
+type StrumPattern = PatternBase & { kind?: "strum"; steps: Step[]; accents?: number[] };
+// picks: papéis tocados juntos em cada passo (pinça); [] = pausa
+type PickPattern = PatternBase & { kind: "pick"; picks: PickRole[][] };
+export type Pattern = StrumPattern | PickPattern;
+
+/** ===== Fórmulas de compasso ===== */
+export type MeterId = "4/4" | "3/4" | "6/8" | "5/4" | "7/8" | "12/8";
+// eighths = colcheias por compasso; groups = tempos (em colcheias), ex.: 7/8 = 2+2+3
+type Meter = { id: MeterId; label: string; eighths: number; groups: number[] };
+export const METERS: Record<MeterId, Meter> = {
+  "4/4":  { id: "4/4",  label: "4/4",  eighths: 8,  groups: [2,2,2,2] },
+  "3/4":  { id: "3/4",  label: "3/4 (Valsa)", eighths: 6, groups: [2,2,2] },
+  "6/8":  { id: "6/8",  label: "6/8",  eighths: 6,  groups: [3,3] },
+  "5/4":  { id: "5/4",  label: "5/4",  eighths: 10, groups: [2,2,2,2,2] },
+  "7/8":  { id: "7/8",  label: "7/8 (2+2+3)", eighths: 7, groups: [2,2,3] },
+  "12/8": { id: "12/8", label: "12/8", eighths: 12, groups: [3,3,3,3] },
+};
+export const METER_IDS = Object.keys(METERS) as MeterId[];
+export const meterOf = (p: { meter?: MeterId }) => p.meter ?? "4/4";
+// semicolcheias em que cada tempo do compasso começa
+export const beatStarts16 = (m: Meter) => {
+  const out: number[] = []; let pos = 0;
+  for (const g of m.groups) { out.push(pos); pos += g * 2; }
+  return out;
+};
+
+export const STEP_TYPES: Step[] = ["-", "D", "U", "X", "S", "B", "T", "G"];
+export const STEP_NAMES: Record<Step, string> = {
+  "-": "pausa", D: "para baixo", U: "para cima", X: "abafada", S: "tapa", B: "bordões", T: "primas", G: "fantasma",
+};
+export const PATTERN_RESOLUTIONS: Record<PatternResolution, string> = { "8": "Colcheias", "16": "Semicolcheias", "8t": "Tercinas" };
+// passos por compasso e posição de cada um em semicolcheias (tercinas caem entre elas)
+export const patternLength = (m: Meter, res: PatternResolution) => res === "16" ? m.eighths * 2 : res === "8t" ? m.groups.length * 3 : m.eighths;
+export function stepPositions16(m: Meter, res: PatternResolution): number[] {
+  if (res === "8t") {
+    const starts = beatStarts16(m);
+    return m.groups.flatMap((g, b) => [0, 1, 2].map(k => starts[b] + k * g * 2 / 3));
+  }
+  return Array.from({ length: patternLength(m, res) }, (_, i) => res === "16" ? i : i * 2);
+}
+export const stepVelocity = (p: Pattern, i: number) => p.velocities?.[i] ?? (p.kind !== "pick" && (p.accents ?? []).includes(i) ? 1 : 0.85);
+export const patternSize = (p: Pattern) => p.kind === "pick" ? p.picks.length : p.steps.length;
+
+// de cima para baixo, como no editor; offset conta a partir do baixo ou da corda mais aguda
+export const PICK_ROLES: Record<PickRole, { name: string; from: "bass" | "top"; offset: number }> = {
+  a:  { name: "a (anelar)",        from: "top",  offset: 0 },
+  m:  { name: "m (médio)",         from: "top",  offset: 1 },
+  i:  { name: "i (indicador)",     from: "top",  offset: 2 },
+  b2: { name: "p + 2 (polegar)",   from: "bass", offset: 2 },
+  b1: { name: "p + 1 (polegar)",   from: "bass", offset: 1 },
+  b:  { name: "p (baixo)",         from: "bass", offset: 0 },
+};
+export const PICK_ROLE_IDS = Object.keys(PICK_ROLES) as PickRole[];
+
+// Ajusta um padrão ao tamanho do compasso: corta o excesso ou repete desde o início
+export function fitSteps<T>(steps: T[], length: number): T[] {
+  if (steps.length === length || steps.length === 0) return steps;
+  return Array.from({ length }, (_, i) => steps[i % steps.length]);
+}
+
+// Linha do tempo da sequência em tempos: cada item dura `beats` tempos, podendo dividir
+// um compasso (2 acordes por compasso) ou atravessar vários (acorde ligado)
+export function sequenceTimeline(items: { beats: number }[], meter: Meter) {
+  const beatsPerBar = meter.groups.length;
+  const starts: number[] = [];
+  let total = 0;
+  for (const it of items) { starts.push(total); total += Math.max(1, it.beats); }
+  return { starts, totalBeats: total, beatsPerBar, bars: Math.max(1, Math.ceil(total / beatsPerBar)) };
+}
+// índice do item que soa no tempo `beat` (o último acorde segura até o fim do compasso)
+export const itemAtBeat = (starts: number[], beat: number) => {
+  let i = 0;
+  while (i + 1 < starts.length && starts[i + 1] <= beat) i++;
+  return i;
+};
+export const beatIn16 = (m: Meter, step16: number) => {
+  const starts = beatStarts16(m);
+  let b = 0;
+  while (b + 1 < starts.length && starts[b + 1] <= step16) b++;
+  return b;
+};
+
+/** ===== Ritmos ===== */
+type DrumHit = "k" | "s" | "h" | "o" | "-";
+// linhas em semicolcheias: 2 × meter.eighths passos (16 no 4/4)
+// velocidade 0..1 por passo em cada peça do kit (0 = não toca)
+export type DrumRows = Partial<Record<DrumSampleName, number[]>>;
+// embutidos: kick/snare/hihat liga/desliga; do usuário: variações A/B (alternam por compasso) e virada própria
+export type DrumPattern = {
+  label: string; meter?: MeterId;
+  kick?: DrumHit[]; snare?: DrumHit[]; hihat?: DrumHit[];
+  variations?: DrumRows[]; fill?: DrumRows;
+};
+
+export const PATTERNS: Pattern[] = [
+  { id: "down8", label: "D D D D D D D D", steps: ["D","D","D","D","D","D","D","D"], accents: [0,4] },
+  { id: "folk1", label: "D - D U - U D U (Folk)", steps: ["D","-","D","U","-","U","D","U"], accents: [0,2,6] },
+  { id: "pop1",  label: "D - U U - U - U (Pop)",  steps: ["D","-","U","U","-","U","-","U"], accents: [0,2,5] },
+  { id: "rock1", label: "D D U - U D U - (Rock)", steps: ["D","D","U","-","U","D","U","-"], accents:[0,1,5] },
+  { id: "reggae",label: "- U - U - U - U (Reggae)",steps: ["-","U","-","U","-","U","-","U"], accents: [1,3,5,7] },
+  { id: "bossa", label: "D - D U - U - U (Bossa)", steps: ["D","-","D","U","-","U","-","U"], accents: [0,2,5] },
+  { id: "chuck", label: "D - X U - U X U (Pop abafado)", steps: ["D","-","X","U","-","U","X","U"], accents: [0,2,6] },
+  { id: "waltz", label: "D - D U D U (Valsa 3/4)", steps: ["D","-","D","U","D","U"], accents: [0], meter: "3/4" },
+  { id: "guarania", label: "D - - D U - (Guarânia 3/4)", steps: ["D","-","-","D","U","-"], accents: [0,3], meter: "3/4" },
+  { id: "six8",  label: "D - U D - U (Balada 6/8)", steps: ["D","-","U","D","-","U"], accents: [0,3], meter: "6/8" },
+  { id: "five4", label: "D - D U D - D U D U (5/4)", steps: ["D","-","D","U","D","-","D","U","D","U"], accents: [0,6], meter: "5/4" },
+  { id: "seven8",label: "D U D U D U U (7/8)", steps: ["D","U","D","U","D","U","U"], accents: [0,2,4], meter: "7/8" },
+  { id: "rasgueado", label: "Rasgueado 12/8 (Flamenco)", steps: ["D","U","D","U","D","D","U","D","U","D","U","D"], accents: [2,5,7,9,11], meter: "12/8" },
+  // brasileiros em semicolcheias (o 4/4 conta dois compassos de 2/4)
+  { id: "pagode", label: "B - U D - U D U (Pagode)", resolution: "16",
+    steps: ["B","-","U","D","-","U","D","U","B","-","U","D","-","U","D","U"], accents: [0,3,8,11] },
+  { id: "baiao", label: "B - - D - - D - (Baião)", resolution: "16",
+    steps: ["B","-","-","D","-","-","D","-","B","-","-","D","-","-","D","-"], accents: [0,3,8,11] },
+  { id: "forro", label: "B - - X - - D U (Forró)", resolution: "16",
+    steps: ["B","-","-","X","-","-","D","U","B","-","-","X","-","-","D","U"], accents: [0,8] },
+  { id: "xote", label: "B - D - B U D U (Xote)", steps: ["B","-","D","-","B","U","D","U"], accents: [0,4] },
+  // dedilhados
+  { kind: "pick", id: "travis", label: "Travis (baixo alternado)", picks: [["b","a"],["i"],["b1"],["m"],["b"],["i"],["b1"],["m"]] },
+  { kind: "pick", id: "pima", label: "p-i-m-a (Clássico)", picks: [["b"],["i"],["m"],["a"],["b1"],["i"],["m"],["a"]] },
+  { kind: "pick", id: "bossa-pinch", label: "Bossa nova (polegar e pinça)", resolution: "16",
+    picks: [["b","i","m","a"],[],[],["i","m","a"],[],[],["i","m","a"],[],["b1"],[],["i","m","a"],[],["i","m","a"],[],[],[]] },
+  { kind: "pick", id: "samba-pick", label: "Samba (polegar e partido alto)", resolution: "16",
+    picks: [["b"],[],["i","m","a"],["i","m","a"],["b1"],["i","m","a"],[],["i","m","a"],["b"],[],["i","m","a"],["i","m","a"],["b1"],["i","m","a"],[],["i","m","a"]] },
+  { kind: "pick", id: "arp-triplet", label: "Arpejo em tercinas (Balada)", resolution: "8t",
+    picks: [["b"],["i"],["m"],["a"],["m"],["i"],["b1"],["i"],["m"],["a"],["m"],["i"]] },
+  { kind: "pick", id: "waltz-pick", label: "Valsa dedilhada (3/4)", picks: [["b"],[],["i","m","a"],[],["i","m","a"],[]], meter: "3/4" },
+  { kind: "pick", id: "six8-pick", label: "Arpejo 6/8", picks: [["b"],["i"],["m"],["a"],["m"],["i"]], meter: "6/8" },
+];
+
+// grade escrita como texto, um caractere por semicolcheia: X = acento, x = normal, . = fantasma, - = nada
+function drumGrid(rows: Partial<Record<DrumSampleName, string>>): DrumRows {
+  const level: Record<string, number> = { X: 1, x: 0.7, ".": 0.4 };
+  return Object.fromEntries(Object.entries(rows).map(([voice, line]) => [voice, Array.from(line, c => level[c] ?? 0)]));
+}
+
+export const DRUM_PATTERNS: Record<string, DrumPattern> = {
+  rock: {
+    label: "Rock Básico",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  pop: {
+    label: "Pop",
+    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  funk: {
+    label: "Funk",
+    kick:  ["k","-","k","-","-","-","k","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","s","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","o","h","h","h","h","h","h","h","o","h","h","h"]
+  },
+  disco: {
+    label: "Disco",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  reggae: {
+    label: "Reggae",
+    kick:  ["-","-","-","-","k","-","-","-","-","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","-","-","-","-","s","-","-","-","-","-","-","-"],
+    hihat: ["-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h"]
+  },
+  ballad: {
+    label: "Balada",
+    kick:  ["k","-","-","-","-","-","-","-","k","-","-","-","-","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","-","h","-","-","h","-","h","-","-","h","-","-","h","-"]
+  },
+  jazz: {
+    label: "Jazz Swing",
+    kick:  ["k","-","-","k","-","-","k","-","-","k","-","-","k","-","-","-"],
+    snare: ["-","-","s","-","-","s","-","-","s","-","-","s","-","-","s","-"],
+    hihat: ["h","-","h","h","-","h","h","-","h","h","-","h","h","-","h","h"]
+  },
+  blues: {
+    label: "Blues Shuffle",
+    kick:  ["k","-","-","-","-","-","k","-","k","-","-","-","-","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","h","-","h","h","-","h","h","-","h","h","-","h","h"]
+  },
+  latin: {
+    label: "Latin/Samba",
+    kick:  ["k","-","k","-","k","-","-","-","k","-","k","-","k","-","-","-"],
+    snare: ["-","-","-","s","-","-","s","-","-","-","-","s","-","-","s","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  country: {
+    label: "Country",
+    kick:  ["k","-","-","-","k","k","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","-","h","-","-","h","-","h","-","-","h","-","-","h","-"]
+  },
+  rock2: {
+    label: "Rock Pesado",
+    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  punk: {
+    label: "Punk Rock",
+    kick:  ["k","k","k","k","k","k","k","k","k","k","k","k","k","k","k","k"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  metal: {
+    label: "Metal",
+    kick:  ["k","-","k","k","-","-","k","k","k","-","k","k","-","-","k","k"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  hiphop: {
+    label: "Hip Hop",
+    kick:  ["k","-","-","-","-","-","k","-","k","-","-","-","-","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","h","-","h","h","-","h","-","h","h","-","h","h","-"]
+  },
+  trap: {
+    label: "Trap",
+    kick:  ["k","-","-","-","k","-","-","k","-","-","k","-","-","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  dnb: {
+    label: "Drum & Bass",
+    kick:  ["k","-","-","-","-","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","s","-","-","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  house: {
+    label: "House",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  techno: {
+    label: "Techno",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  edm: {
+    label: "EDM",
+    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["o","h","o","h","o","h","o","h","o","h","o","h","o","h","o","h"]
+  },
+  dubstep: {
+    label: "Dubstep",
+    kick:  ["k","-","-","-","-","-","-","-","k","-","-","k","-","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  afrobeat: {
+    label: "Afrobeat",
+    kick:  ["k","-","-","k","-","-","k","-","k","-","-","k","-","-","k","-"],
+    snare: ["-","-","s","-","-","s","-","-","-","-","s","-","-","s","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  rumba: {
+    label: "Rumba",
+    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","k","-"],
+    snare: ["-","-","-","s","-","-","-","-","-","-","-","s","-","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  calypso: {
+    label: "Calypso",
+    kick:  ["k","-","-","k","-","-","-","-","k","-","-","k","-","-","-","-"],
+    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  ska: {
+    label: "Ska",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","s","-","s","-","s","-","s","-","s","-","s","-","s","-","s"],
+    hihat: ["-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h"]
+  },
+  gospel: {
+    label: "Gospel",
+    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","s","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","h","-","h","h","-","h","-","h","h","-","h","h","-"]
+  },
+  rnb: {
+    label: "R&B",
+    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","-","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  soul: {
+    label: "Soul",
+    kick:  ["k","-","-","-","k","-","-","-","k","-","-","-","k","-","-","k"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  motown: {
+    label: "Motown",
+    kick:  ["k","-","-","-","k","-","k","-","k","-","-","-","k","-","k","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","h","h","h","h","h","h","h","h","h","h","h","h","h","h","h"]
+  },
+  waltz: {
+    label: "Valsa 3/4",
+    meter: "3/4",
+    kick:  ["k","-","-","-","-","-","-","-","-","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","s","-","-","-"],
+    hihat: ["h","-","-","-","h","-","-","-","h","-","-","-"]
+  },
+  six8: {
+    label: "Balada 6/8",
+    meter: "6/8",
+    kick:  ["k","-","-","-","-","-","-","-","-","-","k","-"],
+    snare: ["-","-","-","-","-","-","s","-","-","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  five4: {
+    label: "Jazz 5/4",
+    meter: "5/4",
+    kick:  ["k","-","-","-","-","-","-","-","-","-","-","-","k","-","-","-","-","-","-","-"],
+    snare: ["-","-","-","-","-","-","s","-","-","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","-","h","h","-","-","h","h","-","-","h","h","-","-","h","h","-","-","h"]
+  },
+  seven8: {
+    label: "Balkan 7/8",
+    meter: "7/8",
+    kick:  ["k","-","-","-","k","-","-","-","-","-","-","-","-","-"],
+    snare: ["-","-","-","-","-","-","-","-","s","-","-","-","s","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  march: {
+    label: "Marcha",
+    kick:  ["k","-","k","-","k","-","k","-","k","-","k","-","k","-","k","-"],
+    snare: ["-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
+    hihat: ["-","-","-","-","-","-","-","-","-","-","-","-","-","-","-","-"]
+  },
+  tango: {
+    label: "Tango",
+    kick:  ["k","-","k","-","-","-","-","-","k","-","k","-","-","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","-","-","s","-","-","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  bolero: {
+    label: "Bolero",
+    kick:  ["k","-","-","-","-","-","k","-","-","-","k","-","-","-","-","-"],
+    snare: ["-","-","s","-","-","-","-","-","s","-","-","-","-","-","s","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  flamenco: {
+    label: "Flamenco 12/8 (Bulería)",
+    meter: "12/8",
+    kick:  ["k","-","-","-","-","-","-","-","-","-","k","-","-","-","-","-","-","-","-","-","-","-","-","-"],
+    snare: ["-","-","-","-","s","-","-","-","-","-","s","-","-","-","s","-","-","-","s","-","-","-","s","-"],
+    hihat: ["h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-","h","-"]
+  },
+  // percussão brasileira (o 4/4 conta dois compassos de 2/4)
+  samba: {
+    label: "Samba (surdo, pandeiro, tamborim)",
+    variations: [
+      drumGrid({ surdo: ".---X---.---X---", pandeiro: "x..Xx..Xx..Xx..X", tamborim: "X-X-XX-X-X-XX-X-", agogo: "X-x---x-X-x-x---" }),
+      drumGrid({ surdo: ".---X---.---X--x", pandeiro: "x..Xx..Xx..Xx..X", tamborim: "X-XX-X-X-XX-X-X-", agogo: "X-x---x-X-x-x---" }),
+    ],
+    fill: drumGrid({ surdo: ".---X---X-X-X-X-", pandeiro: "x..Xx..Xx..XX.XX", tamborim: "X-X-XX-X-XXXXXXX" }),
+  },
+  pagode: {
+    label: "Pagode (tantã, pandeiro, palmas)",
+    variations: [drumGrid({ surdo: "x---X--.x---X--.", pandeiro: "x..Xx..Xx..Xx..X", tamborim: "--X--X-X--X--X-X", clap: "----x-------x---" })],
+  },
+  baiao: {
+    label: "Baião (zabumba, triângulo)",
+    variations: [drumGrid({ zabumba: "X--X----X--X----", rim: "----x-x-----x-x-", triangulo: "x.Xxx.Xxx.Xxx.Xx" })],
+  },
+  forro: {
+    label: "Forró / Arrasta-pé",
+    variations: [drumGrid({ zabumba: "X--X--x-X--X--x-", rim: "----x-x-----x-x-", triangulo: "xxXxxxXxxxXxxxXx", shaker: "x.x.x.x.x.x.x.x." })],
+  },
+  xote: {
+    label: "Xote",
+    variations: [drumGrid({ zabumba: "X-----x-X-------", rim: "----x-------x---", triangulo: "x-X-x-X-x-X-x-X-" })],
+  },
+  mpb: {
+    label: "MPB / Bossa (aro e chimbal)",
+    variations: [drumGrid({ kick: "X--xX--xX--xX--x", rim: "X--X--X---X--X--", hihat: "x-x-x-x-x-x-x-x-" })],
+  },
+};
+
+// Linhas de baixo (em colcheias). meter "any" = serve para qualquer compasso (o padrão de 8 é cortado ou repetido).
+// Graus relativos ao acorde que soa: a terça, a quinta e a sétima seguem a qualidade (menor, diminuto, sus...);
+// A = aproximação cromática da fundamental do próximo acorde; "_" no fim = oitava abaixo; "-" = pausa
+export type BassDegree = "R" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "A";
+export type BassStep = BassDegree | `${BassDegree}_` | "-";
+export type BassPattern = { id: string; label: string; meter: MeterId | "any"; steps: BassStep[] };
+export const BASS_DEGREES: Record<BassDegree, string> = {
+  R: "fundamental", "2": "nona", "3": "terça", "4": "quarta", "5": "quinta", "6": "sexta", "7": "sétima", "8": "oitava", A: "aproximação",
+};
+export const BASS_STEPS: BassStep[] = ["-", ...(Object.keys(BASS_DEGREES) as BassDegree[]).flatMap(d => [d, `${d}_` as BassStep])];
+export const BASS_PATTERNS: BassPattern[] = [
+  { id: "steady",     label: "1. Steady (Fundamental)",       meter: "any", steps: ["R","R","R","R","R","R","R","R"] },
+  { id: "root-fifth", label: "2. Fundamental + Quinta",       meter: "4/4", steps: ["R","R","5","R","R","R","5","R"] },
+  { id: "octave",     label: "3. Oitavas Alternadas",         meter: "any", steps: ["R","8","R","8","R","8","R","8"] },
+  { id: "walking",    label: "4. Walking Bass Clássico",      meter: "4/4", steps: ["R","2","3","4","5","4","3","2"] },
+  { id: "jazz-walk",  label: "5. Walking Jazz Cromático",     meter: "4/4", steps: ["R","2","3","4","5","6","7","A"] },
+  { id: "arpeggio",   label: "6. Arpejo Ascendente",          meter: "4/4", steps: ["R","3","5","8","R","3","5","8"] },
+  { id: "swing",      label: "7. Swing Jazz",                 meter: "4/4", steps: ["R","-","5","R","-","5","R","-"] },
+  { id: "bossa",      label: "8. Bossa Nova",                 meter: "4/4", steps: ["R","-","5","R","-","R","-","-"] },
+  { id: "reggae",     label: "9. Reggae (Batidas 1 e 3)",     meter: "4/4", steps: ["R","-","R","-","R","-","R","-"] },
+  { id: "disco",      label: "10. Disco (Batidas Pares)",     meter: "any", steps: ["R","-","R","-","R","-","R","-"] },
+  { id: "funk",       label: "11. Funk Syncopated",           meter: "4/4", steps: ["R","R","5","R","-","-","R","R"] },
+  { id: "rock",       label: "12. Rock Alternado",            meter: "4/4", steps: ["R","R","R","R","5","R","R","R"] },
+  { id: "blues",      label: "13. Blues Shuffle",             meter: "4/4", steps: ["R","R","7_","R","5","R","4","R"] },
+  { id: "latin",      label: "14. Latin/Salsa",               meter: "4/4", steps: ["R","5","R","5","R","5","R","5"] },
+  { id: "country",    label: "15. Country",                   meter: "4/4", steps: ["R","R","4","R","5","R","4","R"] },
+  { id: "metal",      label: "16. Metal (Colcheias)",         meter: "any", steps: ["R","-","R","-","R","-","R","-"] },
+  { id: "punk",       label: "17. Punk (Contínuo)",           meter: "any", steps: ["R","R","R","R","R","R","R","R"] },
+  { id: "hiphop",     label: "18. Hip Hop",                   meter: "4/4", steps: ["R","-","R","5","R","-","R","5"] },
+  { id: "trap",       label: "19. Trap (Sub Bass)",           meter: "4/4", steps: ["R","-","R_","-","R","-","R_","-"] },
+  { id: "dnb",        label: "20. Drum & Bass",               meter: "4/4", steps: ["R","-","5","-","R","-","5","-"] },
+  { id: "techno",     label: "21. Techno (Four-on-Floor)",    meter: "any", steps: ["R","R","R","R","R","R","R","R"] },
+  { id: "house",      label: "22. House",                     meter: "any", steps: ["R","-","R","-","R","-","R","-"] },
+  { id: "dubstep",    label: "23. Dubstep (Wobble)",          meter: "4/4", steps: ["R","-","R_","-","R","-","R_","-"] },
+  { id: "ska",        label: "24. Ska (Upbeat)",              meter: "any", steps: ["-","R","-","R","-","R","-","R"] },
+  { id: "waltz",      label: "25. Valsa (1 - 5 - 5)",         meter: "3/4", steps: ["R","-","5","-","5","-"] },
+  { id: "six8",       label: "26. 6/8 (Fundamental + Quinta)", meter: "6/8", steps: ["R","-","-","5","-","-"] },
+  { id: "five4",      label: "27. 5/4 (3+2)",                 meter: "5/4", steps: ["R","-","-","5","-","-","R","-","5","-"] },
+  { id: "seven8",     label: "28. 7/8 (2+2+3)",               meter: "7/8", steps: ["R","-","R","-","5","-","-"] },
+  { id: "twelve8",    label: "29. 12/8 Shuffle",              meter: "12/8", steps: ["R","-","-","5","-","-","8","-","-","5","-","-"] },
+  { id: "samba",      label: "30. Samba (1 e 5 grave)",       meter: "4/4", steps: ["R","-","5_","-","R","-","5_","5_"] },
+  { id: "pagode",     label: "31. Pagode",                    meter: "4/4", steps: ["R","-","5_","R","-","R","5_","-"] },
+  { id: "baiao",      label: "32. Baião / Forró",             meter: "4/4", steps: ["R","-","-","5","R","-","-","5"] },
+  { id: "xote",       label: "33. Xote",                      meter: "4/4", steps: ["R","-","-","5","R","-","3","-"] },
+];
+export const bassFitsMeter = (id: string, meter: MeterId, patterns: BassPattern[] = BASS_PATTERNS) => {
+  const bp = patterns.find(b => b.id === id);
+  return !!bp && (bp.meter === "any" || bp.meter === meter);
+};
+
+// Swing nas colcheias (shuffle) ou nas semicolcheias (balanço do samba, do pagode e do baião)
+export type SwingGrid = "8" | "16";
+export const SWING_GRIDS: Record<SwingGrid, string> = { "8": "Colcheias", "16": "Semicolcheias (samba)" };
+
+// Grooves: batida ou dedilhado, bateria e baixo que tocam juntos, com andamento e balanço típicos
+export type Groove = {
+  id: string; label: string; meter: MeterId; patternId: string; drumPatternId: string; bassPattern: string;
+  bpm: number; swing: number; swingGrid: SwingGrid;
+};
+export const GROOVES: Groove[] = [
+  { id: "samba",  label: "Samba",  meter: "4/4", patternId: "samba-pick",  drumPatternId: "samba",  bassPattern: "samba",  bpm: 96,  swing: 0.12, swingGrid: "16" },
+  { id: "pagode", label: "Pagode", meter: "4/4", patternId: "pagode",      drumPatternId: "pagode", bassPattern: "pagode", bpm: 88,  swing: 0.1,  swingGrid: "16" },
+  { id: "baiao",  label: "Baião",  meter: "4/4", patternId: "baiao",       drumPatternId: "baiao",  bassPattern: "baiao",  bpm: 100, swing: 0.06, swingGrid: "16" },
+  { id: "forro",  label: "Forró",  meter: "4/4", patternId: "forro",       drumPatternId: "forro",  bassPattern: "baiao",  bpm: 120, swing: 0.06, swingGrid: "16" },
+  { id: "xote",   label: "Xote",   meter: "4/4", patternId: "xote",        drumPatternId: "xote",   bassPattern: "xote",   bpm: 80,  swing: 0.1,  swingGrid: "8" },
+  { id: "mpb",    label: "MPB",    meter: "4/4", patternId: "bossa-pinch", drumPatternId: "mpb",    bassPattern: "bossa",  bpm: 72,  swing: 0.04, swingGrid: "16" },
+];
+
+// virada: último tempo do compasso em semicolcheias, caixa descendo pelos tons em crescendo
+const FILL_VOICES: DrumSampleName[] = ["snare", "tomHigh", "tomMid", "tomLow"];
+function autoFill(rows: DrumRows, m: Meter): DrumRows {
+  const barSteps = m.eighths * 2;
+  const from = beatStarts16(m).at(-1) ?? 0;
+  const len = barSteps - from;
+  const out: DrumRows = Object.fromEntries(Object.entries(rows).map(([voice, vels]) => [
+    voice, vels.map((v, i) => i < from || (voice === "kick" && i === from) ? v : 0),
+  ]));
+  for (let i = 0; i < len; i++) {
+    const voice = FILL_VOICES[Math.floor(i * FILL_VOICES.length / len)];
+    out[voice] = (out[voice] ?? Array(barSteps).fill(0)).map((v, j) => j === from + i ? 0.6 + 0.4 * i / Math.max(1, len - 1) : v);
+  }
+  return out;
+}
+
+// grade de um padrão no compasso: variações (no mínimo A) e a virada (gerada quando o padrão não tem)
+export function drumBars(p: DrumPattern, m: Meter): { variations: DrumRows[]; fill: DrumRows } {
+  const barSteps = m.eighths * 2;
+  const fit = (rows: DrumRows): DrumRows => Object.fromEntries(Object.entries(rows).map(([voice, vels]) => [voice, fitSteps(vels, barSteps)]));
+  const row = (hits: DrumHit[] | undefined, hit: DrumHit) => fitSteps(hits ?? [], barSteps).map(h => h === hit ? 1 : 0);
+  const variations = p.variations?.length ? p.variations.map(fit) : [{
+    kick: row(p.kick, "k"), snare: row(p.snare, "s"), hihat: row(p.hihat, "h"), openhat: row(p.hihat, "o"),
+  }];
+  return { variations, fill: p.fill ? fit(p.fill) : autoFill(variations[0], m) };
+}
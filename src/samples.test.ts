@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { noteNameToMidi, parseNotePack, parseSf2 } from "./samples";
+
+// RIFF/sfbk mínimo: LIST sdta com smpl (PCM 16-bit) e LIST pdta com shdr (46 bytes por amostra)
+type Sf2Header = { name: string; start: number; end: number; loopStart: number; loopEnd: number; sampleRate: number; pitch: number; type: number };
+function buildSf2(pcm: number[], headers: Sf2Header[]): ArrayBuffer {
+  const chunk = (id: string, body: Uint8Array) => {
+    const out = new Uint8Array(8 + body.length + (body.length & 1));
+    const view = new DataView(out.buffer);
+    for (let i = 0; i < 4; i++) out[i] = id.charCodeAt(i);
+    view.setUint32(4, body.length, true);
+    out.set(body, 8);
+    return out;
+  };
+  const concat = (...parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    parts.reduce((at, p) => (out.set(p, at), at + p.length), 0);
+    return out;
+  };
+  const list = (type: string, ...chunks: Uint8Array[]) => chunk("LIST", concat(Uint8Array.from(type, c => c.charCodeAt(0)), ...chunks));
+
+  const smpl = new Uint8Array(pcm.length * 2);
+  pcm.forEach((v, i) => new DataView(smpl.buffer).setInt16(i * 2, v, true));
+  const shdr = new Uint8Array(46 * (headers.length + 1)); // + registro terminal "EOS"
+  const view = new DataView(shdr.buffer);
+  [...headers, { name: "EOS", start: 0, end: 0, loopStart: 0, loopEnd: 0, sampleRate: 0, pitch: 0, type: 0 }].forEach((h, i) => {
+    const at = i * 46;
+    for (let c = 0; c < h.name.length; c++) shdr[at + c] = h.name.charCodeAt(c);
+    view.setUint32(at + 20, h.start, true); view.setUint32(at + 24, h.end, true);
+    view.setUint32(at + 28, h.loopStart, true); view.setUint32(at + 32, h.loopEnd, true);
+    view.setUint32(at + 36, h.sampleRate, true); view.setUint8(at + 40, h.pitch);
+    view.setUint16(at + 44, h.type, true);
+  });
+  const body = concat(Uint8Array.from("sfbk", c => c.charCodeAt(0)), list("INFO", chunk("INAM", Uint8Array.from("t\0", c => c.charCodeAt(0)))),
+    list("sdta", chunk("smpl", smpl)), list("pdta", chunk("shdr", shdr)));
+  return chunk("RIFF", body).buffer;
+}
+
+describe("parseSf2", () => {
+  it("lê uma amostra por nota de origem, com loop em segundos", () => {
+    const pcm = [0, 16384, -32768, 32767, 100, 200, 300, 400];
+    const samples = parseSf2(buildSf2(pcm, [
+      { name: "A", start: 0, end: 4, loopStart: 1, loopEnd: 3, sampleRate: 4, pitch: 57, type: 1 },
+      { name: "A dir.", start: 4, end: 8, loopStart: 0, loopEnd: 0, sampleRate: 4, pitch: 69, type: 2 },
+      { name: "A de novo", start: 4, end: 8, loopStart: 0, loopEnd: 0, sampleRate: 4, pitch: 57, type: 1 },
+      { name: "sem nota", start: 4, end: 6, loopStart: 0, loopEnd: 0, sampleRate: 22050, pitch: 255, type: 4 },
+    ]));
+    expect(samples.map(s => s.midi)).toEqual([57, 60]);
+    expect([...samples[0].pcm!]).toEqual([0, 0.5, -1, 32767 / 32768]);
+    expect(samples[0].sampleRate).toBe(4);
+    expect(samples[0].loop).toEqual([0.25, 0.75]);
+    expect([...samples[1].pcm!]).toEqual([100 / 32768, 200 / 32768]);
+    expect(samples[1].loop).toBeUndefined();
+  });
+
+  it("recusa arquivos que não são SF2 ou não têm amostras", () => {
+    expect(() => parseSf2(new TextEncoder().encode("RIFF\0\0\0\0WAVEfmt ").buffer)).toThrow("SF2 inválido");
+    const empty = new Uint8Array(12);
+    empty.set(new TextEncoder().encode("RIFF"), 0);
+    empty.set(new TextEncoder().encode("sfbk"), 8);
+    new DataView(empty.buffer).setUint32(4, 4, true);
+    expect(() => parseSf2(empty.buffer)).toThrow("sem amostras");
+  });
+});
+
+describe("pacotes de notas", () => {
+  it("converte nomes de nota em MIDI", () => {
+    expect(["C4", "Db4", "F#2", "a0", "Cb4", "60"].map(noteNameToMidi)).toEqual([60, 61, 42, 21, 59, 60]);
+    expect(noteNameToMidi("H2")).toBeNull();
+    expect(noteNameToMidi("C")).toBeNull();
+  });
+
+  it("lê pacotes MIDI.js e JSON de data-URIs", () => {
+    const js = 'if (typeof MIDI === "undefined") var MIDI = {};\nMIDI.Soundfont.violao = {\n"A0": "data:audio/mp3;base64,AAEC",\n"C4": "data:audio/mp3;base64,/_8",\n}\n';
+    const fromJs = parseNotePack(js);
+    expect(fromJs.map(s => s.midi)).toEqual([21, 60]);
+    expect([...new Uint8Array(fromJs[0].encoded!)]).toEqual([0, 1, 2]);
+    expect([...new Uint8Array(fromJs[1].encoded!)]).toEqual([0xff, 0xff]);
+    expect(parseNotePack('{"E2": "data:audio/ogg;base64,AA==", "nome": 3}').map(s => s.midi)).toEqual([40]);
+    expect(() => parseNotePack("[]")).toThrow("sem notas");
+  });
+});
@@ -0,0 +1,83 @@
+import { fromBase64Url } from "./base64url";
+
+/** ===== Pacotes de amostras: leitura =====
+ * SF2, pacotes MIDI.js/JSON de data-URIs e arquivos de áudio nomeados pela nota -> amostras por nota MIDI.
+ * Cache, download e decodificação ficam no App.
+ */
+// amostra guardada: áudio comprimido (mp3/ogg) ou PCM já decodificado (SF2)
+export type StoredSample = { midi: number; encoded?: ArrayBuffer; pcm?: Float32Array; sampleRate?: number; loop?: [number, number] };
+
+const NATURAL_PC: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "C4", "Db4", "F#2" ou "60" -> MIDI
+export function noteNameToMidi(name: string): number | null {
+  if (/^\d{1,3}$/.test(name)) return Number(name);
+  const m = name.match(/^([A-Ga-g])([#b]?)(-?\d)$/);
+  if (!m) return null;
+  const pc = NATURAL_PC[m[1].toUpperCase()] + (m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0);
+  return (Number(m[3]) + 1) * 12 + pc;
+}
+const dataUriBytes = (uri: string) => fromBase64Url(uri.slice(uri.indexOf(",") + 1)).buffer as ArrayBuffer;
+
+// pacote MIDI.js (`MIDI.Soundfont.x = { "A0": "data:audio/mp3;base64,..." }`) ou JSON puro
+export function parseNotePack(text: string): StoredSample[] {
+  const begin = text.indexOf("MIDI.Soundfont.");
+  const body = begin < 0 ? text : text.slice(text.indexOf("=", begin) + 1, text.lastIndexOf("}") + 1).replace(/,\s*}$/, "}");
+  const notes: unknown = JSON.parse(body);
+  if (typeof notes !== "object" || notes === null || Array.isArray(notes)) throw new Error("Pacote sem notas");
+  return Object.entries(notes).flatMap(([name, uri]) => {
+    const midi = noteNameToMidi(name);
+    return midi !== null && typeof uri === "string" ? [{ midi, encoded: dataUriBytes(uri) }] : [];
+  });
+}
+
+// SF2: lê só os cabeçalhos de amostra (shdr) e o PCM 16-bit (smpl): uma amostra por nota de origem.
+// Zonas, presets e envelopes do SoundFont são ignorados.
+export function parseSf2(bytes: ArrayBuffer): StoredSample[] {
+  const view = new DataView(bytes);
+  const tag = (at: number) => String.fromCharCode(view.getUint8(at), view.getUint8(at + 1), view.getUint8(at + 2), view.getUint8(at + 3));
+  if (tag(0) !== "RIFF" || tag(8) !== "sfbk") throw new Error("Arquivo SF2 inválido");
+  const chunks: Record<string, { at: number; len: number }> = {};
+  const walk = (start: number, end: number) => {
+    for (let at = start; at + 8 <= end;) {
+      const id = tag(at); const len = view.getUint32(at + 4, true);
+      if (id === "LIST") walk(at + 12, at + 8 + len);
+      else chunks[id] = { at: at + 8, len };
+      at += 8 + len + (len & 1);
+    }
+  };
+  walk(12, bytes.byteLength);
+  const smpl = chunks.smpl; const shdr = chunks.shdr;
+  if (!smpl || !shdr) throw new Error("SF2 sem amostras");
+
+  const out = new Map<number, StoredSample>();
+  for (let at = shdr.at; at + 46 <= shdr.at + shdr.len; at += 46) {
+    const start = view.getUint32(at + 20, true), end = view.getUint32(at + 24, true);
+    const loopStart = view.getUint32(at + 28, true), loopEnd = view.getUint32(at + 32, true);
+    const sampleRate = view.getUint32(at + 36, true);
+    const pitch = view.getUint8(at + 40);
+    const type = view.getUint16(at + 44, true);
+    // mono (1) ou canal esquerdo (4); ignora direito e amostras em ROM
+    if ((type !== 1 && type !== 4) || end <= start || !sampleRate) continue;
+    const midi = pitch === 255 ? 60 : pitch;
+    if (out.has(midi)) continue;
+    const pcm = new Float32Array(end - start);
+    for (let i = 0; i < pcm.length; i++) pcm[i] = view.getInt16(smpl.at + (start + i) * 2, true) / 32768;
+    const loop: [number, number] | undefined = loopEnd > loopStart ? [(loopStart - start) / sampleRate, (loopEnd - start) / sampleRate] : undefined;
+    out.set(midi, { midi, pcm, sampleRate, loop });
+  }
+  return [...out.values()];
+}
+
+// arquivos escolhidos pelo usuário -> amostras (um .sf2, um .json/.js ou vários .mp3/.ogg/.wav "C4.mp3")
+export async function samplesFromFiles(files: File[]): Promise<StoredSample[]> {
+  const sf2 = files.find(f => /\.sf2$/i.test(f.name));
+  if (sf2) return parseSf2(await sf2.arrayBuffer());
+  const pack = files.find(f => /\.(json|js)$/i.test(f.name));
+  if (pack) return parseNotePack(await pack.text());
+  const audio = await Promise.all(files.map(async f => {
+    const midi = noteNameToMidi(f.name.replace(/\.[^.]+$/, ""));
+    return midi === null ? null : { midi, encoded: await f.arrayBuffer() };
+  }));
+  return audio.filter((s): s is { midi: number; encoded: ArrayBuffer } => s !== null);
+}
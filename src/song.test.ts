@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { toBase64Url } from "./base64url";
+import { DEFAULT_PLUCK } from "./audio";
+import { degreeOfChord, PROGRESSIONS, TUNING_MIDI } from "./theory";
+import { decodeSongHash, encodeSongHash, parseSongDoc, SONG_DOC_FORMAT, SONG_DOC_VERSION } from "./song";
+
+// documento como a versão 1 gravava: itens com índice no preset, sem pluck, afinação, padrões nem swingGrid
+const V1_DOC = {
+  format: SONG_DOC_FORMAT,
+  version: 1,
+  title: "Antiga",
+  instrument: "acoustic_guitar_steel",
+  mixer: { guitar: { gain: 0.9, pan: -0.2, send: 0.3, mute: false, solo: false } },
+  reverbMix: 0.4,
+  transport: { bpm: 100, swing: 0.1, sustain: 0.3, strumMs: 15, meter: "3/4", tempoRamp: { enabled: true, stepBpm: 4, everyLoops: 1, targetBpm: 130 } },
+  tracks: { drumsEnabled: false, bassEnabled: true, clickEnabled: true, loopSequence: false },
+  chord: { chordKey: "Am", variantIdx: 0 },
+  key: "C#",
+  progression: "I-V-vi-IV",
+  song: {
+    sections: [
+      { id: "v", name: "Verso", items: [{ key: "C#", varIdx: 0, degreeIdx: 0, beats: 3 }, { key: "G#", varIdx: 0, degreeIdx: 1, beats: 3 }], patternId: "folk1", drumPatternId: "rock", bassPattern: "root-fifth" },
+      { id: "r", name: "Refrão", items: [{ key: "F#m", varIdx: 0, degreeIdx: -1, beats: 6 }], patternId: "folk1", drumPatternId: "rock", bassPattern: "root-fifth" },
+    ],
+    arrangement: [{ sectionId: "v", repeats: 2 }, { sectionId: "r", repeats: 1 }, { sectionId: "sumiu", repeats: 1 }],
+  },
+};
+
+describe("parseSongDoc", () => {
+  it("migra um documento v1 até a versão atual", () => {
+    const doc = parseSongDoc(structuredClone(V1_DOC));
+    expect(doc.version).toBe(SONG_DOC_VERSION);
+    // v2, v3
+    expect(doc.pluck).toEqual(DEFAULT_PLUCK);
+    expect(doc.tuning).toEqual({ id: "standard", midi: [...TUNING_MIDI], capo: 0 });
+    // v4: tônica em sustenido vira a grafia usual
+    expect(doc.key).toBe("Db");
+    // v5: índice no preset vira grau; acorde avulso vira grau na tonalidade
+    const [verse, chorus] = doc.song.sections;
+    expect(verse.items.map(it => it.degree)).toEqual(PROGRESSIONS["I-V-vi-IV"].degrees.slice(0, 2).map(d => ({ mode: "major", ...d })));
+    expect(chorus.items[0].degree).toEqual(degreeOfChord("F#m", "Db"));
+    expect(verse.items[0]).not.toHaveProperty("degreeIdx");
+    // v6..v9
+    expect(doc.patterns).toEqual([]);
+    expect(doc.bassPatterns).toEqual([]);
+    expect(doc.drumPatterns).toEqual([]);
+    expect(doc.transport.swingGrid).toBe("8");
+    expect(doc.tracks.drumFills).toBe(true);
+  });
+
+  it("mantém os campos da v1 que continuam válidos", () => {
+    const doc = parseSongDoc(structuredClone(V1_DOC));
+    expect(doc.title).toBe("Antiga");
+    expect(doc.instrument).toBe("acoustic_guitar_steel");
+    expect(doc.mixer.guitar).toEqual({ gain: 0.9, pan: -0.2, send: 0.3, mute: false, solo: false });
+    expect(doc.transport).toMatchObject({ bpm: 100, meter: "3/4", tempoRamp: { enabled: true, stepBpm: 4, everyLoops: 1, targetBpm: 130 } });
+    expect(doc.song.arrangement).toEqual([{ sectionId: "v", repeats: 2 }, { sectionId: "r", repeats: 1 }]);
+  });
+
+  it("aplica cada migração a partir da versão em que o documento está", () => {
+    const v8 = { ...structuredClone(V1_DOC), version: 8, key: "C#", transport: { bpm: 90 } };
+    const doc = parseSongDoc(v8);
+    expect(doc.key).toBe("C"); // "C#" não é tonalidade da v4 em diante e não passa pela migração 3
+    expect(doc.transport.swingGrid).toBe("8");
+    expect(parseSongDoc({ ...v8, version: 9, transport: { swingGrid: "16" } }).transport.swingGrid).toBe("16");
+  });
+
+  it("recusa documentos de outro formato, mais novos ou sem seções", () => {
+    expect(() => parseSongDoc({ ...V1_DOC, format: "outro" })).toThrow("não é uma música");
+    expect(() => parseSongDoc({ ...V1_DOC, version: SONG_DOC_VERSION + 1 })).toThrow("mais nova");
+    expect(() => parseSongDoc({ ...V1_DOC, song: { sections: [] } })).toThrow("sem seções");
+  });
+
+  it("relê o próprio JSON sem mudanças", () => {
+    const doc = parseSongDoc(structuredClone(V1_DOC));
+    expect(parseSongDoc(JSON.parse(JSON.stringify(doc)))).toEqual(doc);
+  });
+});
+
+describe("link da música", () => {
+  it("vai e volta comprimido", async () => {
+    const doc = parseSongDoc(structuredClone(V1_DOC));
+    const hash = await encodeSongHash(doc);
+    expect(hash.startsWith("#song=z")).toBe(true);
+    expect(await decodeSongHash(hash)).toEqual(doc);
+  });
+
+  it("lê links sem compressão e ignora outros hashes", async () => {
+    const doc = parseSongDoc(structuredClone(V1_DOC));
+    const hash = "#song=j" + toBase64Url(new TextEncoder().encode(JSON.stringify(doc)));
+    expect(await decodeSongHash(hash)).toEqual(doc);
+    expect(await decodeSongHash("#outra-coisa")).toBeNull();
+  });
+});
@@ -0,0 +1,461 @@
+import { fromBase64Url, toBase64Url } from "./base64url";
+import { writeChordPro, type ChordProResolver } from "./chordpro";
+import {
+  chordEntry, degreeOfChord, isQualityId, KEY_IDS, MAJOR_KEYS, mapSymbolToDictKey, MAX_CAPO, MINOR_KEYS,
+  parseChordSymbol, parseKeyId, parseRomanProgression, PROGRESSIONS, QUALITY_IDS, spellChordKey, toIndex, TUNING_IDS,
+  TUNING_MIDI, TUNINGS, type ChordQualityId, type KeyMode, type ProgressionDegree, type TuningId,
+} from "./theory";
+import {
+  BASS_PATTERNS, BASS_STEPS, DRUM_PATTERNS, drumBars, fitSteps, METER_IDS, meterOf, METERS, patternLength, PATTERNS,
+  patternSize, PICK_ROLE_IDS, STEP_TYPES, stepPositions16, stepVelocity, type BassPattern, type DrumPattern,
+  type DrumRows, type MeterId, type Pattern, type PatternResolution, type SwingGrid,
+} from "./rhythm";
+import {
+  BUS_NAMES, clampBpm, DEFAULT_MIXER, DEFAULT_PLUCK, DRUM_VOICE_IDS, INSTRUMENTS, type InstrumentName,
+  type MixerSettings, type PluckModel, type TempoRamp,
+} from "./audio";
+
+/** ===== Presets de progressão do usuário (localStorage) ===== */
+export type CustomProgression = { id: string; name: string; text: string; mode: KeyMode };
+const PROGRESSIONS_KEY = "toque-comigo:progressions";
+export const CUSTOM_PREFIX = "custom:";
+
+export function loadCustomProgressions(): CustomProgression[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(PROGRESSIONS_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.filter(isObj).flatMap(e => {
+      const text = str(e.text, "");
+      try {
+        parseRomanProgression(text);
+        return [{ id: str(e.id, CUSTOM_PREFIX + newId()), name: str(e.name, text), text, mode: oneOf<KeyMode>(e.mode, ["major", "minor"], "major") }];
+      } catch (err) {
+        console.warn("Ignorando progressão inválida:", err);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+export const storeCustomProgressions = (list: CustomProgression[]) => localStorage.setItem(PROGRESSIONS_KEY, JSON.stringify(list));
+
+export function progressionDegrees(id: string, custom: CustomProgression[]): ProgressionDegree[] | null {
+  if (PROGRESSIONS[id]) return PROGRESSIONS[id].degrees;
+  const c = custom.find(p => p.id === id);
+  return c ? parseRomanProgression(c.text, c.mode) : null;
+}
+
+/** ===== Padrões de batida do usuário (localStorage) =====
+ * Ficam junto dos embutidos na lista do ritmo, sempre com velocidade por passo e resolução explícitas.
+ * As músicas levam uma cópia dos que usam (link compartilhado toca igual em outro aparelho).
+ */
+const PATTERNS_KEY = "toque-comigo:patterns";
+export const DEFAULT_STEP_VELOCITY = 0.85;
+
+function parsePattern(v: unknown): Pattern | null {
+  if (!isObj(v)) return null;
+  const cells = v.kind === "pick" ? v.picks : v.steps;
+  if (!Array.isArray(cells) || !cells.length) return null;
+  const meter = oneOf(v.meter, METER_IDS, "4/4");
+  const resolution = oneOf<PatternResolution>(v.resolution, ["8", "16", "8t"], "8");
+  const length = patternLength(METERS[meter], resolution);
+  const velocities = Array.isArray(v.velocities) ? v.velocities.map(x => num(x, DEFAULT_STEP_VELOCITY, 0, 1)) : [];
+  const base = {
+    id: str(v.id, CUSTOM_PREFIX + newId()), label: str(v.label, "Meu ritmo"), meter, resolution,
+    velocities: velocities.length ? fitSteps(velocities, length) : Array(length).fill(DEFAULT_STEP_VELOCITY),
+  };
+  if (v.kind !== "pick") return { ...base, steps: fitSteps(cells.map(st => oneOf(st, STEP_TYPES, "-")), length) };
+  const roles = (c: unknown) => Array.isArray(c) ? PICK_ROLE_IDS.filter(role => c.includes(role)) : [];
+  return { ...base, kind: "pick", picks: fitSteps(cells.map(roles), length) };
+}
+
+export function loadCustomPatterns(): Pattern[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(PATTERNS_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.map(parsePattern).filter((p): p is Pattern => p !== null) : [];
+  } catch {
+    return [];
+  }
+}
+export const storeCustomPatterns = (list: Pattern[]) => localStorage.setItem(PATTERNS_KEY, JSON.stringify(list));
+
+// cópia editável de qualquer padrão: um compasso inteiro, velocidades explícitas
+export function editablePattern(p: Pattern): Pattern {
+  const meter = meterOf(p);
+  const resolution = p.resolution ?? "8";
+  const length = patternLength(METERS[meter], resolution);
+  const velocities = Array.from({ length }, (_, i) => stepVelocity(p, i % patternSize(p)));
+  return p.kind === "pick"
+    ? { ...p, meter, resolution, velocities, picks: fitSteps(p.picks, length) }
+    : { ...p, meter, resolution, velocities, steps: fitSteps(p.steps, length) };
+}
+
+// troca a grade mantendo as batidas que caem nas mesmas posições
+export function resamplePattern(p: Pattern, resolution: PatternResolution): Pattern {
+  const m = METERS[meterOf(p)];
+  const from = stepPositions16(m, p.resolution ?? "8");
+  const to = stepPositions16(m, resolution);
+  const at = to.map(pos => from.findIndex(f => Math.abs(f - pos) < 1e-6));
+  const velocities = at.map(i => i >= 0 ? stepVelocity(p, i) : DEFAULT_STEP_VELOCITY);
+  return p.kind === "pick"
+    ? { ...p, resolution, velocities, picks: at.map(i => i >= 0 ? p.picks[i] : []) }
+    : { ...p, resolution, velocities, steps: at.map(i => i >= 0 ? p.steps[i] : "-") };
+}
+
+/** ===== Linhas de baixo do usuário (localStorage) =====
+ * Um compasso em colcheias, sempre preso a uma fórmula; viajam com a música como os padrões de batida.
+ */
+const BASS_PATTERNS_KEY = "toque-comigo:bass-patterns";
+
+function parseBassPattern(v: unknown): BassPattern | null {
+  if (!isObj(v) || !Array.isArray(v.steps) || !v.steps.length) return null;
+  const meter = oneOf(v.meter, METER_IDS, "4/4");
+  return {
+    id: str(v.id, CUSTOM_PREFIX + newId()), label: str(v.label, "Meu baixo"), meter,
+    steps: fitSteps(v.steps.map(st => oneOf(st, BASS_STEPS, "-")), patternLength(METERS[meter], "8")),
+  };
+}
+
+export function loadCustomBassPatterns(): BassPattern[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(BASS_PATTERNS_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.map(parseBassPattern).filter((p): p is BassPattern => p !== null) : [];
+  } catch {
+    return [];
+  }
+}
+export const storeCustomBassPatterns = (list: BassPattern[]) => localStorage.setItem(BASS_PATTERNS_KEY, JSON.stringify(list));
+
+// cópia editável na fórmula atual ("any" vira a fórmula de quem edita)
+export const editableBassPattern = (p: BassPattern, meter: MeterId): BassPattern => {
+  const m = p.meter === "any" ? meter : p.meter;
+  return { ...p, meter: m, steps: fitSteps(p.steps, patternLength(METERS[m], "8")) };
+};
+
+/** ===== Padrões de bateria do usuário (localStorage) =====
+ * Sempre em grade: variações A/B e virada com velocidade por peça e semicolcheia.
+ */
+const DRUM_PATTERNS_KEY = "toque-comigo:drum-patterns";
+export type CustomDrumPattern = DrumPattern & { id: string; variations: DrumRows[]; fill: DrumRows };
+
+function parseDrumRows(v: unknown, length: number): DrumRows {
+  if (!isObj(v)) return {};
+  return Object.fromEntries(DRUM_VOICE_IDS.filter(voice => Array.isArray(v[voice]) && (v[voice] as unknown[]).length)
+    .map(voice => [voice, fitSteps((v[voice] as unknown[]).map(x => num(x, 0, 0, 1)), length)]));
+}
+
+function parseDrumPattern(v: unknown): CustomDrumPattern | null {
+  if (!isObj(v) || !Array.isArray(v.variations) || !v.variations.length) return null;
+  const meter = oneOf(v.meter, METER_IDS, "4/4");
+  const length = METERS[meter].eighths * 2;
+  return {
+    id: str(v.id, CUSTOM_PREFIX + newId()), label: str(v.label, "Minha bateria"), meter,
+    variations: v.variations.slice(0, 2).map(rows => parseDrumRows(rows, length)),
+    fill: parseDrumRows(v.fill, length),
+  };
+}
+
+export function loadCustomDrumPatterns(): CustomDrumPattern[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(DRUM_PATTERNS_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.map(parseDrumPattern).filter((p): p is CustomDrumPattern => p !== null) : [];
+  } catch {
+    return [];
+  }
+}
+export const storeCustomDrumPatterns = (list: CustomDrumPattern[]) => localStorage.setItem(DRUM_PATTERNS_KEY, JSON.stringify(list));
+
+// clique numa célula do editor: acento -> normal -> fantasma -> nada
+export const DRUM_CELL_LEVELS = [0, 1, 0.7, 0.4];
+
+// cópia editável: embutidos viram grade (com a virada gerada), todas as peças com uma linha
+export function editableDrumPattern(id: string, p: DrumPattern): CustomDrumPattern {
+  const m = METERS[meterOf(p)];
+  const full = (rows: DrumRows): DrumRows => Object.fromEntries(DRUM_VOICE_IDS.map(voice => [voice, rows[voice] ?? Array(m.eighths * 2).fill(0)]));
+  const { variations, fill } = drumBars(p, m);
+  return { id, label: p.label, meter: meterOf(p), variations: variations.map(full), fill: full(fill) };
+}
+
+/** ===== Música: seções e arranjo ===== */
+// beats = duração em tempos do compasso (menos que um compasso divide, mais liga compassos)
+// degree liga o acorde ao grau (troca de tom re-harmoniza); choice = alternativa escolhida do grau
+export type SeqItem = { key: string; varIdx: number; beats: number; degree?: ProgressionDegree; choice?: number };
+export type SongSection = { id: string; name: string; items: SeqItem[]; patternId: string; drumPatternId: string; bassPattern: string };
+export type ArrangementEntry = { sectionId: string; repeats: number };
+export type Song = { sections: SongSection[]; arrangement: ArrangementEntry[] };
+
+export const SECTION_NAMES = ["Intro", "Verso", "Pré-refrão", "Refrão", "Ponte", "Solo", "Final"];
+export const newId = () => Math.random().toString(36).slice(2, 9);
+
+export function makeSection(name: string, items: SeqItem[], from?: Partial<SongSection>): SongSection {
+  return { id: newId(), name, items, patternId: "folk1", drumPatternId: "rock", bassPattern: "root-fifth", ...from };
+}
+
+// Ordem de execução: o arranjo (ou só a seção em loop de estudo); sem arranjo toca a seção em edição
+export function playOrder(song: Song, loopSectionId: string | null, fallbackId: string): ArrangementEntry[] {
+  if (loopSectionId) return [{ sectionId: loopSectionId, repeats: 1 }];
+  const valid = song.arrangement.filter(e => song.sections.some(s => s.id === e.sectionId) && e.repeats > 0);
+  return valid.length ? valid : [{ sectionId: fallbackId, repeats: 1 }];
+}
+
+/** ===== Documento de música (biblioteca local, JSON, link) =====
+ * Formato versionado: `version` cresce a cada mudança incompatível e
+ * SONG_DOC_MIGRATIONS[v] converte um documento da versão v para v+1.
+ * parseSongDoc valida tudo o que vem de fora (arquivo, link, localStorage)
+ * e completa campos ausentes com os padrões.
+ */
+export const SONG_DOC_FORMAT = "toque-comigo/song";
+export const SONG_DOC_VERSION = 9;
+export type SongDoc = {
+  format: typeof SONG_DOC_FORMAT;
+  version: number;
+  title: string;
+  instrument: InstrumentName;
+  pluck: PluckModel;
+  tuning: { id: TuningId; midi: number[]; capo: number };
+  mixer: MixerSettings;
+  reverbMix: number;
+  transport: { bpm: number; swing: number; swingGrid: SwingGrid; sustain: number; strumMs: number; meter: MeterId; tempoRamp: TempoRamp };
+  tracks: { drumsEnabled: boolean; bassEnabled: boolean; clickEnabled: boolean; drumFills: boolean; loopSequence: boolean };
+  chord: { chordKey: string; variantIdx: number };
+  key: string;
+  progression: string;
+  song: Song;
+  patterns: Pattern[];
+  bassPatterns: BassPattern[];
+  drumPatterns: CustomDrumPattern[];
+};
+type RawDoc = Record<string, unknown>;
+const SONG_DOC_MIGRATIONS: Record<number, (doc: RawDoc) => RawDoc> = {
+  // v2: parâmetros do violão modelado
+  1: doc => ({ ...doc, pluck: DEFAULT_PLUCK }),
+  // v3: afinação e capotraste
+  2: doc => ({ ...doc, tuning: { id: "standard", midi: [...TUNING_MIDI], capo: 0 } }),
+  // v4: tonalidades com bemóis e menores; tônicas antigas em sustenido viram a grafia usual
+  3: doc => ({ ...doc, key: ({ "C#": "Db", "D#": "Eb", "G#": "Ab", "A#": "Bb" } as Record<string, string>)[str(doc.key, "C")] ?? doc.key }),
+  // v5: itens guardam o grau em vez do índice no preset; acordes avulsos viram grau na tonalidade
+  4: doc => {
+    const preset = PROGRESSIONS[str(doc.progression, "")]?.degrees ?? [];
+    const song = isObj(doc.song) ? doc.song : {};
+    const sections = (Array.isArray(song.sections) ? song.sections : []).filter(isObj).map(sec => ({
+      ...sec,
+      items: (Array.isArray(sec.items) ? sec.items : []).filter(isObj).map(({ degreeIdx, ...it }) => ({
+        ...it, degree: preset[num(degreeIdx, -1)] ?? degreeOfChord(mapSymbolToDictKey(str(it.key, "C")), str(doc.key, "C")),
+      })),
+    }));
+    return { ...doc, song: { ...song, sections } };
+  },
+  // v6: padrões de batida do usuário usados nas seções
+  5: doc => ({ ...doc, patterns: [] }),
+  // v7: linhas de baixo do usuário usadas nas seções
+  6: doc => ({ ...doc, bassPatterns: [] }),
+  // v8: baterias do usuário usadas nas seções
+  7: doc => ({ ...doc, drumPatterns: [] }),
+  // v9: swing em colcheias ou semicolcheias
+  8: doc => ({ ...doc, transport: { ...(isObj(doc.transport) ? doc.transport : {}), swingGrid: "8" } }),
+};
+
+const isObj = (v: unknown): v is RawDoc => typeof v === "object" && v !== null && !Array.isArray(v);
+const num = (v: unknown, def: number, min = -Infinity, max = Infinity) => typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : def;
+const bool = (v: unknown, def: boolean) => typeof v === "boolean" ? v : def;
+const str = (v: unknown, def: string) => typeof v === "string" ? v : def;
+const oneOf = <T extends string>(v: unknown, options: readonly T[], def: T): T => options.includes(v as T) ? v as T : def;
+const parseDegree = (v: unknown): ProgressionDegree | undefined => {
+  if (!isObj(v)) return undefined;
+  const alternatives = Array.isArray(v.alternatives) ? v.alternatives.filter((q): q is ChordQualityId => typeof q === "string" && isQualityId(q)) : [];
+  return {
+    semitones: Math.round(num(v.semitones, 0, 0, 11)), quality: oneOf(v.quality, QUALITY_IDS, ""),
+    ...(alternatives.length ? { alternatives } : {}),
+    ...(typeof v.of === "number" ? { of: Math.round(num(v.of, 0, 0, 11)) } : {}),
+    ...(typeof v.bass === "number" ? { bass: Math.round(num(v.bass, 0, 0, 11)) } : {}),
+    mode: oneOf<KeyMode>(v.mode, ["major", "minor"], "major"),
+    ...(typeof v.label === "string" ? { label: v.label } : {}),
+  };
+};
+
+export function parseSongDoc(raw: unknown): SongDoc {
+  if (!isObj(raw) || raw.format !== SONG_DOC_FORMAT) throw new Error("Arquivo não é uma música do Toque Comigo");
+  let doc = raw;
+  let version = num(doc.version, 0);
+  if (version > SONG_DOC_VERSION) throw new Error(`Versão ${version} é mais nova que este app (${SONG_DOC_VERSION})`);
+  while (version < SONG_DOC_VERSION) {
+    const migrate = SONG_DOC_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Sem migração da versão ${version}`);
+    doc = migrate(doc);
+    version += 1;
+  }
+
+  const t = isObj(doc.transport) ? doc.transport : {};
+  const ramp = isObj(t.tempoRamp) ? t.tempoRamp : {};
+  const tr = isObj(doc.tracks) ? doc.tracks : {};
+  const mixIn = isObj(doc.mixer) ? doc.mixer : {};
+  const mixer = Object.fromEntries(BUS_NAMES.map(n => {
+    const b = isObj(mixIn[n]) ? mixIn[n] as RawDoc : {}; const d = DEFAULT_MIXER[n];
+    return [n, { gain: num(b.gain, d.gain, 0, 4), pan: num(b.pan, d.pan, -1, 1), send: num(b.send, d.send, 0, 1), mute: bool(b.mute, d.mute), solo: bool(b.solo, d.solo) }];
+  })) as MixerSettings;
+
+  const pl = isObj(doc.pluck) ? doc.pluck : {};
+  const tu = isObj(doc.tuning) ? doc.tuning : {};
+  const tuMidi = Array.isArray(tu.midi) && tu.midi.length === 6 ? tu.midi.map((m, i) => Math.round(num(m, TUNING_MIDI[i], 24, 72))) : [...TUNING_MIDI];
+  const tuId = oneOf(tu.id, TUNING_IDS, "standard");
+  const docStrings = tuId === "custom" ? tuMidi : TUNINGS[tuId].midi;
+  const chord = isObj(doc.chord) ? doc.chord : {};
+  const chordKey = mapSymbolToDictKey(str(chord.chordKey, "C"));
+  const songIn = isObj(doc.song) ? doc.song : {};
+  const patterns = (Array.isArray(doc.patterns) ? doc.patterns : []).map(parsePattern).filter((p): p is Pattern => p !== null);
+  const bassPatterns = (Array.isArray(doc.bassPatterns) ? doc.bassPatterns : []).map(parseBassPattern).filter((p): p is BassPattern => p !== null);
+  const drumPatterns = (Array.isArray(doc.drumPatterns) ? doc.drumPatterns : []).map(parseDrumPattern).filter((p): p is CustomDrumPattern => p !== null);
+  const sections: SongSection[] = (Array.isArray(songIn.sections) ? songIn.sections : []).filter(isObj).map(sec => {
+    const items: SeqItem[] = (Array.isArray(sec.items) ? sec.items : []).filter(isObj).map(it => {
+      const k = mapSymbolToDictKey(str(it.key, "C"));
+      const degree = parseDegree(it.degree);
+      return {
+        key: k, varIdx: Math.min(num(it.varIdx, 0, 0), chordEntry(k, docStrings).variants.length - 1), beats: num(it.beats, 4, 1, 64),
+        ...(degree ? { degree, choice: Math.round(num(it.choice, 0, 0, degree.alternatives?.length ?? 0)) } : {}),
+      };
+    });
+    const patternId = str(sec.patternId, "folk1");
+    const drumPatternId = str(sec.drumPatternId, "rock");
+    const bassPattern = str(sec.bassPattern, "root-fifth");
+    return {
+      id: str(sec.id, newId()),
+      name: str(sec.name, "Seção"),
+      items: items.length ? items : [{ key: "C", varIdx: 0, beats: 4 }],
+      patternId: [...PATTERNS, ...patterns].some(p => p.id === patternId) ? patternId : "folk1",
+      drumPatternId: drumPatternId in DRUM_PATTERNS || drumPatterns.some(p => p.id === drumPatternId) ? drumPatternId : "rock",
+      bassPattern: [...BASS_PATTERNS, ...bassPatterns].some(b => b.id === bassPattern) ? bassPattern : "steady",
+    };
+  });
+  if (!sections.length) throw new Error("Música sem seções");
+  const arrangement: ArrangementEntry[] = (Array.isArray(songIn.arrangement) ? songIn.arrangement : []).filter(isObj)
+    .map(e => ({ sectionId: str(e.sectionId, ""), repeats: Math.round(num(e.repeats, 1, 1, 64)) }))
+    .filter(e => sections.some(sec => sec.id === e.sectionId));
+
+  return {
+    format: SONG_DOC_FORMAT,
+    version: SONG_DOC_VERSION,
+    title: str(doc.title, "Sem título"),
+    instrument: oneOf(doc.instrument, INSTRUMENTS.map(i => i.id), "acoustic_guitar_nylon"),
+    pluck: {
+      pick: num(pl.pick, DEFAULT_PLUCK.pick, 0.05, 0.5), damping: num(pl.damping, DEFAULT_PLUCK.damping, 0, 1),
+      palmMute: num(pl.palmMute, DEFAULT_PLUCK.palmMute, 0, 1), body: num(pl.body, DEFAULT_PLUCK.body, 0, 1),
+    },
+    tuning: { id: tuId, midi: tuMidi, capo: Math.round(num(tu.capo, 0, 0, MAX_CAPO)) },
+    mixer,
+    reverbMix: num(doc.reverbMix, 0.3, 0, 1),
+    transport: {
+      bpm: clampBpm(num(t.bpm, 92)),
+      swing: num(t.swing, 0.08, 0, 0.5),
+      swingGrid: oneOf<SwingGrid>(t.swingGrid, ["8", "16"], "8"),
+      sustain: num(t.sustain, 0.24, 0.05, 1.5),
+      strumMs: num(t.strumMs, 12, 5, 50),
+      meter: oneOf(t.meter, METER_IDS, "4/4"),
+      tempoRamp: { enabled: bool(ramp.enabled, false), stepBpm: num(ramp.stepBpm, 2, 1, 20), everyLoops: num(ramp.everyLoops, 2, 1, 32), targetBpm: clampBpm(num(ramp.targetBpm, 120)) },
+    },
+    tracks: { drumsEnabled: bool(tr.drumsEnabled, true), bassEnabled: bool(tr.bassEnabled, false), clickEnabled: bool(tr.clickEnabled, false), drumFills: bool(tr.drumFills, true), loopSequence: bool(tr.loopSequence, true) },
+    chord: { chordKey, variantIdx: Math.min(num(chord.variantIdx, 0, 0), chordEntry(chordKey, docStrings).variants.length - 1) },
+    key: oneOf(doc.key, KEY_IDS, "C"),
+    progression: progressionDegrees(str(doc.progression, ""), loadCustomProgressions()) ? str(doc.progression, "") : "I-V-vi-IV",
+    song: { sections, arrangement },
+    patterns,
+    bassPatterns,
+    drumPatterns,
+  };
+}
+
+// Link compartilhável: "#song=z" + base64url(deflate-raw(JSON)); "j" sem compressão (navegadores antigos)
+const SONG_HASH_PREFIX = "#song=";
+
+export async function encodeSongHash(doc: SongDoc): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(doc));
+  if (typeof CompressionStream === "undefined") return SONG_HASH_PREFIX + "j" + toBase64Url(json);
+  const packed = await new Response(new Blob([json]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer();
+  return SONG_HASH_PREFIX + "z" + toBase64Url(new Uint8Array(packed));
+}
+
+export async function decodeSongHash(hash: string): Promise<SongDoc | null> {
+  if (!hash.startsWith(SONG_HASH_PREFIX)) return null;
+  const body = hash.slice(SONG_HASH_PREFIX.length);
+  const bytes = fromBase64Url(body.slice(1));
+  const json = body[0] === "z"
+    ? await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"))).text()
+    : new TextDecoder().decode(bytes);
+  return parseSongDoc(JSON.parse(json));
+}
+
+// Download de um arquivo gerado no navegador (JSON, ChordPro, MIDI...)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  // no documento para o Firefox; a URL só é liberada depois que o download começou (Firefox/Safari)
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+export const fileBaseName = (title: string) => title.replace(/[^\w\-À-ú ]+/g, "").trim() || "musica";
+
+// Biblioteca no localStorage
+export type LibraryEntry = { id: string; title: string; updatedAt: number; doc: SongDoc };
+const LIBRARY_KEY = "toque-comigo:songs";
+
+export function loadLibrary(): LibraryEntry[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.filter(isObj).flatMap(e => {
+      try {
+        return [{ id: str(e.id, newId()), title: str(e.title, "Sem título"), updatedAt: num(e.updatedAt, 0), doc: parseSongDoc(e.doc) }];
+      } catch (err) {
+        console.warn("Ignorando música inválida na biblioteca:", err);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+export const storeLibrary = (entries: LibraryEntry[]) => localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+
+/** ===== ChordPro =====
+ * Leitura e escrita ficam em chordpro.ts; aqui o dicionário de acordes, as tonalidades
+ * e as fórmulas de compasso do app (CHORDPRO_RESOLVER) e a música -> folha.
+ */
+// "F#m7/C#" -> chave do dicionário; exact=false quando a qualidade é desconhecida e vira tríade
+function lookupChordPro(symbol: string): { key: string; exact: boolean } | null {
+  const sym = symbol.trim();
+  if (!sym) return null;
+  const p = parseChordSymbol(sym);
+  if (toIndex(p.root) < 0) return null;
+  return { key: mapSymbolToDictKey(sym), exact: isQualityId(p.qual) };
+}
+
+// tom da folha -> tonalidade do app, mantendo o modo; enarmônicos caem na grafia da lista (D# -> Eb)
+function chordProKeyId(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+  const p = parseChordSymbol(v);
+  const pc = toIndex(p.root);
+  if (pc < 0) return null;
+  const minor = p.qual === "m";
+  const ids = minor ? MINOR_KEYS : MAJOR_KEYS;
+  return ids.find(id => id === v) ?? ids.find(id => parseKeyId(id).pc === pc) ?? null;
+}
+
+export const CHORDPRO_RESOLVER: ChordProResolver<MeterId> = { chord: lookupChordPro, key: chordProKeyId, tempo: clampBpm, meters: METER_IDS };
+
+// Exporta na ordem do arranjo, com os acordes grafados no tom da música
+export function songToChordPro(doc: SongDoc): string {
+  return writeChordPro({
+    title: doc.title,
+    key: doc.key,
+    meter: doc.transport.meter,
+    bpm: doc.transport.bpm,
+    barBeats: METERS[doc.transport.meter].groups.length,
+    sections: doc.song.sections.map(sec => ({ id: sec.id, name: sec.name, items: sec.items.map(it => ({ symbol: spellChordKey(it.key, doc.key), beats: it.beats })) })),
+    order: doc.song.arrangement.length ? doc.song.arrangement : [{ sectionId: doc.song.sections[0].id, repeats: 1 }],
+  });
+}
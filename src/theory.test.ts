@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeSequence, CHORD_QUALITIES, chordEntry, degreeChords, parseRomanProgression, progressionText, PROGRESSIONS, toIndex, TUNING_MIDI, TUNINGS,
+  type ChordQualityId, type Voicing,
+} from "./theory";
+
+// notas MIDI que soam na forma, da corda mais grave para a mais aguda
+const sounding = (v: Voicing, strings: readonly number[] = TUNING_MIDI) =>
+  v.shape.flatMap((f, s) => f === "x" ? [] : [strings[s] + f]);
+const tonesOf = (root: string, qual: ChordQualityId) => CHORD_QUALITIES[qual].intervals.map(i => (toIndex(root) + i) % 12);
+
+describe("chordEntry", () => {
+  it.each([["C#", "m7"], ["F#", "dim"]] as const)("%s%s só tem notas do acorde, com a tônica no baixo", (root, qual) => {
+    const { variants } = chordEntry(root + qual);
+    expect(variants.length).toBeGreaterThan(0);
+    for (const v of variants) {
+      const notes = sounding(v);
+      expect(notes.every(m => tonesOf(root, qual).includes(m % 12)), v.label).toBe(true);
+      expect(Math.min(...notes) % 12, v.label).toBe(toIndex(root));
+    }
+  });
+
+  it("põe a nota da barra no baixo", () => {
+    const { variants } = chordEntry("G/B");
+    expect(variants[0].shape.slice(0, 2)).toEqual(["x", 2]);
+    for (const v of variants) expect(Math.min(...sounding(v)) % 12, v.label).toBe(toIndex("B"));
+  });
+
+  it("usa pestana só quando a casa mais baixa se repete sem cordas soltas no meio", () => {
+    const fsm = chordEntry("F#m").variants.find(v => v.shape.join("") === "244222")!;
+    expect(fsm.barre).toEqual({ finger: 1, fret: 2, from: 0, to: 5 });
+    expect(fsm.fingers).toEqual([1, 2, 3, 1, 1, 1]);
+    const bbmaj7 = chordEntry("Bbmaj7").variants.find(v => v.shape.join("") === "653335")!;
+    expect(bbmaj7.barre).toEqual({ finger: 1, fret: 3, from: 2, to: 4 });
+    const a9 = chordEntry("A#9").variants.find(v => v.shape.join("") === "x10111")!;
+    expect(a9.barre).toBeUndefined();
+    expect(a9.fingers).toEqual([undefined, 1, 0, 2, 3, 4]);
+  });
+
+  it("gera formas para a afinação pedida", () => {
+    const dadgad = TUNINGS.dadgad.midi;
+    for (const [root, qual] of [["D", ""], ["C#", "m7"]] as const) {
+      const { variants } = chordEntry(root + qual, dadgad);
+      expect(variants.length).toBeGreaterThan(0);
+      for (const v of variants) {
+        const notes = sounding(v, dadgad);
+        expect(v.label).not.toContain("afinação padrão");
+        expect(notes.every(m => tonesOf(root, qual).includes(m % 12)), v.label).toBe(true);
+        expect(Math.min(...notes) % 12, v.label).toBe(toIndex(root));
+      }
+    }
+    expect(chordEntry("C#m7", dadgad).variants[0].barre).toEqual({ finger: 1, fret: 2, from: 2, to: 5 });
+  });
+
+  it("cai para a tríade na mesma afinação antes de emprestar formas da afinação padrão", () => {
+    const dadgad = TUNINGS.dadgad.midi;
+    expect(chordEntry("A#m9", dadgad).variants).toEqual(chordEntry("A#m", dadgad).variants);
+    // nenhuma forma de Dó cabe com todas as cordas em Mi: só sobra a da afinação padrão, marcada
+    const allE = [40, 40, 40, 40, 40, 40];
+    const c = chordEntry("C", allE).variants;
+    expect(c.length).toBeGreaterThan(0);
+    expect(c.every(v => v.label.endsWith("· forma da afinação padrão"))).toBe(true);
+    expect(c.map(v => v.shape)).toEqual(chordEntry("C").variants.map(v => v.shape));
+  });
+});
+
+describe("graus em algarismos romanos", () => {
+  const chordsIn = (keyId: string, text: string, mode?: "major" | "minor") =>
+    parseRomanProgression(text, mode).flatMap(d => degreeChords(keyId, d));
+
+  it("lê graus diatônicos, empréstimos, secundários e meio-diminutos", () => {
+    expect(chordsIn("C", "I vi ii V7")).toEqual(["C", "Am", "Dm", "G7"]);
+    expect(chordsIn("C", "bVII V/V V7/V iiø7 #iv°7")).toEqual(["A#", "D", "D7", "Dm7b5", "F#dim7"]);
+    expect(parseRomanProgression("V7/V")[0]).toMatchObject({ semitones: 7, quality: "7", of: 7 });
+    expect(chordsIn("G", "I, vi | IV–V")).toEqual(["G", "Em", "C", "D"]);
+  });
+
+  it("conta os graus a partir do homônimo maior também em tom menor", () => {
+    expect(chordsIn("Am", "i iv V7 bVI", "minor")).toEqual(["Am", "Dm", "E7", "F"]);
+    // III é a terça maior da tônica; o relativo maior é bIII
+    expect(chordsIn("Am", "III bIII VII bVII", "minor")).toEqual(["C#", "C", "G#", "G"]);
+    expect(parseRomanProgression("i", "minor")[0].mode).toBe("minor");
+  });
+
+  it("volta ao mesmo texto", () => {
+    const text = "I vi ii V7 bVII V/V V7/V iiø7 #iv°7";
+    expect(progressionText(parseRomanProgression(text))).toBe(text);
+    // graus sem o texto digitado (presets) ganham o algarismo a partir do acorde
+    const preset = PROGRESSIONS["vi-IV-I-V"].degrees;
+    expect(progressionText(preset)).toBe("vi IV I V");
+    expect(parseRomanProgression(progressionText(preset)).map(d => [d.semitones, d.quality])).toEqual(preset.map(d => [d.semitones, d.quality]));
+  });
+
+  it("recusa graus e qualidades inválidos", () => {
+    expect(() => parseRomanProgression("  ")).toThrow("ao menos um grau");
+    expect(() => parseRomanProgression("I IIX")).toThrow("Qualidade desconhecida em IIX");
+    expect(() => parseRomanProgression("I/V/V")).toThrow("Grau inválido: I/V/V");
+    expect(() => parseRomanProgression("X")).toThrow("Grau inválido: X");
+  });
+});
+
+describe("analyzeSequence", () => {
+  const analyze = (text: string) => analyzeSequence(text.split(" ").map(key => ({ key, varIdx: 0, beats: 4 })));
+  const labels = (text: string) => analyze(text).chords.map(c => `${c.label}:${c.kind}`);
+
+  it("marca a dominante secundária", () => {
+    const a = analyze("C A7 Dm G7 C");
+    expect(a.keyId).toBe("C");
+    expect(labels("C A7 Dm G7 C")).toEqual(["I:diatonic", "V7/ii:secondary", "ii:diatonic", "V7:diatonic", "I:diatonic"]);
+    expect(a.chords[1].subs[0]).toEqual({ name: "Substituto trítono", chords: ["D#7"] });
+    // G7 já prepara o C: sem ii–V sugerido antes dele
+    expect(a.chords[4].subs.map(s => s.name)).toEqual(["Relativo menor"]);
+  });
+
+  it("reconhece o tom menor pela tônica no começo", () => {
+    expect(analyze("Am F C G").keyId).toBe("Am");
+    expect(labels("Am F C G")).toEqual(["i:diatonic", "bVI:diatonic", "bIII:diatonic", "bVII:diatonic"]);
+    expect(labels("Am Dm E7 Am")).toEqual(["i:diatonic", "iv:diatonic", "V7:diatonic", "i:diatonic"]);
+  });
+
+  it("desempata sequências ambíguas pelo tom em que todos os acordes cabem", () => {
+    // empréstimo (iv) em Dó ou I–V em Fá menor: todos os acordes cabem em Fá menor, que vence
+    expect(analyze("C Fm C").keyId).toBe("Fm");
+    expect(labels("C Fm C")).toEqual(["V:diatonic", "i:diatonic", "V:diatonic"]);
+    // bVII em Dó ou I–IV–V em Fá: idem
+    expect(analyze("C Bb F C").keyId).toBe("F");
+    expect(labels("C Bb F C")).toEqual(["V:diatonic", "IV:diatonic", "I:diatonic", "V:diatonic"]);
+  });
+
+  it("ignora cifras que não entende", () => {
+    const a = analyze("C Zz G C");
+    expect(a.keyId).toBe("C");
+    expect(a.chords[1]).toEqual({ label: "?", kind: "chromatic", subs: [] });
+  });
+});
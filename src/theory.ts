@@ -0,0 +1,805 @@
+import type { SeqItem } from "./song";
+
+/** ===== Tipos ===== */
+// shape: 6ª -> 1ª corda (E A D G B E). 'x' = abafada, 0 = solta, número = casa absoluta
+type ShapeVal = number | "x";
+export type Shape = [ShapeVal, ShapeVal, ShapeVal, ShapeVal, ShapeVal, ShapeVal];
+// dedos: 1=index,2=médio,3=anelar,4=mínimo (0/undefined = livre)
+export type Fingering = [number | undefined, number | undefined, number | undefined, number | undefined, number | undefined, number | undefined];
+// pestana (barra)
+export type Barre = { finger: 1 | 2 | 3 | 4; fret: number; from: number; to: number };
+
+export type Voicing = { label: string; shape: Shape; fingers?: Fingering; barre?: Barre };
+type ChordEntry = { name: string; variants: Voicing[] };
+
+/** ===== Afinação padrão EADGBE em MIDI (6ª->1ª) ===== */
+export const TUNING_MIDI = [40, 45, 50, 55, 59, 64] as const; // E2 A2 D3 G3 B3 E4
+export const NOTE_NAMES = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
+export const midiToHz = (m: number) => 440 * Math.pow(2, (m - 69) / 12);
+export const hzToMidi = (hz: number) => 69 + 12 * Math.log2(hz / 440);
+export const midiNoteName = (m: number) => NOTE_NAMES[((m % 12) + 12) % 12] + (Math.floor(m / 12) - 1);
+
+/** ===== Afinações alternativas e capotraste =====
+ * As formas são dedilhadas a partir do capotraste (casa 0 = capo), então a nota que soa é
+ * afinação + capo + casa; fora da afinação padrão elas vêm do gerador de voicings. Afina-se o violão sem capo: os afinadores usam só a afinação.
+ */
+export type TuningId = "standard" | "dropD" | "dadgad" | "openG" | "openD" | "halfDown" | "custom";
+export const TUNINGS: Record<Exclude<TuningId, "custom">, { label: string; midi: readonly number[] }> = {
+  standard: { label: "Padrão (EADGBE)", midi: TUNING_MIDI },
+  dropD:    { label: "Drop D (DADGBE)", midi: [38, 45, 50, 55, 59, 64] },
+  dadgad:   { label: "DADGAD", midi: [38, 45, 50, 55, 57, 62] },
+  openG:    { label: "Open G (DGDGBD)", midi: [38, 43, 50, 55, 59, 62] },
+  openD:    { label: "Open D (DADF#AD)", midi: [38, 45, 50, 54, 57, 62] },
+  halfDown: { label: "Meio tom abaixo (Eb)", midi: [39, 44, 49, 54, 58, 63] },
+};
+export const TUNING_IDS = [...Object.keys(TUNINGS), "custom"] as TuningId[];
+export const MAX_CAPO = 9;
+export type TuningState = { tuning: readonly number[]; capo: number };
+export const STANDARD_TUNING: TuningState = { tuning: TUNING_MIDI, capo: 0 };
+// cordas soltas como soam (afinação + capo)
+export const openStrings = (t: TuningState) => t.tuning.map(m => m + t.capo);
+
+/** ===== Dicionário de acordes ===== */
+const X = "x" as const;
+const CHORDS: Record<string, ChordEntry> = {
+  C: { name: "C (Dó maior)", variants: [
+    { label: "Aberto x32010", shape: [X,3,2,0,1,0], fingers: [undefined,3,2,0,1,0] },
+    { label: "C/G 332010",    shape: [3,3,2,0,1,0], fingers: [3,2,1,0,1,0] },
+    { label: "Cadd9 x32033",  shape: [X,3,2,0,3,3], fingers: [undefined,3,2,0,3,4] },
+    { label: "A-shape x35553",shape: [X,3,5,5,5,3], fingers: [undefined,1,3,4,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
+    { label: "E-shape 8-10-10-9-8-8", shape: [8,10,10,9,8,8], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:8, from:0, to:5 } },
+  ]},
+  Cmaj7: { name: "Cmaj7 (Dó maior com sétima)", variants: [
+    { label: "Aberto x32000", shape: [X,3,2,0,0,0], fingers: [undefined,3,2,0,0,0] },
+    { label: "x35453", shape: [X,3,5,4,5,3], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
+  ]},
+  C7: { name: "C7 (Dó com sétima dominante)", variants: [
+    { label: "Aberto x32310", shape: [X,3,2,3,1,0], fingers: [undefined,3,2,4,1,0] },
+    { label: "x35353", shape: [X,3,5,3,5,3], fingers: [undefined,1,3,1,4,1], barre: { finger:1, fret:3, from:1, to:5 } },
+  ]},
+  Cm: { name: "Cm (Dó menor)", variants: [
+    { label: "Barra x35543", shape: [X,3,5,5,4,3], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:3, from:1, to:5 } },
+    { label: "Cm7 8-10-8-8-8-8", shape: [8,10,8,8,8,8], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:8, from:0, to:5 } },
+  ]},
+  Cm7: { name: "Cm7 (Dó menor com sétima)", variants: [
+    { label: "Barra x35343", shape: [X,3,5,3,4,3], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:3, from:1, to:5 } },
+  ]},
+  Cdim: { name: "Cdim (Dó diminuto)", variants: [
+    { label: "xx1212", shape: [X,X,1,2,1,2], fingers: [undefined,undefined,1,3,2,4] },
+    { label: "x34242", shape: [X,3,4,2,4,2], fingers: [undefined,3,4,1,4,1] },
+  ]},
+  D: { name: "D (Ré maior)", variants: [
+    { label: "Aberto xx0232", shape: [X,X,0,2,3,2], fingers: [undefined,undefined,0,1,3,2] },
+    { label: "D/F# 2x0232",   shape: [2,X,0,2,3,2], fingers: [2,undefined,0,1,3,2] },
+    { label: "A-shape x57775",shape: [X,5,7,7,7,5], fingers: [undefined,1,3,4,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
+  ]},
+  Dmaj7: { name: "Dmaj7 (Ré maior com sétima)", variants: [
+    { label: "Aberto xx0222", shape: [X,X,0,2,2,2], fingers: [undefined,undefined,0,1,1,1] },
+    { label: "x57675", shape: [X,5,7,6,7,5], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
+  ]},
+  D7: { name: "D7 (Ré com sétima dominante)", variants: [
+    { label: "Aberto xx0212", shape: [X,X,0,2,1,2], fingers: [undefined,undefined,0,2,1,3] },
+    { label: "x57575", shape: [X,5,7,5,7,5], fingers: [undefined,1,3,1,4,1], barre: { finger:1, fret:5, from:1, to:5 } },
+  ]},
+  Dm: { name: "Dm (Ré menor)", variants: [
+    { label: "Aberto xx0231", shape: [X,X,0,2,3,1], fingers: [undefined,undefined,0,2,3,1] },
+    { label: "A-shape x57765", shape: [X,5,7,7,6,5], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:5, from:1, to:5 } },
+  ]},
+  Dm7: { name: "Dm7 (Ré menor com sétima)", variants: [
+    { label: "Aberto xx0211", shape: [X,X,0,2,1,1], fingers: [undefined,undefined,0,2,1,1] },
+    { label: "x57565", shape: [X,5,7,5,6,5], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:5, from:1, to:5 } },
+  ]},
+  Ddim: { name: "Ddim (Ré diminuto)", variants: [
+    { label: "xx0101", shape: [X,X,0,1,0,1], fingers: [undefined,undefined,0,1,0,2] },
+    { label: "x56464", shape: [X,5,6,4,6,4], fingers: [undefined,2,3,1,4,1] },
+  ]},
+  E: { name: "E (Mi maior)", variants: [
+    { label: "Aberto 022100", shape: [0,2,2,1,0,0], fingers: [0,2,3,1,0,0] },
+    { label: "E/G# 4-2-2-1-0-0", shape: [4,2,2,1,0,0], fingers: [3,2,3,1,0,0] },
+    { label: "E-shape 12-14-14-13-12-12", shape: [12,14,14,13,12,12], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:12, from:0, to:5 } },
+  ]},
+  Emaj7: { name: "Emaj7 (Mi maior com sétima)", variants: [
+    { label: "Aberto 021100", shape: [0,2,1,1,0,0], fingers: [0,2,1,1,0,0] },
+    { label: "xx2444", shape: [X,X,2,4,4,4], fingers: [undefined,undefined,1,3,3,3] },
+  ]},
+  E7: { name: "E7 (Mi com sétima dominante)", variants: [
+    { label: "Aberto 020100", shape: [0,2,0,1,0,0], fingers: [0,2,0,1,0,0] },
+    { label: "xx2434", shape: [X,X,2,4,3,4], fingers: [undefined,undefined,1,3,2,4] },
+  ]},
+  Em: { name: "Em (Mi menor)", variants: [
+    { label: "Aberto 022000", shape: [0,2,2,0,0,0], fingers: [0,2,3,0,0,0] },
+    { label: "A-shape x79987", shape: [X,7,9,9,8,7], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:7, from:1, to:5 } },
+  ]},
+  Em7: { name: "Em7 (Mi menor com sétima)", variants: [
+    { label: "Aberto 020000", shape: [0,2,0,0,0,0], fingers: [0,2,0,0,0,0] },
+    { label: "022030", shape: [0,2,2,0,3,0], fingers: [0,2,3,0,4,0] },
+  ]},
+  Edim: { name: "Edim (Mi diminuto)", variants: [
+    { label: "xx2323", shape: [X,X,2,3,2,3], fingers: [undefined,undefined,1,3,2,4] },
+    { label: "x78686", shape: [X,7,8,6,8,6], fingers: [undefined,2,3,1,4,1] },
+  ]},
+  F: { name: "F (Fá maior)", variants: [
+    { label: "E-shape 133211", shape: [1,3,3,2,1,1], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
+    { label: "Fmaj7 xx3210",  shape: [X,X,3,2,1,0], fingers: [undefined,undefined,3,2,1,0] },
+  ]},
+  Fmaj7: { name: "Fmaj7 (Fá maior com sétima)", variants: [
+    { label: "Aberto xx3210", shape: [X,X,3,2,1,0], fingers: [undefined,undefined,3,2,1,0] },
+    { label: "1-3-2-2-1-1", shape: [1,3,2,2,1,1], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
+  ]},
+  F7: { name: "F7 (Fá com sétima dominante)", variants: [
+    { label: "131211", shape: [1,3,1,2,1,1], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
+    { label: "xx3545", shape: [X,X,3,5,4,5], fingers: [undefined,undefined,1,3,2,4] },
+  ]},
+  Fm: { name: "Fm (Fá menor)", variants: [
+    { label: "E-shape 133111", shape: [1,3,3,1,1,1], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
+  ]},
+  Fm7: { name: "Fm7 (Fá menor com sétima)", variants: [
+    { label: "131111", shape: [1,3,1,1,1,1], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:1, from:0, to:5 } },
+  ]},
+  Fdim: { name: "Fdim (Fá diminuto)", variants: [
+    { label: "xx3434", shape: [X,X,3,4,3,4], fingers: [undefined,undefined,1,3,2,4] },
+    { label: "1-2-3-1-3-1", shape: [1,2,3,1,3,1], fingers: [1,2,3,1,4,1] },
+  ]},
+  G: { name: "G (Sol maior)", variants: [
+    { label: "Aberto 320003", shape: [3,2,0,0,0,3], fingers: [3,2,0,0,0,4] },
+    { label: "E-shape 355433", shape: [3,5,5,4,3,3], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
+  ]},
+  Gmaj7: { name: "Gmaj7 (Sol maior com sétima)", variants: [
+    { label: "Aberto 320002", shape: [3,2,0,0,0,2], fingers: [3,2,0,0,0,1] },
+    { label: "3-5-4-4-3-3", shape: [3,5,4,4,3,3], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
+  ]},
+  G7: { name: "G7 (Sol com sétima dominante)", variants: [
+    { label: "Aberto 320001", shape: [3,2,0,0,0,1], fingers: [3,2,0,0,0,1] },
+    { label: "353433", shape: [3,5,3,4,3,3], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
+  ]},
+  Gm: { name: "Gm (Sol menor)", variants: [
+    { label: "Barra 355333", shape: [3,5,5,3,3,3], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
+  ]},
+  Gm7: { name: "Gm7 (Sol menor com sétima)", variants: [
+    { label: "353333", shape: [3,5,3,3,3,3], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:3, from:0, to:5 } },
+  ]},
+  Gdim: { name: "Gdim (Sol diminuto)", variants: [
+    { label: "xx5656", shape: [X,X,5,6,5,6], fingers: [undefined,undefined,1,3,2,4] },
+    { label: "3-4-5-3-5-3", shape: [3,4,5,3,5,3], fingers: [1,2,3,1,4,1] },
+  ]},
+  A: { name: "A (Lá maior)", variants: [
+    { label: "Aberto x02220", shape: [X,0,2,2,2,0], fingers: [undefined,0,1,2,3,0] },
+    { label: "E-shape 577655", shape: [5,7,7,6,5,5], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
+  ]},
+  Amaj7: { name: "Amaj7 (Lá maior com sétima)", variants: [
+    { label: "Aberto x02120", shape: [X,0,2,1,2,0], fingers: [undefined,0,2,1,3,0] },
+    { label: "5-7-6-6-5-5", shape: [5,7,6,6,5,5], fingers: [1,3,2,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
+  ]},
+  A7: { name: "A7 (Lá com sétima dominante)", variants: [
+    { label: "Aberto x02020", shape: [X,0,2,0,2,0], fingers: [undefined,0,2,0,3,0] },
+    { label: "575655", shape: [5,7,5,6,5,5], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
+  ]},
+  Am: { name: "Am (Lá menor)", variants: [
+    { label: "Aberto x02210", shape: [X,0,2,2,1,0], fingers: [undefined,0,2,3,1,0] },
+    { label: "E-shape 577555", shape: [5,7,7,5,5,5], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
+  ]},
+  Am7: { name: "Am7 (Lá menor com sétima)", variants: [
+    { label: "Aberto x02010", shape: [X,0,2,0,1,0], fingers: [undefined,0,2,0,1,0] },
+    { label: "575555", shape: [5,7,5,5,5,5], fingers: [1,3,1,1,1,1], barre: { finger:1, fret:5, from:0, to:5 } },
+  ]},
+  Adim: { name: "Adim (Lá diminuto)", variants: [
+    { label: "x01212", shape: [X,0,1,2,1,2], fingers: [undefined,0,1,3,2,4] },
+    { label: "xx7878", shape: [X,X,7,8,7,8], fingers: [undefined,undefined,1,3,2,4] },
+  ]},
+  B: { name: "B (Si maior)", variants: [
+    { label: "x24442", shape: [X,2,4,4,4,2], fingers: [undefined,1,3,3,3,1], barre: { finger:1, fret:2, from:1, to:5 } },
+    { label: "799877", shape: [7,9,9,8,7,7], fingers: [1,3,4,2,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
+  ]},
+  Bmaj7: { name: "Bmaj7 (Si maior com sétima)", variants: [
+    { label: "x24342", shape: [X,2,4,3,4,2], fingers: [undefined,1,3,2,4,1], barre: { finger:1, fret:2, from:1, to:5 } },
+  ]},
+  B7: { name: "B7 (Si com sétima dominante)", variants: [
+    { label: "x21202", shape: [X,2,1,2,0,2], fingers: [undefined,2,1,3,0,4] },
+    { label: "797877", shape: [7,9,7,8,7,7], fingers: [1,3,1,2,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
+  ]},
+  Bm: { name: "Bm (Si menor)", variants: [
+    { label: "x24432 (barra)", shape: [X,2,4,4,3,2], fingers: [undefined,1,3,4,2,1], barre: { finger:1, fret:2, from:1, to:5 } },
+    { label: "799777", shape: [7,9,9,7,7,7], fingers: [1,3,4,1,1,1], barre: { finger:1, fret:7, from:0, to:5 } },
+  ]},
+  Bm7: { name: "Bm7 (Si menor com sétima)", variants: [
+    { label: "x24232", shape: [X,2,4,2,3,2], fingers: [undefined,1,3,1,2,1], barre: { finger:1, fret:2, from:1, to:5 } },
+    { label: "x20202", shape: [X,2,0,2,0,2], fingers: [undefined,2,0,3,0,4] },
+  ]},
+  Bdim: { name: "Bdim (Si diminuto)", variants: [
+    { label: "x23434", shape: [X,2,3,4,3,4], fingers: [undefined,1,2,4,2,4] },
+    { label: "xx9-10-9-10", shape: [X,X,9,10,9,10], fingers: [undefined,undefined,1,3,2,4] },
+  ]},
+};
+
+/** ===== Utilidades de notas/roots e sequência por tom ===== */
+export const CHROMA = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
+export const toIndex = (n: string) => CHROMA.indexOf(n);
+
+/** ===== Qualidades de acorde =====
+ * Intervalos em semitons a partir da fundamental (9ª = 14, 11ª = 17, 13ª = 21). `omit` são as
+ * notas que o violão pode deixar de fora (quinta, nona das tétrades estendidas). A ordem de
+ * QUALITY_IDS importa: o reconhecimento de acordes tenta as qualidades mais simples primeiro.
+ */
+export const QUALITY_IDS = [
+  "", "m", "7", "maj7", "m7", "dim", "dim7", "m7b5", "aug", "sus4", "sus2", "7sus4", "6", "m6",
+  "add9", "madd9", "69", "mMaj7", "9", "maj9", "m9", "11", "m11", "13", "7b9", "7#9", "7b5", "7#5", "5",
+] as const;
+export type ChordQualityId = typeof QUALITY_IDS[number];
+export type ChordQuality = { intervals: number[]; omit?: number[]; display: string; name: string };
+export const CHORD_QUALITIES: Record<ChordQualityId, ChordQuality> = {
+  "":     { intervals: [0,4,7],          display: "",       name: "maior" },
+  m:      { intervals: [0,3,7],          display: "m",      name: "menor" },
+  "7":    { intervals: [0,4,7,10],       omit: [7], display: "7",      name: "com sétima dominante" },
+  maj7:   { intervals: [0,4,7,11],       omit: [7], display: "maj7",   name: "maior com sétima" },
+  m7:     { intervals: [0,3,7,10],       omit: [7], display: "m7",     name: "menor com sétima" },
+  dim:    { intervals: [0,3,6],          display: "°",      name: "diminuto" },
+  dim7:   { intervals: [0,3,6,9],        display: "°7",     name: "diminuto com sétima" },
+  m7b5:   { intervals: [0,3,6,10],       display: "m7(b5)", name: "meio-diminuto" },
+  aug:    { intervals: [0,4,8],          display: "+",      name: "aumentado" },
+  sus4:   { intervals: [0,5,7],          display: "sus4",   name: "com quarta suspensa" },
+  sus2:   { intervals: [0,2,7],          display: "sus2",   name: "com segunda suspensa" },
+  "7sus4":{ intervals: [0,5,7,10],       omit: [7], display: "7sus4",  name: "com sétima e quarta suspensa" },
+  "6":    { intervals: [0,4,7,9],        omit: [7], display: "6",      name: "com sexta" },
+  m6:     { intervals: [0,3,7,9],        omit: [7], display: "m6",     name: "menor com sexta" },
+  add9:   { intervals: [0,4,7,14],       omit: [7], display: "add9",   name: "com nona adicionada" },
+  madd9:  { intervals: [0,3,7,14],       omit: [7], display: "m(add9)", name: "menor com nona adicionada" },
+  "69":   { intervals: [0,4,7,9,14],     omit: [7], display: "6/9",    name: "com sexta e nona" },
+  mMaj7:  { intervals: [0,3,7,11],       omit: [7], display: "m(maj7)", name: "menor com sétima maior" },
+  "9":    { intervals: [0,4,7,10,14],    omit: [7], display: "9",      name: "com nona" },
+  maj9:   { intervals: [0,4,7,11,14],    omit: [7], display: "maj9",   name: "maior com sétima e nona" },
+  m9:     { intervals: [0,3,7,10,14],    omit: [7], display: "m9",     name: "menor com nona" },
+  "11":   { intervals: [0,7,10,14,17],   omit: [7], display: "11",     name: "com décima primeira" },
+  m11:    { intervals: [0,3,7,10,14,17], omit: [7,14], display: "m11", name: "menor com décima primeira" },
+  "13":   { intervals: [0,4,7,10,14,21], omit: [7,14], display: "13",  name: "com décima terceira" },
+  "7b9":  { intervals: [0,4,7,10,13],    omit: [7], display: "7(b9)",  name: "com sétima e nona menor" },
+  "7#9":  { intervals: [0,4,7,10,15],    omit: [7], display: "7(#9)",  name: "com sétima e nona aumentada" },
+  "7b5":  { intervals: [0,4,6,10],       display: "7(b5)",  name: "com sétima e quinta diminuta" },
+  "7#5":  { intervals: [0,4,8,10],       display: "7(#5)",  name: "com sétima e quinta aumentada" },
+  "5":    { intervals: [0,7],            display: "5",      name: "power chord" },
+};
+// grafias comuns nas cifras -> chave de CHORD_QUALITIES
+const QUALITY_ALIASES: Record<string, ChordQualityId> = {
+  "°": "dim", o: "dim", "°7": "dim7", o7: "dim7", "ø": "m7b5", "ø7": "m7b5", "m7(b5)": "m7b5", "+": "aug", "+5": "aug",
+  "7M": "maj7", M7: "maj7", "Δ": "maj7", min: "m", mi: "m", "-": "m", "-7": "m7", min7: "m7", sus: "sus4", "7sus": "7sus4",
+  "m(add9)": "madd9", "m(maj7)": "mMaj7", "m7M": "mMaj7", "mM7": "mMaj7", "7(9)": "9", "7M(9)": "maj9", "m7(9)": "m9",
+  "7(b9)": "7b9", "7(#9)": "7#9", "7(b5)": "7b5", "7(#5)": "7#5", "7+": "7#5", "(add9)": "add9", "2": "sus2", "4": "sus4", M: "",
+};
+export const isQualityId = (q: string): q is ChordQualityId => q in CHORD_QUALITIES;
+export const qualityOf = (q: string): ChordQuality | undefined => isQualityId(q) ? CHORD_QUALITIES[q] : undefined;
+const qualityId = (q: string): ChordQualityId | undefined =>
+  isQualityId(q) ? q : QUALITY_ALIASES[q] ?? (isQualityId(q.toLowerCase()) ? q.toLowerCase() as ChordQualityId : undefined);
+const sharpName = (n: string) => {
+  const pc = toIndex(n[0].toUpperCase()) + (n[1] === "#" ? 1 : n[1] === "b" ? -1 : 0);
+  return CHROMA[(pc + 12) % 12];
+};
+
+// "Bbm7/F" -> { root: "A#", qual: "m7", bass: "F" }; qualidade desconhecida volta crua em qual
+export function parseChordSymbol(sym: string): { root: string; qual: string; bass?: string } {
+  const m = sym.trim().replace("6/9", "69").match(/^([A-Ga-g][#b]?)([^/]*)(?:\/([A-Ga-g][#b]?))?$/);
+  if (!m) return { root: sym.charAt(0).toUpperCase(), qual: sym.slice(1) };
+  const root = sharpName(m[1]);
+  const bass = m[3] ? sharpName(m[3]) : undefined;
+  return { root, qual: qualityId(m[2]) ?? m[2], ...(bass && bass !== root ? { bass } : {}) };
+}
+
+// keyId: grafa raiz e baixo como na tonalidade (sem ela, sustenidos)
+export function getChordDisplaySymbol(key: string, keyId?: string): string {
+  const p = parseChordSymbol(key);
+  const name = (n: string) => keyId && toIndex(n) >= 0 ? spellPc(toIndex(n), keyId) : n;
+  return name(p.root) + (qualityOf(p.qual)?.display ?? p.qual) + (p.bass ? `/${name(p.bass)}` : "");
+}
+
+const NATURALS_SHARP = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
+const nameForPc = (pc: number) => NATURALS_SHARP[(pc%12+12)%12];
+
+/** ===== Tonalidades: modos maior e menor, grafia pela armadura =====
+ * O id da tonalidade é a tônica como aparece nos cancioneiros, com "m" no menor ("Bb", "F#m").
+ * As chaves de acorde continuam com sustenidos; a grafia da tonalidade só entra na exibição e na exportação.
+ */
+export type KeyMode = "major" | "minor";
+export const MAJOR_KEYS = ["C","G","D","A","E","B","F#","Gb","Db","Ab","Eb","Bb","F"];
+export const MINOR_KEYS = ["Am","Em","Bm","F#m","C#m","G#m","Ebm","Bbm","Fm","Cm","Gm","Dm"];
+export const KEY_IDS = [...MAJOR_KEYS, ...MINOR_KEYS];
+const SCALE_STEPS: Record<KeyMode, number[]> = { major: [0,2,4,5,7,9,11], minor: [0,2,3,5,7,8,10] };
+const LETTERS = "CDEFGAB";
+// notas fora da escala: sustenidos nas armaduras com #, bemóis nas com b; em Dó/Lá menor a grafia usual
+const SHARP_NAMES = CHROMA;
+const FLAT_NAMES = ["C","Db","D","Eb","E","F","Gb","G","Ab","A","Bb","B"];
+const NEUTRAL_NAMES = ["C","C#","D","Eb","E","F","F#","G","Ab","A","Bb","B"];
+
+export const parseKeyId = (id: string) => {
+  const mode: KeyMode = id.length > 1 && id.endsWith("m") ? "minor" : "major";
+  const tonic = mode === "minor" ? id.slice(0, -1) : id;
+  return { tonic, mode, pc: toIndex(sharpName(tonic)) };
+};
+
+// tônica em semitons -> id da tonalidade (F# antes de Gb, como na lista)
+const keyIdAt = (pc: number, mode: KeyMode) =>
+  (mode === "minor" ? MINOR_KEYS : MAJOR_KEYS).find(k => parseKeyId(k).pc === ((pc % 12) + 12) % 12)!;
+export const transposeKeyId = (keyId: string, n: number) => {
+  const k = parseKeyId(keyId);
+  return keyIdAt(k.pc + n, k.mode);
+};
+
+// escala soletrada: uma letra por grau (Gb maior tem Cb)
+const keyScaleCache = new Map<string, string[]>();
+function keyScale(id: string): string[] {
+  const cached = keyScaleCache.get(id);
+  if (cached) return cached;
+  const k = parseKeyId(id);
+  const first = LETTERS.indexOf(k.tonic[0]);
+  const scale = SCALE_STEPS[k.mode].map((step, d) => {
+    const letter = LETTERS[(first + d) % 7];
+    const diff = ((k.pc + step - toIndex(letter)) % 12 + 18) % 12 - 6;
+    return letter + (diff > 0 ? "#".repeat(diff) : "b".repeat(-diff));
+  });
+  keyScaleCache.set(id, scale);
+  return scale;
+}
+
+export function spellPc(pc: number, keyId: string): string {
+  pc = ((pc % 12) + 12) % 12;
+  const scale = keyScale(keyId);
+  const inScale = scale.find(n => toIndex(sharpName(n)) === pc);
+  if (inScale) return inScale;
+  if (scale.some(n => n.endsWith("b"))) return FLAT_NAMES[pc];
+  if (scale.some(n => n.endsWith("#"))) return SHARP_NAMES[pc];
+  return NEUTRAL_NAMES[pc];
+}
+
+// chave do acorde com as notas grafadas na tonalidade ("A#m7/F" em Fá -> "Bbm7/F")
+export function spellChordKey(key: string, keyId: string): string {
+  const p = parseChordSymbol(key);
+  if (toIndex(p.root) < 0) return key;
+  return spellPc(toIndex(p.root), keyId) + p.qual + (p.bass ? `/${spellPc(toIndex(p.bass), keyId)}` : "");
+}
+
+// qualidades diatônicas por grau; no menor o V vem da harmônica (dominante maior)
+const DIATONIC: Record<KeyMode, { triads: ChordQualityId[]; sevenths: ChordQualityId[] }> = {
+  major: { triads: ["", "m", "m", "", "", "m", "dim"], sevenths: ["maj7", "m7", "m7", "maj7", "7", "m7", "m7b5"] },
+  minor: { triads: ["m", "dim", "", "m", "", "", ""], sevenths: ["m7", "m7b5", "maj7", "m7", "7", "maj7", "7"] },
+};
+
+/** ===== Gerador de voicings =====
+ * Monta formas para qualquer cifra numa afinação: janelas de 4 casas ao longo do braço, cordas
+ * soando contíguas (abafadas só nas pontas), baixo na fundamental (ou na nota do baixo da cifra
+ * com barra) e todas as notas do acorde presentes, exceto as de `omit`. Ranking: abertura,
+ * posição e cordas usadas.
+ */
+const GEN_MAX_FRET = 12;
+const GEN_MAX_VOICINGS = 6;
+const ROOT_NAMES_PT = ["Dó","Dó sustenido","Ré","Ré sustenido","Mi","Fá","Fá sustenido","Sol","Sol sustenido","Lá","Lá sustenido","Si"];
+
+const shapeLabel = (shape: Shape) => shape.some(v => v !== "x" && v > 9) ? shape.join("-") : shape.join("");
+
+// dedos a partir das casas: pestana do indicador na casa mais baixa quando ela se repete sem soltas no meio
+function fingerShape(shape: Shape): { fingers: Fingering; barre?: Barre } | null {
+  const fretted = shape.map((v, s) => ({ s, f: v === "x" ? 0 : v })).filter(n => n.f > 0);
+  const fingers = shape.map(v => v === "x" ? undefined : 0) as Fingering;
+  if (!fretted.length) return { fingers };
+  const minF = Math.min(...fretted.map(n => n.f));
+  const atMin = fretted.filter(n => n.f === minF);
+  const from = atMin[0].s, to = atMin[atMin.length - 1].s;
+  const canBarre = atMin.length > 1 && shape.slice(from, to + 1).every(v => v !== "x" && v >= minF);
+  const rest = (canBarre ? fretted.filter(n => n.f > minF) : fretted).sort((a, b) => a.f - b.f || a.s - b.s);
+  if (rest.length > (canBarre ? 3 : 4)) return null;
+  if (canBarre) atMin.forEach(n => { fingers[n.s] = 1; });
+  rest.forEach((n, i) => { fingers[n.s] = i + (canBarre ? 2 : 1); });
+  return canBarre ? { fingers, barre: { finger: 1, fret: minF, from, to } } : { fingers };
+}
+
+function generateVoicings(rootPc: number, quality: ChordQuality, strings: readonly number[] = TUNING_MIDI, bassPc = rootPc): Voicing[] {
+  const tones = [...new Set([bassPc, ...quality.intervals.map(i => (rootPc + i) % 12)])];
+  const fifth = (rootPc + 7) % 12;
+  const required = tones.filter(pc => !quality.omit?.some(i => (rootPc + i) % 12 === pc));
+  const found = new Map<string, { voicing: Voicing; score: number; pos: number }>();
+  // cordas soando de lo a hi: ao menos 4 (3 no power chord), com no máximo 3 abafadas
+  const minStrings = tones.length <= 2 ? 3 : 4;
+  const ranges = [0, 1, 2].flatMap(lo => [5, 4, 3].filter(hi => hi - lo + 1 >= minStrings && lo + 5 - hi <= 3).map(hi => [lo, hi]));
+  for (let base = 0; base <= GEN_MAX_FRET - 3; base++) {
+    // cordas soltas só perto da pestana; acima disso a forma é toda presa
+    const frets = [...(base <= 5 ? [0] : []), ...Array.from({ length: 4 }, (_, i) => base + i).filter(f => f > 0)];
+    for (const [lo, hi] of ranges) {
+      const options = strings.map((open, s) => s < lo || s > hi ? [] : frets.filter(f => tones.includes((open + f) % 12)));
+      const shape: ShapeVal[] = [X,X,X,X,X,X];
+      const walk = (s: number) => {
+        if (s > hi) {
+          const pcs = shape.map((v, i) => v === "x" ? -1 : (strings[i] + v) % 12);
+          const bass = Math.min(...shape.map((v, i) => v === "x" ? Infinity : strings[i] + v));
+          if (bass % 12 !== bassPc || !required.every(pc => pcs.includes(pc))) return;
+          const played = shape.filter((v): v is number => v !== "x" && v > 0);
+          if (played.length && Math.max(...played) - Math.min(...played) > 3) return;
+          const fit = fingerShape(shape as Shape);
+          if (!fit) return;
+          const key = shape.join(",");
+          const span = played.length ? Math.max(...played) - Math.min(...played) : 0;
+          const pos = played.length ? Math.min(...played) : 0;
+          const opens = shape.filter(v => v === 0).length;
+          const score = span * 2 + pos + (5 - hi + lo) * 1.5 + (fit.barre ? 1 : 0) + (tones.includes(fifth) && !pcs.includes(fifth) ? 1 : 0) - (pos <= 3 ? opens * 0.5 : 0);
+          if (!found.has(key) || found.get(key)!.score > score) {
+            const v = [...shape] as Shape;
+            const label = `${shapeLabel(v)} ${pos === 0 || (opens && pos <= 3) ? "(aberto)" : `(casa ${pos})`}`;
+            found.set(key, { voicing: { label, shape: v, ...fit }, score, pos });
+          }
+          return;
+        }
+        for (const f of options[s]) { shape[s] = f; walk(s + 1); }
+        shape[s] = X;
+      };
+      walk(lo);
+    }
+  }
+  // a melhor de cada posição primeiro, para espalhar as opções pelo braço
+  const ranked = [...found.values()].sort((a, b) => a.score - b.score);
+  const seen = new Set<number>();
+  const spread = ranked.filter(r => !seen.has(r.pos) && !!seen.add(r.pos));
+  return [...spread, ...ranked.filter(r => !spread.includes(r))].slice(0, GEN_MAX_VOICINGS).map(r => r.voicing);
+}
+
+export const chordName = (key: string) => {
+  const p = parseChordSymbol(key);
+  const bass = p.bass ? ` com baixo em ${ROOT_NAMES_PT[toIndex(p.bass)]}` : "";
+  return CHORDS[key]?.name ?? `${getChordDisplaySymbol(key)} (${ROOT_NAMES_PT[toIndex(p.root)]} ${qualityOf(p.qual)?.name ?? ""}${bass})`.replace(" )", ")");
+};
+
+// tabela curada (afinação padrão) + formas geradas; em outras afinações só as geradas fazem sentido
+const chordEntryCache = new Map<string, ChordEntry>();
+// lastResort = false: só a afinação pedida (as quedas internas não trazem formas da afinação padrão)
+export function chordEntry(key: string, strings: readonly number[] = TUNING_MIDI, lastResort = true): ChordEntry {
+  const cacheKey = `${key}@${strings.join(",")}${lastResort ? "" : "!"}`;
+  const cached = chordEntryCache.get(cacheKey);
+  if (cached) return cached;
+  const p = parseChordSymbol(key);
+  const quality = qualityOf(p.qual) ?? CHORD_QUALITIES[""];
+  const standard = strings.every((m, i) => m === TUNING_MIDI[i]);
+  const curated = standard ? CHORDS[key] : undefined;
+  const generated = generateVoicings(toIndex(p.root), quality, strings, p.bass ? toIndex(p.bass) : undefined)
+    .filter(v => !curated?.variants.some(c => c.shape.join() === v.shape.join()));
+  const entry: ChordEntry = { name: chordName(key), variants: [...(curated?.variants ?? []), ...generated] };
+  // nada tocável nesta afinação: sem o baixo, depois a tríade (maior ou menor); só então as formas
+  // da afinação padrão, marcadas porque aqui soam outro acorde
+  const triad = p.root + (quality.intervals.includes(3) && !quality.intervals.includes(4) ? "m" : "");
+  const fallback = p.bass ? p.root + p.qual : triad;
+  if (!entry.variants.length && fallback !== key) entry.variants.push(...chordEntry(fallback, strings, false).variants);
+  if (!entry.variants.length && !standard && lastResort) {
+    entry.variants.push(...chordEntry(key).variants.map(v => ({ ...v, label: `${v.label} · forma da afinação padrão` })));
+  }
+  chordEntryCache.set(cacheKey, entry);
+  return entry;
+}
+export const voicingAt = (entry: ChordEntry, idx: number) => entry.variants[Math.min(idx, entry.variants.length - 1)];
+
+/* Grau: semitons a partir da tônica no modo `mode` (padrão: maior). Secundários guardam o grau-alvo
+ * em `of` e os semitons contados a partir dele (V/V = 7 de 7); `bass` é o baixo em semitons da raiz. */
+export type ProgressionDegree = {
+  semitones: number; quality: ChordQualityId; alternatives?: ChordQualityId[];
+  of?: number; bass?: number; mode?: KeyMode; label?: string;
+};
+
+export const PROGRESSIONS: Record<string, { name: string; degrees: ProgressionDegree[] }> = {
+  "I-IV-V": {
+    name: "I - IV - V (Rock básico)",
+    degrees: [
+      { semitones: 0, quality: "", alternatives: ["7", "maj7"] },
+      { semitones: 5, quality: "", alternatives: ["7", "maj7"] },
+      { semitones: 7, quality: "", alternatives: ["7"] },
+    ]
+  },
+  "I-V-vi-IV": {
+    name: "I - V - vi - IV (Pop)",
+    degrees: [
+      { semitones: 0, quality: "", alternatives: ["maj7", "add9"] },
+      { semitones: 7, quality: "", alternatives: ["7", "sus4"] },
+      { semitones: 9, quality: "m", alternatives: ["m7"] },
+      { semitones: 5, quality: "", alternatives: ["maj7", "add9"] },
+    ]
+  },
+  "ii-V-I": {
+    name: "ii - V - I (Jazz)",
+    degrees: [
+      { semitones: 2, quality: "m7", alternatives: ["m", "m9"] },
+      { semitones: 7, quality: "7", alternatives: ["", "9", "13", "7b9"] },
+      { semitones: 0, quality: "maj7", alternatives: ["", "6", "maj9"] },
+    ]
+  },
+  "I-vi-IV-V": {
+    name: "I - vi - IV - V (Anos 50)",
+    degrees: [
+      { semitones: 0, quality: "", alternatives: ["maj7"] },
+      { semitones: 9, quality: "m", alternatives: ["m7"] },
+      { semitones: 5, quality: "", alternatives: ["maj7"] },
+      { semitones: 7, quality: "", alternatives: ["7"] },
+    ]
+  },
+  "I-ii-iii-IV-V-vi-vii": {
+    name: "Escala harmônica completa",
+    degrees: [
+      { semitones: 0, quality: "", alternatives: ["maj7"] },
+      { semitones: 2, quality: "m", alternatives: ["m7"] },
+      { semitones: 4, quality: "m", alternatives: ["m7"] },
+      { semitones: 5, quality: "", alternatives: ["maj7"] },
+      { semitones: 7, quality: "", alternatives: ["7"] },
+      { semitones: 9, quality: "m", alternatives: ["m7"] },
+      { semitones: 11, quality: "dim", alternatives: ["m7b5"] },
+    ]
+  },
+  "I-IV-I-V": {
+    name: "I - IV - I - V (Blues)",
+    degrees: [
+      { semitones: 0, quality: "7", alternatives: [""] },
+      { semitones: 5, quality: "7", alternatives: [""] },
+      { semitones: 0, quality: "7", alternatives: [""] },
+      { semitones: 7, quality: "7", alternatives: [""] },
+    ]
+  },
+  "vi-IV-I-V": {
+    name: "vi - IV - I - V (Emotional)",
+    degrees: [
+      { semitones: 9, quality: "m", alternatives: ["m7"] },
+      { semitones: 5, quality: "", alternatives: ["maj7"] },
+      { semitones: 0, quality: "", alternatives: ["maj7"] },
+      { semitones: 7, quality: "", alternatives: ["7"] },
+    ]
+  },
+};
+
+// troca o modo do grau: acordes diatônicos viram os do outro modo (menor natural, com V da harmônica)
+function degreeInKey(deg: ProgressionDegree, mode: KeyMode): ProgressionDegree {
+  if (deg.of !== undefined) {
+    const target = degreeInKey({ semitones: deg.of, quality: "", mode: deg.mode }, mode).semitones;
+    return { ...deg, semitones: (target + deg.semitones) % 12, of: undefined, mode };
+  }
+  const from = deg.mode ?? "major";
+  const d = SCALE_STEPS[from].indexOf(deg.semitones % 12);
+  if (from === mode || d < 0) return { ...deg, mode };
+  const map = (q: ChordQualityId) =>
+    q === DIATONIC[from].triads[d] ? DIATONIC[mode].triads[d] : q === DIATONIC[from].sevenths[d] ? DIATONIC[mode].sevenths[d] : q;
+  // o algarismo digitado não vale no outro modo: degreeLabel refaz a partir do acorde
+  return { ...deg, semitones: SCALE_STEPS[mode][d], quality: map(deg.quality), alternatives: deg.alternatives?.map(map), mode, label: undefined };
+}
+
+// acordes do grau na tonalidade: o do grau e as alternativas do preset
+export function degreeChords(keyId: string, deg: ProgressionDegree): string[] {
+  const k = parseKeyId(keyId);
+  const inKey = degreeInKey(deg, k.mode);
+  const root = nameForPc(k.pc + inKey.semitones);
+  const bass = inKey.bass ? `/${nameForPc(k.pc + inKey.semitones + inKey.bass)}` : "";
+  return [inKey.quality, ...(inKey.alternatives ?? [])].map(q => root + q + bass);
+}
+
+// acorde escolhido na mão -> grau no modo da tonalidade atual (para acompanhar as trocas de tom)
+export function degreeOfChord(chordKey: string, keyId: string): ProgressionDegree | undefined {
+  const p = parseChordSymbol(chordKey);
+  const k = parseKeyId(keyId);
+  if (toIndex(p.root) < 0 || !isQualityId(p.qual)) return undefined;
+  const semitones = (toIndex(p.root) - k.pc + 12) % 12;
+  const bass = p.bass ? (toIndex(p.bass) - toIndex(p.root) + 12) % 12 : undefined;
+  return { semitones, quality: p.qual, mode: k.mode, ...(bass ? { bass } : {}) };
+}
+
+/** ===== Graus em algarismos romanos =====
+ * "I vi ii V7", "bVII", "V7/V", "iiø7": caixa alta = maior, baixa = menor; b/# alteram o grau
+ * (empréstimo modal) e "/X" faz do acorde um secundário do grau X. Os graus são contados na escala maior
+ * da tônica também em tom menor (homônimo maior): III em Lá menor é C#, e o relativo maior (C) se escreve bIII.
+ */
+const ROMAN_NUMERALS = ["I","II","III","IV","V","VI","VII"];
+const ROMAN_BY_SEMITONE = ["I","bII","II","bIII","III","IV","#IV","V","bVI","VI","bVII","VII"];
+
+function romanQuality(minor: boolean, suffix: string): ChordQualityId | undefined {
+  const s = suffix.replace(/^o/, "°").replace(/^\+$/, "aug").replace(/^\+7$/, "7#5");
+  if (s === "°") return "dim";
+  if (s === "°7") return "dim7";
+  if (s === "ø" || s === "ø7") return "m7b5";
+  if (!minor) return qualityId(s);
+  if (s === "maj7") return "mMaj7";
+  const q = qualityId(s === "" ? "m" : "m" + s);
+  return q && q.startsWith("m") ? q : undefined;
+}
+
+function parseRomanDegree(token: string): ProgressionDegree {
+  const [main, target, ...rest] = token.split("/");
+  const m = main.match(/^([b#♭♯]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(.*)$/);
+  if (!m || rest.length) throw new Error(`Grau inválido: ${token}`);
+  const quality = romanQuality(m[2] === m[2].toLowerCase(), m[3]);
+  if (quality === undefined) throw new Error(`Qualidade desconhecida em ${token}`);
+  const shift = m[1] === "b" || m[1] === "♭" ? -1 : m[1] ? 1 : 0;
+  const semitones = (SCALE_STEPS.major[ROMAN_NUMERALS.indexOf(m[2].toUpperCase())] + shift + 12) % 12;
+  if (target === undefined) return { semitones, quality, label: token };
+  const of = parseRomanDegree(target);
+  return { semitones, quality, of: of.semitones, label: token };
+}
+
+// os graus valem no modo em que foram digitados (vi em Lá menor é F#m)
+export function parseRomanProgression(text: string, mode: KeyMode = "major"): ProgressionDegree[] {
+  const tokens = text.split(/[\s,|–-]+/).filter(Boolean);
+  if (!tokens.length) throw new Error("Digite ao menos um grau (ex.: I vi ii V7)");
+  return tokens.map(t => ({ ...parseRomanDegree(t), mode }));
+}
+
+// grau -> algarismo romano (para presets e acordes escolhidos na mão)
+function degreeLabel(deg: ProgressionDegree): string {
+  if (deg.label) return deg.label;
+  const q = deg.quality;
+  const minor = (q.startsWith("m") && !q.startsWith("maj")) || q === "dim" || q === "dim7";
+  const numeral = ROMAN_BY_SEMITONE[deg.semitones % 12];
+  const suffix = q === "dim" ? "°" : q === "dim7" ? "°7" : q === "m7b5" ? "ø7" : q === "aug" ? "+" : q === "mMaj7" ? "maj7" : minor ? q.slice(1) : q;
+  return (minor ? numeral.toLowerCase() : numeral) + suffix + (deg.bass ? `/${ROMAN_BY_SEMITONE[(deg.semitones + deg.bass) % 12]}` : "");
+}
+export const progressionText = (degrees: ProgressionDegree[]) => degrees.map(degreeLabel).join(" ");
+
+// sequência de um preset na tonalidade: um compasso por grau, ligado ao grau
+export function buildSequenceFromProgression(keyId: string, degrees: ProgressionDegree[], beats: number): SeqItem[] {
+  return degrees.map(degree => ({ key: degreeChords(keyId, degree)[0], varIdx: 0, beats, degree }));
+}
+
+// re-voicing ao trocar o tom: itens ligados a grau seguem o grau (e a alternativa escolhida)
+export function itemInKey(item: SeqItem, keyId: string): SeqItem {
+  if (!item.degree) return item;
+  const chords = degreeChords(keyId, item.degree);
+  return { ...item, key: chords[Math.min(item.choice ?? 0, chords.length - 1)], varIdx: 0 };
+}
+
+/** ===== Transposição e sugestão de capotraste =====
+ * Transpor move as cifras da música inteira (graus, acordes escolhidos na mão e a forma escolhida).
+ * A sugestão procura, para o tom que deve soar, o capo cujas formas têm menos pestanas e menor abertura.
+ */
+const CAPO_SUGGESTIONS = 3;
+const BARRE_COST = 3;
+const HIGH_CAPO = 5; // daí pra cima as casas ficam apertadas: +1 no custo
+
+export function transposeChordKey(key: string, n: number): string {
+  const p = parseChordSymbol(key);
+  if (toIndex(p.root) < 0) return key;
+  return nameForPc(toIndex(p.root) + n) + p.qual + (p.bass ? `/${nameForPc(toIndex(p.bass) + n)}` : "");
+}
+
+// dificuldade da forma: pestana pesa mais que abrir a mão
+function voicingCost(v: Voicing): number {
+  const fretted = v.shape.filter((f): f is number => f !== "x" && f > 0);
+  const span = fretted.length ? Math.max(...fretted) - Math.min(...fretted) : 0;
+  return (v.barre ? BARRE_COST : 0) + span;
+}
+
+export function easiestVoicing(key: string, strings: readonly number[]): { idx: number; cost: number; barre: boolean } {
+  const costs = chordEntry(key, strings).variants.map(voicingCost);
+  const idx = costs.indexOf(Math.min(...costs));
+  return { idx, cost: costs[idx], barre: !!voicingAt(chordEntry(key, strings), idx).barre };
+}
+
+export type CapoSuggestion = { capo: number; keyId: string; shift: number; cost: number; barres: number };
+
+// para soar em `soundingKeyId`: capo c e formas do tom c semitons abaixo; `shift` leva a música atual até elas
+export function suggestCapo(chordKeys: string[], songKeyId: string, soundingKeyId: string, strings: readonly number[]): CapoSuggestion[] {
+  const unique = [...new Set(chordKeys)];
+  const songPc = parseKeyId(songKeyId).pc;
+  return Array.from({ length: MAX_CAPO + 1 }, (_, capo) => {
+    const keyId = transposeKeyId(soundingKeyId, -capo);
+    const shift = (parseKeyId(keyId).pc - songPc + 12) % 12;
+    const shapes = unique.map(k => easiestVoicing(transposeChordKey(k, shift), strings));
+    const cost = shapes.reduce((s, v) => s + v.cost, 0) + (capo >= HIGH_CAPO ? 1 : 0);
+    return { capo, keyId, shift, cost, barres: shapes.filter(v => v.barre).length };
+  }).sort((a, b) => a.cost - b.cost || a.capo - b.capo).slice(0, CAPO_SUGGESTIONS);
+}
+
+/** ===== Análise harmônica =====
+ * Tom provável da sequência como ela está (inclusive os acordes trocados na mão) e a função de cada
+ * acorde nele: diatônico, dominante secundária, empréstimo do modo paralelo ou cromático. As
+ * substituições saem da função: trítono do dominante, relativo maior/menor e ii–V preparando o acorde.
+ */
+export type HarmonicKind = "diatonic" | "secondary" | "borrowed" | "chromatic";
+export const HARMONIC_KINDS: Record<HarmonicKind, { name: string; color: string }> = {
+  diatonic: { name: "diatônico", color: "#888" },
+  secondary: { name: "dominante secundária", color: "#f59e0b" },
+  borrowed: { name: "empréstimo modal", color: "#a78bfa" },
+  chromatic: { name: "cromático", color: "#f87171" },
+};
+// `insert`: os acordes entram antes do compasso em vez de trocá-lo
+export type Substitution = { name: string; chords: string[]; insert?: boolean };
+type ChordAnalysis = { label: string; kind: HarmonicKind; subs: Substitution[] };
+type HarmonicAnalysis = { keyId: string; chords: ChordAnalysis[] };
+
+// no menor valem as duas sétimas (natural e harmônica)
+const MODE_PCS: Record<KeyMode, number[]> = { major: SCALE_STEPS.major, minor: [...SCALE_STEPS.minor, 11] };
+const KEY_CANDIDATES = CHROMA.flatMap((_, pc) => [keyIdAt(pc, "major"), keyIdAt(pc, "minor")]);
+// graus usados nos presets, no modo: contam a favor do tom ("7:7" = V7)
+const presetChords = (mode: KeyMode) => new Set(Object.values(PROGRESSIONS).flatMap(p => p.degrees.flatMap(d => {
+  const inKey = degreeInKey(d, mode);
+  return [inKey.quality, ...(inKey.alternatives ?? [])].map(q => `${inKey.semitones}:${q}`);
+})));
+const PRESET_CHORDS: Record<KeyMode, Set<string>> = { major: presetChords("major"), minor: presetChords("minor") };
+
+type ParsedChord = { root: number; quality: ChordQualityId; tones: number[] };
+export function parseForAnalysis(key: string): ParsedChord | null {
+  const p = parseChordSymbol(key);
+  const root = toIndex(p.root);
+  if (root < 0 || !isQualityId(p.qual)) return null;
+  const tones = CHORD_QUALITIES[p.qual].intervals.map(i => (root + i) % 12);
+  return { root, quality: p.qual, tones: p.bass ? [...tones, toIndex(p.bass)] : tones };
+}
+const hasInterval = (c: ParsedChord, i: number) => CHORD_QUALITIES[c.quality].intervals.some(x => x % 12 === i);
+const isDominant = (c: ParsedChord) => hasInterval(c, 4) && hasInterval(c, 10);
+const fitsMode = (c: ParsedChord, tonic: number, mode: KeyMode) => c.tones.every(pc => MODE_PCS[mode].includes((pc - tonic + 12) % 12));
+
+function detectKey(chords: { chord: ParsedChord; beats: number }[]): string {
+  let best = { keyId: "C", score: -Infinity };
+  for (const keyId of KEY_CANDIDATES) {
+    const { pc, mode } = parseKeyId(keyId);
+    const isTonic = (c: ParsedChord) => c.root === pc && hasInterval(c, mode === "minor" ? 3 : 4);
+    let score = 0;
+    chords.forEach(({ chord, beats }) => {
+      if (!fitsMode(chord, pc, mode)) { score -= beats; return; }
+      score += 2 * beats + (isTonic(chord) ? beats : 0);
+      if (PRESET_CHORDS[mode].has(`${(chord.root - pc + 12) % 12}:${chord.quality}`)) score += beats / 2;
+    });
+    // começo e fim na tônica pesam: separa o tom do relativo
+    if (chords.length && isTonic(chords[0].chord)) score += 2;
+    if (chords.length && isTonic(chords[chords.length - 1].chord)) score += 2;
+    if (score > best.score) best = { keyId, score };
+  }
+  return best.keyId;
+}
+
+// numeral do acorde a partir da tônica; o baixo fica de fora para não confundir com V/x
+const chordLabel = (c: ParsedChord, tonic: number) => degreeLabel({ semitones: (c.root - tonic + 12) % 12, quality: c.quality });
+
+function chordFunction(c: ParsedChord, tonic: number, mode: KeyMode): { label: string; kind: HarmonicKind } {
+  if (fitsMode(c, tonic, mode)) return { label: chordLabel(c, tonic), kind: "diatonic" };
+  // dominante (tríade maior ou com sétima menor) uma quinta acima de um grau maior ou menor do tom
+  const target = (c.root + 5) % 12;
+  const rel = (target - tonic + 12) % 12;
+  const d = SCALE_STEPS[mode].indexOf(rel);
+  const dominantLike = hasInterval(c, 4) && !hasInterval(c, 11) && (isDominant(c) || c.quality === "");
+  if (dominantLike && d > 0 && DIATONIC[mode].triads[d] !== "dim") {
+    const targetLabel = degreeLabel({ semitones: rel, quality: DIATONIC[mode].triads[d] });
+    return { label: `${degreeLabel({ semitones: 7, quality: c.quality })}/${targetLabel}`, kind: "secondary" };
+  }
+  const parallel: KeyMode = mode === "major" ? "minor" : "major";
+  return { label: chordLabel(c, tonic), kind: fitsMode(c, tonic, parallel) ? "borrowed" : "chromatic" };
+}
+
+function chordSubstitutions(c: ParsedChord, prev: ParsedChord | null): Substitution[] {
+  const subs: Substitution[] = [];
+  const minor = hasInterval(c, 3) && !hasInterval(c, 6);
+  const major = hasInterval(c, 4) && !hasInterval(c, 8);
+  if (isDominant(c)) subs.push({ name: "Substituto trítono", chords: [nameForPc(c.root + 6) + "7"] });
+  else if (major) subs.push({ name: "Relativo menor", chords: [nameForPc(c.root + 9) + (hasInterval(c, 11) ? "m7" : "m")] });
+  else if (minor) subs.push({ name: "Relativo maior", chords: [nameForPc(c.root + 3) + (hasInterval(c, 10) ? "maj7" : "")] });
+  // ii–V só quando o acorde anterior ainda não é o V dele
+  if ((major || minor) && !(prev && prev.root === (c.root + 7) % 12 && hasInterval(prev, 4))) {
+    subs.push({ name: "ii–V antes", chords: [nameForPc(c.root + 2) + (minor ? "m7b5" : "m7"), nameForPc(c.root + 7) + "7"], insert: true });
+  }
+  return subs;
+}
+
+export function analyzeSequence(items: SeqItem[]): HarmonicAnalysis {
+  const parsed = items.map(it => parseForAnalysis(it.key));
+  const keyId = detectKey(items.flatMap((it, i) => parsed[i] ? [{ chord: parsed[i], beats: it.beats }] : []));
+  const { pc, mode } = parseKeyId(keyId);
+  const chords = parsed.map((c, i): ChordAnalysis =>
+    c ? { ...chordFunction(c, pc, mode), subs: chordSubstitutions(c, parsed[i - 1] ?? null) } : { label: "?", kind: "chromatic", subs: [] }
+  );
+  return { keyId, chords };
+}
+
+// troca (ou tira, com "") o baixo da cifra: withBass("G", "B") -> "G/B"
+export const withBass = (key: string, bass: string) => {
+  const p = parseChordSymbol(key);
+  return mapSymbolToDictKey(p.root + p.qual + (bass ? `/${bass}` : ""));
+};
+// troca só a raiz ou só a qualidade, mantendo o resto: withRoot("Am7/G", "D") -> "Dm7/G"
+export const withRoot = (key: string, root: string) => {
+  const p = parseChordSymbol(key);
+  return mapSymbolToDictKey(root + p.qual + (p.bass ? `/${p.bass}` : ""));
+};
+export const withQuality = (key: string, quality: ChordQualityId) => {
+  const p = parseChordSymbol(key);
+  return mapSymbolToDictKey(p.root + quality + (p.bass ? `/${p.bass}` : ""));
+};
+
+// cifra -> chave (raiz com sustenido + qualidade de CHORD_QUALITIES + /baixo); qualidades desconhecidas viram a tríade
+export function mapSymbolToDictKey(sym: string): string {
+  if (CHORDS[sym]) return sym;
+  const p = parseChordSymbol(sym);
+  if (toIndex(p.root) < 0) return "C";
+  return p.root + (isQualityId(p.qual) ? p.qual : "") + (p.bass ? `/${p.bass}` : "");
+}
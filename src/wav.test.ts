@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav, type PcmSource } from "./wav";
+
+const pcm = (sampleRate: number, ...channels: number[][]): PcmSource => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  getChannelData: c => Float32Array.from(channels[c]),
+});
+
+describe("encodeWav", () => {
+  it("grava o cabeçalho RIFF/WAVE PCM", () => {
+    const bytes = encodeWav(pcm(44100, [0, 0, 0], [0, 0, 0]), 16);
+    const view = new DataView(bytes.buffer);
+    const ascii = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+    expect([ascii(0), ascii(8), ascii(12), ascii(36)]).toEqual(["RIFF", "WAVE", "fmt ", "data"]);
+    expect(bytes.length).toBe(44 + 3 * 2 * 2);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it("intercala os canais em 16 bits e limita a faixa", () => {
+    const bytes = encodeWav(pcm(8000, [0, 1, -1], [0.5, 2, -2]), 16);
+    const view = new DataView(bytes.buffer);
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, 16384, 32767, 32767, -32767, -32767]);
+  });
+
+  it("grava 24 bits little-endian com sinal", () => {
+    const bytes = encodeWav(pcm(48000, [1, -1, -0.5]), 24);
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect([...bytes.subarray(44)]).toEqual([0xff, 0xff, 0x7f, 0x01, 0x00, 0x80, 0x01, 0x00, 0xc0]);
+  });
+});
@@ -0,0 +1,34 @@
+/** ===== WAV =====
+ * PCM little-endian intercalado, 16 ou 24 bits, a partir de um AudioBuffer renderizado.
+ */
+export type WavBitDepth = 16 | 24;
+// o que o codificador lê do AudioBuffer (testável sem Web Audio)
+export type PcmSource = Pick<AudioBuffer, "numberOfChannels" | "length" | "sampleRate" | "getChannelData">;
+
+export function encodeWav(buffer: PcmSource, bits: WavBitDepth): Uint8Array<ArrayBuffer> {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const bytesPerSample = bits / 8;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataLen = buffer.length * blockAlign;
+  const out = new Uint8Array(44 + dataLen);
+  const view = new DataView(out.buffer);
+  const ascii = (at: number, text: string) => { for (let i = 0; i < text.length; i++) view.setUint8(at + i, text.charCodeAt(i)); };
+
+  ascii(0, "RIFF"); view.setUint32(4, 36 + dataLen, true); ascii(8, "WAVE");
+  ascii(12, "fmt "); view.setUint32(16, 16, true); view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true); view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true); view.setUint16(32, blockAlign, true); view.setUint16(34, bits, true);
+  ascii(36, "data"); view.setUint32(40, dataLen, true);
+
+  const full = bits === 16 ? 0x7fff : 0x7fffff;
+  let at = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const data of channels) {
+      const v = Math.round(Math.max(-1, Math.min(1, data[i])) * full);
+      if (bits === 16) view.setInt16(at, v, true);
+      else { view.setUint8(at, v & 0xff); view.setUint8(at + 1, (v >> 8) & 0xff); view.setUint8(at + 2, (v >> 16) & 0xff); }
+      at += bytesPerSample;
+    }
+  }
+  return out;
+}